@@ -0,0 +1,116 @@
+import { it, describe, expect, afterEach } from 'vitest';
+import { gray } from 'colorette';
+import { render, cleanup as cleanupMountedReactTrees, act } from '@testing-library/react';
+import {
+  AsyncIterDevtools,
+  enableAsyncIterDevtools,
+  useAsyncIter,
+  useSharedAsyncIter,
+} from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+let disableDevtools: undefined | (() => void);
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+  disableDevtools?.();
+  disableDevtools = undefined;
+});
+
+describe('`<AsyncIterDevtools>` component', () => {
+  it(gray('Shows nothing when instrumentation is not enabled'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+
+    const rendered = render(
+      <>
+        <ChannelConsumer channel={channel} />
+        <AsyncIterDevtools />
+      </>
+    );
+    await act(() => channel.put('a'));
+
+    expect(rendered.container.querySelectorAll('tbody tr').length).toStrictEqual(0);
+  });
+
+  it(
+    gray('Lists active iterations with their owners, yield counts, last values and end times'),
+    async () => {
+      disableDevtools = enableAsyncIterDevtools();
+      const channel = new IteratorChannelTestHelper<string>();
+
+      const rendered = render(
+        <>
+          <ChannelConsumer channel={channel} />
+          <AsyncIterDevtools />
+        </>
+      );
+
+      await act(() => channel.put('a'));
+      await act(() => channel.put('b'));
+
+      const getRowCells = () =>
+        Array.from(rendered.container.querySelectorAll('table:first-of-type tbody tr td')).map(
+          td => td.textContent
+        );
+
+      expect(getRowCells()).toMatchObject([
+        expect.stringMatching(/^AsyncIterable#\d+$/),
+        'ChannelConsumer',
+        'active',
+        '2',
+        '"b"',
+        '-',
+        expect.stringMatching(/^\d{2}:\d{2}:\d{2}\.\d{3}$/),
+        '-',
+      ]);
+
+      rendered.rerender(<AsyncIterDevtools />);
+      await act(() => {});
+
+      expect(getRowCells()).toMatchObject([
+        expect.any(String),
+        'ChannelConsumer',
+        'closed',
+        '2',
+        '"b"',
+        '-',
+        expect.any(String),
+        expect.stringMatching(/^\d{2}:\d{2}:\d{2}\.\d{3}$/),
+      ]);
+    }
+  );
+
+  it(gray('Lists shared sources with their subscriber counts'), async () => {
+    disableDevtools = enableAsyncIterDevtools();
+    const channel = new IteratorChannelTestHelper<string>();
+
+    function SharingComponent() {
+      const sharedIter = useSharedAsyncIter(channel);
+      return (
+        <>
+          <ChannelConsumer channel={sharedIter} />
+          <ChannelConsumer channel={sharedIter} />
+        </>
+      );
+    }
+
+    const rendered = render(
+      <>
+        <SharingComponent />
+        <AsyncIterDevtools />
+      </>
+    );
+    await act(() => {});
+
+    const sharedSourceCells = Array.from(
+      rendered.container.querySelectorAll('table:last-of-type tbody tr td')
+    ).map(td => td.textContent);
+
+    expect(sharedSourceCells).toMatchObject([expect.any(String), '2', '2', '-']);
+  });
+});
+
+function ChannelConsumer(props: { channel: AsyncIterable<string> }) {
+  const next = useAsyncIter(props.channel);
+  return <p>{next.value}</p>;
+}
@@ -4,6 +4,7 @@ import { render, cleanup as cleanupMountedReactTrees, act } from '@testing-libra
 import { Iterate, It, iterateFormatted, type IterationResult } from '../libEntrypoint.js';
 import { asyncIterOf } from '../utils/asyncIterOf.js';
 import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+import { ErrorBoundaryTestHelper } from '../utils/ErrorBoundaryTestHelper.js';
 
 afterEach(() => {
   cleanupMountedReactTrees();
@@ -900,6 +901,110 @@ describe('`Iterate` component', () => {
       );
     }
   );
+  it(
+    gray(
+      'When given `throwOnError` and the iterable errors, rethrows the error for the nearest error boundary and restarts iteration once the boundary resets'
+    ),
+    async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const channels: IteratorChannelTestHelper<string>[] = [];
+      const iter = {
+        [Symbol.asyncIterator]: () => {
+          const channel = new IteratorChannelTestHelper<string>();
+          channels.push(channel);
+          return channel;
+        },
+      };
+      let errorBoundary!: ErrorBoundaryTestHelper;
+
+      try {
+        const rendered = render(
+          <ErrorBoundaryTestHelper
+            ref={ref => void (errorBoundary = ref!)}
+            fallback={err => `Caught: ${(err as Error).message}`}
+          >
+            <Iterate value={iter} throwOnError>
+              {next => <div id="test-created-elem">{next.value}</div>}
+            </Iterate>
+          </ErrorBoundaryTestHelper>
+        );
+
+        await act(() => channels[0].put('a'));
+        expect(rendered.container.innerHTML).toStrictEqual('<div id="test-created-elem">a</div>');
+
+        await act(() => channels[0].error(simulatedError));
+        expect(rendered.container.innerHTML).toStrictEqual(`Caught: ${simulatedError.message}`);
+        expect(channels).lengthOf(1);
+
+        await act(() => errorBoundary.reset());
+        expect(channels).lengthOf(2);
+        expect(rendered.container.innerHTML).toStrictEqual('<div id="test-created-elem"></div>');
+
+        await act(() => channels[1].put('b'));
+        expect(rendered.container.innerHTML).toStrictEqual('<div id="test-created-elem">b</div>');
+      } finally {
+        consoleErrorSpy.mockRestore();
+      }
+    }
+  );
+
+  it(
+    gray(
+      'When given `throwOnError` as a function, rethrows only errors for which it returns `true`'
+    ),
+    async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const channel = new IteratorChannelTestHelper<string>();
+      const throwOnError = vi.fn((err: unknown) => err !== simulatedError);
+
+      try {
+        const rendered = render(
+          <ErrorBoundaryTestHelper fallback={() => 'Caught'}>
+            <Iterate value={channel} throwOnError={throwOnError}>
+              {next => <div id="test-created-elem">{`${next.error}`}</div>}
+            </Iterate>
+          </ErrorBoundaryTestHelper>
+        );
+
+        await act(() => channel.error(simulatedError));
+
+        expect(throwOnError.mock.calls).toStrictEqual([[simulatedError]]);
+        expect(rendered.container.innerHTML).toStrictEqual(
+          `<div id="test-created-elem">${simulatedError}</div>`
+        );
+      } finally {
+        consoleErrorSpy.mockRestore();
+      }
+    }
+  );
+  it(
+    gray(
+      "When given a `'manual'` mode, advances the iteration upon the render function calling `advance`"
+    ),
+    async () => {
+      const slidesIter = (async function* () {
+        const answer: string = yield 'Question';
+        yield `Answered: ${answer}`;
+      })();
+
+      const rendered = render(
+        <Iterate value={slidesIter} mode="manual">
+          {next => (
+            <button id="test-created-elem" onClick={() => next.advance?.('yes')}>
+              {next.value}
+            </button>
+          )}
+        </Iterate>
+      );
+
+      await act(() => {});
+      const button = rendered.container.querySelector('#test-created-elem') as HTMLElement;
+      expect(button.textContent).toStrictEqual('Question');
+
+      await act(() => button.click());
+      expect(button.textContent).toStrictEqual('Answered: yes');
+    }
+  );
 });
 
 const simulatedError = new Error('🚨 Simulated Error 🚨');
@@ -0,0 +1,84 @@
+import { it, describe, expect, afterEach } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, render } from '@testing-library/react';
+import { IterateList, ItList } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`IterateList` component', () => {
+  it(gray('Importable also as `<ItList>`'), () => {
+    expect(IterateList).toStrictEqual(ItList);
+  });
+
+  it(gray('Renders every accumulated item through the render function'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+
+    const rendered = await act(() =>
+      render(
+        <IterateList value={channel}>
+          {(item, i, next) => (
+            <div className="item">
+              {i}:{item}:{next.done ? 'done' : 'running'}
+            </div>
+          )}
+        </IterateList>
+      )
+    );
+
+    expect(rendered.container.innerHTML).toStrictEqual('');
+
+    await act(() => channel.put('a'));
+    await act(() => channel.put('b'));
+    await act(() => channel.complete());
+
+    expect(
+      Array.from(rendered.container.querySelectorAll('.item')).map(el => el.textContent)
+    ).toStrictEqual(['0:a:done', '1:b:done']);
+  });
+
+  it(
+    gray('When given `getKey` and `maxLength`, preserves the elements of retained items'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<{ id: number; text: string }>();
+
+      const rendered = await act(() =>
+        render(
+          <IterateList value={channel} getKey={msg => msg.id} maxLength={2}>
+            {msg => <div className="item">{msg.text}</div>}
+          </IterateList>
+        )
+      );
+
+      await act(() => channel.put({ id: 1, text: 'a' }));
+      await act(() => channel.put({ id: 2, text: 'b' }));
+      const [, elemB] = Array.from(rendered.container.querySelectorAll('.item'));
+
+      await act(() => channel.put({ id: 3, text: 'c' }));
+      const elems = Array.from(rendered.container.querySelectorAll('.item'));
+
+      expect(elems.map(el => el.textContent)).toStrictEqual(['b', 'c']);
+      expect(elems[0]).toBe(elemB);
+    }
+  );
+
+  it(gray('Requires `getKey` whenever `maxLength` is given'), () => {
+    const channel = new IteratorChannelTestHelper<string>();
+
+    const withoutGetKey = (
+      // @ts-expect-error - `maxLength` without `getKey`
+      <IterateList value={channel} maxLength={2}>
+        {item => item}
+      </IterateList>
+    );
+    const withGetKey = (
+      <IterateList value={channel} maxLength={2} getKey={item => item}>
+        {item => item}
+      </IterateList>
+    );
+
+    expect([withoutGetKey, withGetKey]).toHaveLength(2);
+  });
+});
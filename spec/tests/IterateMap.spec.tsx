@@ -0,0 +1,50 @@
+import { it, describe, expect, afterEach } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, render } from '@testing-library/react';
+import { IterateMap, ItMap } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`IterateMap` component', () => {
+  it(gray('Importable also as `<ItMap>`'), () => {
+    expect(IterateMap).toStrictEqual(ItMap);
+  });
+
+  it(gray('Renders the keyed iteration states through the render function'), async () => {
+    const channelA = new IteratorChannelTestHelper<string>();
+    const channelB = new IteratorChannelTestHelper<string>();
+
+    const rendered = await act(() =>
+      render(
+        <IterateMap
+          values={
+            new Map([
+              ['a', channelA],
+              ['b', channelB],
+            ])
+          }
+          defaultInitialValue={key => `${key}...`}
+        >
+          {states =>
+            [...states].map(([key, state]) => (
+              <div key={key} className="item">
+                {key}:{state.value}
+              </div>
+            ))
+          }
+        </IterateMap>
+      )
+    );
+
+    const renderedTexts = () =>
+      Array.from(rendered.container.querySelectorAll('.item')).map(el => el.textContent);
+
+    expect(renderedTexts()).toStrictEqual(['a:a...', 'b:b...']);
+
+    await act(() => channelB.put('b1'));
+    expect(renderedTexts()).toStrictEqual(['a:a...', 'b:b1']);
+  });
+});
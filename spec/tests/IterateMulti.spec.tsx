@@ -7,10 +7,11 @@ import {
   ItMulti,
   type IterateMultiProps,
   type IterationResultSet,
+  pipe,
 } from '../libEntrypoint.js';
-import { pipe } from '../utils/pipe.js';
 import { asyncIterOf } from '../utils/asyncIterOf.js';
 import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+import { ErrorBoundaryTestHelper } from '../utils/ErrorBoundaryTestHelper.js';
 
 afterEach(() => {
   cleanupMountedReactTrees();
@@ -1426,6 +1427,61 @@ describe('`IterateMulti` hook', () => {
       );
     }
   );
+  it(
+    gray(
+      'When given `throwOnError` and any of the iterables errors, rethrows the error for the nearest error boundary and restarts iterations once the boundary resets'
+    ),
+    async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const channels: IteratorChannelTestHelper<string>[] = [];
+      const iter = {
+        [Symbol.asyncIterator]: () => {
+          const channel = new IteratorChannelTestHelper<string>();
+          channels.push(channel);
+          return channel;
+        },
+      };
+      const otherChannel = new IteratorChannelTestHelper<string>();
+      let errorBoundary!: ErrorBoundaryTestHelper;
+
+      try {
+        const rendered = render(
+          <ErrorBoundaryTestHelper
+            ref={ref => void (errorBoundary = ref!)}
+            fallback={err => `Caught: ${(err as Error).message}`}
+          >
+            <ItMulti values={[iter, otherChannel]} throwOnError>
+              {([next1, next2]) => (
+                <div id="test-created-elem">
+                  {next1.value}, {next2.value}
+                </div>
+              )}
+            </ItMulti>
+          </ErrorBoundaryTestHelper>
+        );
+
+        await act(() => {
+          channels[0].put('a');
+          otherChannel.put('b');
+        });
+        expect(rendered.container.innerHTML).toStrictEqual(
+          '<div id="test-created-elem">a, b</div>'
+        );
+
+        await act(() => channels[0].error(simulatedError1));
+        expect(rendered.container.innerHTML).toStrictEqual(`Caught: ${simulatedError1.message}`);
+        expect(otherChannel.return).toHaveBeenCalledOnce();
+
+        await act(() => errorBoundary.reset());
+        expect(channels).lengthOf(2);
+
+        await act(() => channels[1].put('c'));
+        expect(rendered.container.innerHTML).toStrictEqual('<div id="test-created-elem">c, </div>');
+      } finally {
+        consoleErrorSpy.mockRestore();
+      }
+    }
+  );
 });
 
 const simulatedError1 = new Error('🚨 Simulated Error 1 🚨');
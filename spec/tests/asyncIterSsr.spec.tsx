@@ -0,0 +1,176 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { type ReactNode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { render, renderHook, cleanup as cleanupMountedReactTrees } from '@testing-library/react';
+import {
+  createAsyncIterSsrState,
+  AsyncIterSsrProvider,
+  createAsyncIterState,
+  useAsyncIter,
+  useAsyncIterMulti,
+  useAsyncIterMap,
+  iterateFormatted,
+  It,
+  type AsyncIterSsrState,
+} from '../libEntrypoint.js';
+import { asyncIterOf } from '../utils/asyncIterOf.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+  vi.restoreAllMocks();
+});
+
+describe('Server-side rendering support', () => {
+  it(
+    gray(
+      '`prefetch()` resolves registered sources by their current values or their first N yields'
+    ),
+    async () => {
+      const ssrState = createAsyncIterSsrState();
+      const [subject] = createAsyncIterState('<current>');
+      const neverYielding = new IteratorChannelTestHelper<string>();
+
+      ssrState.register('a', asyncIterOf('a1', 'a2', 'a3'));
+      ssrState.register('b', subject);
+      ssrState.register('c', neverYielding);
+
+      await ssrState.prefetch({ yields: 2, timeoutMs: 10 });
+
+      expect(ssrState.get('a')).toStrictEqual({ value: 'a2' });
+      expect(ssrState.get('b')).toStrictEqual({ value: '<current>' });
+      expect(ssrState.get('c')).toStrictEqual(undefined);
+      expect(neverYielding.return).toHaveBeenCalledOnce();
+
+      const serialized = ssrState.serialize();
+      expect(serialized).not.toContain('<');
+      expect(createAsyncIterSsrState(serialized).get('b')).toStrictEqual({ value: '<current>' });
+    }
+  );
+
+  it(
+    gray(
+      'Hooks given an `ssrKey` register their sources and render with the resolved values once prefetched'
+    ),
+    async () => {
+      const ssrState = createAsyncIterSsrState();
+      const iter = asyncIterOf('a', 'b');
+      const formattedIter = iterateFormatted(iter, value => `${value}!`);
+
+      const results: unknown[] = [];
+      const useHookUnderTest = () => {
+        const result = useAsyncIter(formattedIter, undefined, { ssrKey: 'my_key' });
+        results.push(result);
+        return result;
+      };
+
+      const firstPass = renderHook(useHookUnderTest, { wrapper: makeSsrWrapper(ssrState) });
+      expect(firstPass.result.current).toStrictEqual({
+        value: undefined,
+        pendingFirst: true,
+        done: false,
+        error: undefined,
+      });
+      firstPass.unmount();
+
+      await ssrState.prefetch();
+
+      results.length = 0;
+      renderHook(useHookUnderTest, { wrapper: makeSsrWrapper(ssrState) });
+      expect(results[0]).toStrictEqual({
+        value: 'a!',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+    }
+  );
+
+  it(
+    gray('Hydrates `<It>` on the client with the serialized values without a mismatch'),
+    async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const serverSsrState = createAsyncIterSsrState();
+      serverSsrState.register('my_key', asyncIterOf('a'));
+      await serverSsrState.prefetch();
+
+      const channel = new IteratorChannelTestHelper<string>();
+      const renderedOutputs: string[] = [];
+
+      const buildTree = (ssrState: AsyncIterSsrState) => (
+        <AsyncIterSsrProvider state={ssrState}>
+          <It value={channel} ssrKey="my_key">
+            {next => {
+              const output = `${next.value} (pendingFirst: ${next.pendingFirst})`;
+              renderedOutputs.push(output);
+              return <p>{output}</p>;
+            }}
+          </It>
+        </AsyncIterSsrProvider>
+      );
+
+      const serverContainer = document.createElement('div');
+      render(buildTree(serverSsrState), { container: serverContainer });
+      const serverHtml = serverContainer.innerHTML;
+      cleanupMountedReactTrees();
+
+      const clientContainer = document.body.appendChild(document.createElement('div'));
+      clientContainer.innerHTML = serverHtml;
+      renderedOutputs.length = 0;
+
+      const clientSsrState = createAsyncIterSsrState(serverSsrState.serialize());
+      render(buildTree(clientSsrState), { container: clientContainer, hydrate: true });
+
+      expect(serverHtml).toStrictEqual('<p>a (pendingFirst: false)</p>');
+      expect(renderedOutputs[0]).toStrictEqual('a (pendingFirst: false)');
+      expect(clientContainer.innerHTML).toStrictEqual(serverHtml);
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+    }
+  );
+
+  it(
+    gray(
+      'Renders hooked iterables to a string on the server, with their initial or prefetched values'
+    ),
+    async () => {
+      const ssrState = createAsyncIterSsrState();
+      ssrState.register('my_key', asyncIterOf('a'));
+      await ssrState.prefetch();
+
+      function Component(): ReactNode {
+        const single = useAsyncIter(new IteratorChannelTestHelper<string>(), '_');
+        const [multi] = useAsyncIterMulti([new IteratorChannelTestHelper<string>()], {
+          initialValues: ['_'],
+        });
+        const { mapped } = useAsyncIterMap(
+          { mapped: new IteratorChannelTestHelper<string>() },
+          { defaultInitialValue: '_' }
+        );
+        const prefetched = useAsyncIter(new IteratorChannelTestHelper<string>(), undefined, {
+          ssrKey: 'my_key',
+        });
+        return (
+          <p>
+            {single.value} {multi.value} {mapped.value} {prefetched.value}
+          </p>
+        );
+      }
+
+      const html = renderToString(
+        <AsyncIterSsrProvider state={ssrState}>
+          <Component />
+        </AsyncIterSsrProvider>
+      );
+
+      expect(html).toStrictEqual('<p>_<!-- --> <!-- -->_<!-- --> <!-- -->_<!-- --> <!-- -->a</p>');
+    }
+  );
+});
+
+function makeSsrWrapper(ssrState: AsyncIterSsrState) {
+  return (props: { children?: ReactNode }) => (
+    <AsyncIterSsrProvider state={ssrState}>{props.children}</AsyncIterSsrProvider>
+  );
+}
@@ -0,0 +1,82 @@
+import { it, describe, expect, beforeEach, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { useState, useLayoutEffect, startTransition, type ReactNode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import {
+  createAsyncIterState,
+  useAsyncIter,
+  useAsyncIterMulti,
+  useAsyncIterMap,
+} from '../libEntrypoint.js';
+
+describe('Concurrent rendering', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let prevIsActEnvironment: unknown;
+
+  beforeEach(() => {
+    // Rendering here is left to React's actual scheduler, so that transitions actually get time-sliced
+    prevIsActEnvironment = (globalThis as any).IS_REACT_ACT_ENVIRONMENT;
+    (globalThis as any).IS_REACT_ACT_ENVIRONMENT = false;
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    root.unmount();
+    (globalThis as any).IS_REACT_ACT_ENVIRONMENT = prevIsActEnvironment;
+  });
+
+  for (const [hookName, useHookedValue] of [
+    ['useAsyncIter', (src: AsyncIterable<string>) => useAsyncIter(src).value],
+    ['useAsyncIterMulti', (src: AsyncIterable<string>) => useAsyncIterMulti([src])[0].value],
+    ['useAsyncIterMap', (src: AsyncIterable<string>) => useAsyncIterMap({ src }).src.value],
+  ] as const) {
+    it(
+      gray(
+        `\`${hookName}\`: When the source yields in the midst of a transition render, never commits a torn UI where components read different values of it`
+      ),
+      async () => {
+        const [values, setValue] = createAsyncIterState('a');
+        const committedTexts: string[] = [];
+        let triggerTransition!: () => void;
+
+        function Reader(): ReactNode {
+          return <span>{useHookedValue(values)}</span>;
+        }
+
+        function Slow(props: { tick: number }): ReactNode {
+          if (props.tick === 1) {
+            queueMicrotask(() => setValue('b')); // Runs once React yields back to the event loop during the time-sliced transition render, in between the two readers
+            const startedAt = performance.now();
+            while (performance.now() - startedAt < 20);
+          }
+          return <span>|</span>;
+        }
+
+        function App(): ReactNode {
+          const [tick, setTick] = useState(0);
+          triggerTransition = () => startTransition(() => setTick(1));
+          useLayoutEffect(() => {
+            committedTexts.push(container.textContent!);
+          });
+          return (
+            <>
+              <Reader />
+              <Slow tick={tick} />
+              <Reader />
+            </>
+          );
+        }
+
+        root.render(<App />);
+        await vi.waitFor(() => expect(committedTexts.at(-1)).toStrictEqual('a|a'));
+
+        triggerTransition();
+        await vi.waitFor(() => expect(committedTexts.at(-1)).toStrictEqual('b|b'));
+
+        expect(committedTexts.filter(text => text !== 'a|a' && text !== 'b|b')).toStrictEqual([]);
+      }
+    );
+  }
+});
@@ -0,0 +1,114 @@
+import { it, describe, expect, afterEach } from 'vitest';
+import { gray } from 'colorette';
+import { render, cleanup as cleanupMountedReactTrees, act } from '@testing-library/react';
+import { createAsyncIterState, It, pipe } from '../libEntrypoint.js';
+import { asyncIterToArray } from '../utils/asyncIterToArray.js';
+import { asyncIterTakeFirst } from '../utils/asyncIterTakeFirst.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`createAsyncIterState` function', () => {
+  it(
+    gray('Updates are yielded and immediately reflected on the `.value.current` property'),
+    async () => {
+      const [values, setValue] = createAsyncIterState(() => 'a');
+
+      const currentValues = [values.value.current];
+      const yieldPromise = pipe(values, asyncIterTakeFirst());
+
+      setValue(prev => `${prev}_b`);
+      currentValues.push(values.value.current);
+
+      expect(await yieldPromise).toStrictEqual('a_b');
+      expect(currentValues).toStrictEqual(['a', 'a_b']);
+    }
+  );
+
+  it(gray('Closing the state iterable completes its iterators and ignores updates'), async () => {
+    const [values, setValue, close] = createAsyncIterState<string>();
+
+    const valuesPromise = asyncIterToArray(values);
+    setValue('a');
+    await undefined;
+    await undefined;
+    close();
+    setValue('b');
+
+    expect(await valuesPromise).toStrictEqual(['a']);
+    expect(values.value.current).toStrictEqual('a');
+  });
+
+  it(gray('Can be rendered with `<It>`, starting off from its current value'), async () => {
+    const [values, setValue] = createAsyncIterState('a');
+
+    const rendered = render(<It value={values}>{next => <p>{next.value}</p>}</It>);
+    expect(rendered.container.innerHTML).toStrictEqual('<p>a</p>');
+
+    await act(() => setValue('b'));
+    expect(rendered.container.innerHTML).toStrictEqual('<p>b</p>');
+  });
+
+  describe(gray('With the `delivery` option'), () => {
+    it(gray("`'replayCurrent'` makes new iterators first yield the latest value put"), async () => {
+      const [values, setValue, close] = createAsyncIterState('a', { delivery: 'replayCurrent' });
+
+      const iterator1 = values[Symbol.asyncIterator]();
+      setValue('b');
+      const iterator2 = values[Symbol.asyncIterator]();
+
+      expect(await iterator2.next()).toStrictEqual({ done: false, value: 'b' });
+      expect(await iterator1.next()).toStrictEqual({ done: false, value: 'b' });
+      const nextPromise = iterator1.next();
+      setValue('c');
+      expect(await nextPromise).toStrictEqual({ done: false, value: 'c' });
+      close();
+    });
+
+    it(
+      gray("`'replayCurrent'` makes new iterators first yield the initial value if none was put"),
+      async () => {
+        const [values, setValue, close] = createAsyncIterState('a', { delivery: 'replayCurrent' });
+
+        const iterator = values[Symbol.asyncIterator]();
+        expect(await iterator.next()).toStrictEqual({ done: false, value: 'a' });
+
+        const nextPromise = iterator.next();
+        setValue('b');
+        expect(await nextPromise).toStrictEqual({ done: false, value: 'b' });
+        close();
+      }
+    );
+
+    it(
+      gray('`{ buffer }` delivers every value put, even synchronously, up to the buffer size'),
+      async () => {
+        const [values, setValue, close] = createAsyncIterState<string>(undefined, {
+          delivery: { buffer: 3 },
+        });
+
+        const iterator1 = values[Symbol.asyncIterator]();
+        const iterator2 = values[Symbol.asyncIterator]();
+        const nextPromise = iterator1.next();
+
+        for (const value of ['a', 'b', 'c', 'd', 'e']) {
+          setValue(value);
+        }
+        close();
+
+        expect(await nextPromise).toStrictEqual({ done: false, value: 'a' });
+        expect(await asyncIterToArray({ [Symbol.asyncIterator]: () => iterator1 })).toStrictEqual([
+          'c',
+          'd',
+          'e',
+        ]);
+        expect(await asyncIterToArray({ [Symbol.asyncIterator]: () => iterator2 })).toStrictEqual([
+          'c',
+          'd',
+          'e',
+        ]);
+      }
+    );
+  });
+});
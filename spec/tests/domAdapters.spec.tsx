@@ -0,0 +1,178 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { type ReactNode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { hydrateRoot } from 'react-dom/client';
+import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
+import {
+  fromEvent,
+  fromObserver,
+  fromMediaQuery,
+  fromAbortSignal,
+  useAsyncIter,
+} from '../libEntrypoint.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+  vi.unstubAllGlobals();
+});
+
+describe('DOM adapters', () => {
+  it(gray('`fromEvent` yields dispatched events, listening only while iterated'), async () => {
+    const target = new EventTarget();
+    const addSpy = vi.spyOn(target, 'addEventListener');
+    const removeSpy = vi.spyOn(target, 'removeEventListener');
+
+    const iterator = fromEvent<CustomEvent<string>>(target, 'ping')[Symbol.asyncIterator]();
+    expect(addSpy).not.toHaveBeenCalled();
+
+    const nextPromise = iterator.next();
+    expect(addSpy).toHaveBeenCalledOnce();
+
+    target.dispatchEvent(new CustomEvent('ping', { detail: 'a' }));
+    target.dispatchEvent(new CustomEvent('ping', { detail: 'b' }));
+
+    expect((await nextPromise).value?.detail).toStrictEqual('a');
+    expect((await iterator.next()).value?.detail).toStrictEqual('b');
+
+    await iterator.return!();
+    expect(removeSpy).toHaveBeenCalledOnce();
+    expect(removeSpy.mock.calls[0][1]).toBe(addSpy.mock.calls[0][1]);
+  });
+
+  it(
+    gray('`fromObserver` yields reported entries and disconnects the observer on close'),
+    async () => {
+      const instances: FakeObserver[] = [];
+
+      class FakeObserver {
+        observe = vi.fn();
+        disconnect = vi.fn();
+        constructor(
+          public callback: (entries: { size: number }[], observer: FakeObserver) => void,
+          public init?: { threshold: number }
+        ) {
+          instances.push(this);
+        }
+      }
+
+      const target = {};
+      const iterator = fromObserver(FakeObserver, target, {
+        init: { threshold: 0.5 },
+        observe: { box: 'border-box' },
+      })[Symbol.asyncIterator]();
+
+      const nextPromise = iterator.next();
+      expect(instances).lengthOf(1);
+      expect(instances[0].init).toStrictEqual({ threshold: 0.5 });
+      expect(instances[0].observe.mock.calls).toStrictEqual([[target, { box: 'border-box' }]]);
+
+      instances[0].callback([{ size: 1 }], instances[0]);
+      expect(await nextPromise).toStrictEqual({ done: false, value: [{ size: 1 }] });
+
+      await iterator.return!();
+      expect(instances[0].disconnect).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(gray('`fromMediaQuery` exposes the current match state and yields its changes'), async () => {
+    const mql = Object.assign(new EventTarget(), { matches: false });
+    const matchMedia = vi.fn(() => mql);
+    vi.stubGlobal('matchMedia', matchMedia);
+
+    const mediaQueryIter = fromMediaQuery('(min-width: 768px)');
+    const renderedHook = renderHook(() => useAsyncIter(mediaQueryIter));
+
+    expect(matchMedia.mock.calls).toStrictEqual([['(min-width: 768px)']]);
+    expect(renderedHook.result.current).toStrictEqual({
+      value: false,
+      pendingFirst: false,
+      done: false,
+      error: undefined,
+    });
+
+    await act(() => {
+      mql.matches = true;
+      mql.dispatchEvent(Object.assign(new Event('change'), { matches: true }));
+    });
+    expect(renderedHook.result.current.value).toStrictEqual(true);
+  });
+
+  it(
+    gray('`fromMediaQuery` reports the given server value where there is no `window`'),
+    async () => {
+      const matchMedia = vi.fn();
+      vi.stubGlobal('matchMedia', matchMedia);
+      vi.stubGlobal('window', undefined);
+
+      const mediaQueryIter = fromMediaQuery('(min-width: 768px)');
+      const mediaQueryIterWithServerValue = fromMediaQuery('(min-width: 768px)', {
+        serverValue: true,
+      });
+
+      function Component(): ReactNode {
+        const { value: matches } = useAsyncIter(mediaQueryIter);
+        const { value: matchesWithServerValue } = useAsyncIter(mediaQueryIterWithServerValue);
+        return <p>{`${matches} ${matchesWithServerValue}`}</p>;
+      }
+
+      expect(renderToString(<Component />)).toStrictEqual('<p>false true</p>');
+      expect(matchMedia).not.toHaveBeenCalled();
+    }
+  );
+
+  it(
+    gray(
+      '`fromMediaQuery` given a server value hydrates with it and then updates to the actual match state'
+    ),
+    async () => {
+      const mql = Object.assign(new EventTarget(), { matches: true });
+      vi.stubGlobal(
+        'matchMedia',
+        vi.fn(() => mql)
+      );
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true); // As `hydrateRoot` is used directly rather than through the testing library
+
+      try {
+        const mediaQueryIter = fromMediaQuery('(min-width: 768px)', { serverValue: false });
+
+        function Component(): ReactNode {
+          return <p>{`${useAsyncIter(mediaQueryIter).value}`}</p>;
+        }
+
+        const container = document.createElement('div');
+        container.innerHTML = '<p>false</p>';
+        const root = await act(() => hydrateRoot(container, <Component />));
+
+        expect(container.innerHTML).toStrictEqual('<p>true</p>');
+        expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+        await act(() => root.unmount());
+      } finally {
+        consoleErrorSpy.mockRestore();
+      }
+    }
+  );
+
+  it(
+    gray('`fromAbortSignal` exposes whether aborted and yields `true` upon aborting'),
+    async () => {
+      const controller = new AbortController();
+      const abortedIter = fromAbortSignal(controller.signal);
+
+      expect(abortedIter.value.current).toStrictEqual(false);
+
+      const iterator = abortedIter[Symbol.asyncIterator]();
+      const nextPromise = iterator.next();
+      controller.abort();
+
+      expect(abortedIter.value.current).toStrictEqual(true);
+      expect(await nextPromise).toStrictEqual({ done: false, value: true });
+      expect(await iterator.next()).toStrictEqual({ done: true, value: undefined });
+
+      const lateIterator = abortedIter[Symbol.asyncIterator]();
+      expect(await lateIterator.next()).toStrictEqual({ done: true, value: undefined });
+    }
+  );
+});
@@ -0,0 +1,62 @@
+import { it, describe, expect } from 'vitest';
+import { gray } from 'colorette';
+import { shallowEqual, deepEqual } from '../libEntrypoint.js';
+
+describe('Equality helpers', () => {
+  it(gray('`shallowEqual` compares objects and arrays by their top-level contents'), () => {
+    expect(shallowEqual(1, 1)).toStrictEqual(true);
+    expect(shallowEqual(NaN, NaN)).toStrictEqual(true);
+    expect(shallowEqual({ a: 1, b: 'x' }, { a: 1, b: 'x' })).toStrictEqual(true);
+    expect(shallowEqual([1, 2], [1, 2])).toStrictEqual(true);
+    expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toStrictEqual(false);
+    expect(shallowEqual({ a: { b: 1 } }, { a: { b: 1 } })).toStrictEqual(false);
+    expect(shallowEqual([1], { 0: 1 })).toStrictEqual(false);
+    expect(shallowEqual(null, {})).toStrictEqual(false);
+    expect(shallowEqual({ a: 1 }, Object.assign(Object.create(null), { a: 1 }))).toStrictEqual(
+      false
+    );
+  });
+
+  it(gray('`shallowEqual` compares `Map`s, `Set`s and `Date`s by their contents'), () => {
+    const obj = { a: 1 };
+    expect(shallowEqual(new Map([[1, obj]]), new Map([[1, obj]]))).toStrictEqual(true);
+    expect(shallowEqual(new Map([[1, 1]]), new Map([[1, 2]]))).toStrictEqual(false);
+    expect(shallowEqual(new Map([[1, { a: 1 }]]), new Map([[1, { a: 1 }]]))).toStrictEqual(false);
+    expect(shallowEqual(new Set([1, obj]), new Set([obj, 1]))).toStrictEqual(true);
+    expect(shallowEqual(new Set([1, 2]), new Set([1, 3]))).toStrictEqual(false);
+    expect(shallowEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toStrictEqual(false);
+    expect(shallowEqual(new Date(0), new Date(0))).toStrictEqual(true);
+    expect(shallowEqual(new Date(0), new Date(1))).toStrictEqual(false);
+    expect(shallowEqual(new Map(), new Set())).toStrictEqual(false);
+  });
+
+  it(gray('`deepEqual` compares values structurally'), () => {
+    expect(
+      deepEqual(
+        { a: [1, { b: 'x' }], c: new Date(0), d: new Map([['k', { e: 1 }]]), f: new Set([1, 2]) },
+        { a: [1, { b: 'x' }], c: new Date(0), d: new Map([['k', { e: 1 }]]), f: new Set([1, 2]) }
+      )
+    ).toStrictEqual(true);
+    expect(deepEqual(/a/g, /a/g)).toStrictEqual(true);
+    expect(deepEqual({ a: [1, { b: 'x' }] }, { a: [1, { b: 'y' }] })).toStrictEqual(false);
+    expect(deepEqual(new Date(0), new Date(1))).toStrictEqual(false);
+    expect(deepEqual(new Set([1]), new Set([2]))).toStrictEqual(false);
+    expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toStrictEqual(true);
+    expect(deepEqual(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }]))).toStrictEqual(
+      false
+    );
+    expect(deepEqual([1, 2], [1, 2, 3])).toStrictEqual(false);
+    expect(deepEqual({ a: 1 }, Object.assign(Object.create(null), { a: 1 }))).toStrictEqual(false);
+  });
+
+  it(gray('`deepEqual` compares values with circular references'), () => {
+    const createCyclic = (leaf: number) => {
+      const node: { leaf: number; self?: unknown; children: unknown[] } = { leaf, children: [] };
+      node.self = node;
+      node.children.push(node, new Set([node]));
+      return node;
+    };
+    expect(deepEqual(createCyclic(1), createCyclic(1))).toStrictEqual(true);
+    expect(deepEqual(createCyclic(1), createCyclic(2))).toStrictEqual(false);
+  });
+});
@@ -0,0 +1,263 @@
+import { it, describe, expect } from 'vitest';
+import { gray } from 'colorette';
+import { renderHook } from '@testing-library/react';
+import {
+  pipe,
+  merge,
+  combineLatest,
+  zip,
+  concat,
+  race,
+  switchMap,
+  useAsyncIterState,
+} from '../libEntrypoint.js';
+import { asyncIterOf } from '../utils/asyncIterOf.js';
+import { asyncIterToArray } from '../utils/asyncIterToArray.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+describe('Async iterable combinators', () => {
+  it(
+    gray('`merge` yields values from all sources as they come and completes after all'),
+    async () => {
+      const channel1 = new IteratorChannelTestHelper<string>();
+      const channel2 = new IteratorChannelTestHelper<number>();
+      const iterator = merge(channel1, channel2)[Symbol.asyncIterator]();
+
+      const nextA = iterator.next();
+      await tick();
+      channel1.put('a');
+      expect(await nextA).toStrictEqual({ done: false, value: 'a' });
+
+      const next1 = iterator.next();
+      await tick();
+      channel2.put(1);
+      expect(await next1).toStrictEqual({ done: false, value: 1 });
+
+      channel1.complete();
+      await tick();
+      const nextB = iterator.next();
+      channel2.put(2);
+      expect(await nextB).toStrictEqual({ done: false, value: 2 });
+
+      channel2.complete();
+      expect(await iterator.next()).toStrictEqual({ done: true, value: undefined });
+    }
+  );
+
+  it(gray('`merge` closes all sources when its iterator is closed'), async () => {
+    const channel1 = new IteratorChannelTestHelper<string>();
+    const channel2 = new IteratorChannelTestHelper<string>();
+    const iterator = merge(channel1, channel2)[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    await iterator.return!();
+
+    expect(await nextPromise).toStrictEqual({ done: true, value: undefined });
+    expect(channel1.return).toHaveBeenCalledOnce();
+    expect(channel2.return).toHaveBeenCalledOnce();
+  });
+
+  it(gray('`merge` propagates an error from any source and closes the rest'), async () => {
+    const channel1 = new IteratorChannelTestHelper<string>();
+    const channel2 = new IteratorChannelTestHelper<string>();
+    const iterator = merge(channel1, channel2)[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    await tick();
+    channel1.error(simulatedError);
+
+    await expect(nextPromise).rejects.toBe(simulatedError);
+    expect(channel2.return).toHaveBeenCalledOnce();
+  });
+
+  it(
+    gray('`combineLatest` yields the latest values of all sources once all have yielded'),
+    async () => {
+      const channel1 = new IteratorChannelTestHelper<string>();
+      const channel2 = new IteratorChannelTestHelper<number>();
+      const iterator = combineLatest(channel1, channel2)[Symbol.asyncIterator]();
+
+      const nextPromise = iterator.next();
+      await tick();
+      channel1.put('a');
+      await tick();
+      channel1.put('b');
+      await tick();
+      channel2.put(1);
+      expect(await nextPromise).toStrictEqual({ done: false, value: ['b', 1] });
+
+      const nextPromise2 = iterator.next();
+      channel1.put('c');
+      expect(await nextPromise2).toStrictEqual({ done: false, value: ['c', 1] });
+
+      channel1.complete();
+      channel2.complete();
+      expect(await iterator.next()).toStrictEqual({ done: true, value: undefined });
+    }
+  );
+
+  it(
+    gray('`combineLatest` of sources with current values exposes a current values array'),
+    async () => {
+      const { result } = renderHook(() => [useAsyncIterState('a'), useAsyncIterState(1)] as const);
+      const [[iter1, setValue1], [iter2, setValue2]] = result.current;
+
+      const combined = combineLatest(iter1, iter2);
+      expect(combined.value.current).toStrictEqual(['a', 1]);
+      expect(combined.value.current).toBe(combined.value.current);
+
+      const iterator = combined[Symbol.asyncIterator]();
+      const nextPromise = iterator.next();
+      await tick();
+      setValue2(2);
+      expect(await nextPromise).toStrictEqual({ done: false, value: ['a', 2] });
+      expect(combined.value.current).toStrictEqual(['a', 2]);
+
+      const currentBeforeChange = combined.value.current;
+      setValue1('b');
+      expect(combined.value.current).toStrictEqual(['b', 2]);
+      expect(combined.value.current).not.toBe(currentBeforeChange);
+      expect(combined.value.current).toBe(combined.value.current);
+
+      await iterator.return!();
+    }
+  );
+
+  it(gray('`combineLatest` closes all sources when its iterator is closed'), async () => {
+    const channel1 = new IteratorChannelTestHelper<string>();
+    const channel2 = new IteratorChannelTestHelper<string>();
+    const iterator = combineLatest(channel1, channel2)[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    await iterator.return!();
+
+    expect(await nextPromise).toStrictEqual({ done: true, value: undefined });
+    expect(channel1.return).toHaveBeenCalledOnce();
+    expect(channel2.return).toHaveBeenCalledOnce();
+  });
+
+  it(gray('`zip` pairs up values by order and completes with the shortest source'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+    const iterator = zip(asyncIterOf(1, 2, 3), channel)[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    await tick();
+    channel.put('a');
+    expect(await nextPromise).toStrictEqual({ done: false, value: [1, 'a'] });
+
+    const nextPromise2 = iterator.next();
+    await tick();
+    channel.complete();
+    expect(await nextPromise2).toStrictEqual({ done: true, value: undefined });
+    expect(await iterator.next()).toStrictEqual({ done: true, value: undefined });
+  });
+
+  it(gray('`zip` closes all sources when its iterator is closed'), async () => {
+    const channel1 = new IteratorChannelTestHelper<string>();
+    const channel2 = new IteratorChannelTestHelper<string>();
+    const iterator = zip(channel1, channel2)[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    await tick();
+    channel1.put('a');
+    channel2.put('b');
+    await nextPromise;
+    await iterator.return!();
+
+    expect(channel1.return).toHaveBeenCalledOnce();
+    expect(channel2.return).toHaveBeenCalledOnce();
+  });
+
+  it(gray('`concat` yields all values of each source in turn'), async () => {
+    const values = await asyncIterToArray(concat(asyncIterOf('a', 'b'), asyncIterOf(1, 2)));
+    expect(values).toStrictEqual(['a', 'b', 1, 2]);
+  });
+
+  it(gray('`concat` closes only the currently active source when closed'), async () => {
+    const channel1 = new IteratorChannelTestHelper<string>();
+    const channel2 = new IteratorChannelTestHelper<string>();
+    const iterator = concat(channel1, channel2)[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    channel1.put('a');
+    await nextPromise;
+    await iterator.return!();
+
+    expect(channel1.return).toHaveBeenCalledOnce();
+    expect(channel2.return).not.toHaveBeenCalled();
+  });
+
+  it(gray('`race` mirrors the first source to yield and closes the others'), async () => {
+    const channel1 = new IteratorChannelTestHelper<string>();
+    const channel2 = new IteratorChannelTestHelper<string>();
+    const iterator = race(channel1, channel2)[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    await tick();
+    channel2.put('b');
+    expect(await nextPromise).toStrictEqual({ done: false, value: 'b' });
+    expect(channel1.return).toHaveBeenCalledOnce();
+    expect(channel2.return).not.toHaveBeenCalled();
+
+    const nextPromise2 = iterator.next();
+    channel2.put('c');
+    expect(await nextPromise2).toStrictEqual({ done: false, value: 'c' });
+
+    await iterator.return!();
+    expect(channel2.return).toHaveBeenCalledOnce();
+  });
+
+  it(
+    gray('`switchMap` yields from the latest inner iterable, closing the previous one'),
+    async () => {
+      const outer = new IteratorChannelTestHelper<string>();
+      const inners: IteratorChannelTestHelper<string>[] = [];
+      const iterator = pipe(
+        outer,
+        switchMap(value => {
+          const inner = new IteratorChannelTestHelper<string>();
+          inners.push(inner);
+          return pipe(inner, source => concat(asyncIterOf(`${value}:start`), source));
+        })
+      )[Symbol.asyncIterator]();
+
+      const nextPromise = iterator.next();
+      await tick();
+      outer.put('a');
+      expect(await nextPromise).toStrictEqual({ done: false, value: 'a:start' });
+
+      const nextPromise2 = iterator.next();
+      await tick();
+      outer.put('b');
+      expect(await nextPromise2).toStrictEqual({ done: false, value: 'b:start' });
+      expect(inners[0].return).toHaveBeenCalledOnce();
+
+      const nextPromise3 = iterator.next();
+      await tick();
+      inners[1].put('b:1');
+      expect(await nextPromise3).toStrictEqual({ done: false, value: 'b:1' });
+
+      await iterator.return!();
+      expect(outer.return).toHaveBeenCalledOnce();
+      expect(inners[1].return).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(
+    gray('`switchMap` completes only once both the source and the last inner iterable complete'),
+    async () => {
+      const values = await pipe(
+        asyncIterOf(1, 2),
+        switchMap(n => asyncIterOf(n * 10)),
+        asyncIterToArray
+      );
+      expect(values.at(-1)).toStrictEqual(20);
+    }
+  );
+});
+
+async function tick(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve));
+}
+
+const simulatedError = new Error('🚨 Simulated Error 🚨');
@@ -0,0 +1,281 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { renderHook } from '@testing-library/react';
+import {
+  pipe,
+  map,
+  filter,
+  scan,
+  take,
+  takeWhile,
+  skip,
+  distinctUntilChanged,
+  debounce,
+  throttle,
+  bufferTime,
+  startWith,
+  catchError,
+  useAsyncIterState,
+} from '../libEntrypoint.js';
+import { asyncIterOf } from '../utils/asyncIterOf.js';
+import { asyncIterToArray } from '../utils/asyncIterToArray.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Async iterable operators', () => {
+  it(gray('`pipe` passes the initial value through all given functions in order'), () => {
+    const result = pipe(
+      1,
+      n => n + 1,
+      n => n * 10,
+      n => `${n}`
+    );
+    expect(result).toStrictEqual('20');
+  });
+
+  it(gray('`map` transforms every value along with its index'), async () => {
+    const values = await pipe(
+      asyncIterOf('a', 'b', 'c'),
+      map((v, i) => `${v}${i}`),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual(['a0', 'b1', 'c2']);
+  });
+
+  it(gray('`map` over a source with a current value exposes a mapped current value'), () => {
+    const { result } = renderHook(() => useAsyncIterState('a'));
+    const [stateIter, setState] = result.current;
+
+    const mapped = pipe(
+      stateIter,
+      map(v => v.toUpperCase())
+    ) as AsyncIterable<string> & { value: { current: string } };
+
+    expect(mapped.value.current).toStrictEqual('A');
+    setState('b');
+    expect(mapped.value.current).toStrictEqual('B');
+  });
+
+  it(gray('`map` computes its current value only once per current value of the source'), () => {
+    const { result } = renderHook(() => useAsyncIterState('a'));
+    const [stateIter, setState] = result.current;
+    const mapFn = vi.fn((v: string) => ({ upper: v.toUpperCase() }));
+
+    const mapped = pipe(stateIter, map(mapFn)) as AsyncIterable<{ upper: string }> & {
+      value: { current: { upper: string } };
+    };
+
+    const firstRead = mapped.value.current;
+    expect(mapped.value.current).toBe(firstRead);
+    expect(mapFn).toHaveBeenCalledOnce();
+
+    setState('b');
+    expect(mapped.value.current).toStrictEqual({ upper: 'B' });
+    expect(mapped.value.current).toBe(mapped.value.current);
+    expect(mapFn).toHaveBeenCalledTimes(2);
+  });
+
+  it(gray('`filter` yields only values satisfying the predicate'), async () => {
+    const values = await pipe(
+      asyncIterOf(1, 2, 3, 4, 5),
+      filter(n => n % 2 === 1),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual([1, 3, 5]);
+  });
+
+  it(gray('`scan` yields every intermediate accumulated result'), async () => {
+    const values = await pipe(
+      asyncIterOf(1, 2, 3),
+      scan(
+        (acc: number[], n: number) => [...acc, n],
+        () => []
+      ),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual([[1], [1, 2], [1, 2, 3]]);
+  });
+
+  it(
+    gray('`take` yields only the first given number of values and closes the source'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+      const iterator = pipe(channel, take(2))[Symbol.asyncIterator]();
+
+      const nextA = iterator.next();
+      channel.put('a');
+      expect(await nextA).toStrictEqual({ done: false, value: 'a' });
+      expect(channel.return).not.toHaveBeenCalled();
+
+      const nextB = iterator.next();
+      channel.put('b');
+      expect(await nextB).toStrictEqual({ done: false, value: 'b' });
+      expect(channel.return).toHaveBeenCalledOnce();
+
+      expect(await iterator.next()).toStrictEqual({ done: true, value: undefined });
+    }
+  );
+
+  it(
+    gray('`takeWhile` completes and closes the source upon the first non-matching value'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<number>();
+      const iterator = pipe(
+        channel,
+        takeWhile(n => n < 10)
+      )[Symbol.asyncIterator]();
+
+      const next1 = iterator.next();
+      channel.put(1);
+      expect(await next1).toStrictEqual({ done: false, value: 1 });
+
+      const next10 = iterator.next();
+      channel.put(10);
+      expect(await next10).toStrictEqual({ done: true, value: undefined });
+      expect(channel.return).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(gray('`skip` skips the first given number of values'), async () => {
+    const values = await pipe(asyncIterOf('a', 'b', 'c'), skip(2), asyncIterToArray);
+    expect(values).toStrictEqual(['c']);
+  });
+
+  it(gray('`distinctUntilChanged` drops consecutive duplicates'), async () => {
+    const values = await pipe(
+      asyncIterOf(1, 1, 2, 2, 1, 3, 3),
+      distinctUntilChanged(),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual([1, 2, 1, 3]);
+
+    const values2 = await pipe(
+      asyncIterOf({ id: 1 }, { id: 1 }, { id: 2 }),
+      distinctUntilChanged((a, b) => a.id === b.id),
+      asyncIterToArray
+    );
+    expect(values2).toStrictEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it(gray('`startWith` yields the given values before the source values'), async () => {
+    const values = await pipe(asyncIterOf('c'), startWith('a', 'b'), asyncIterToArray);
+    expect(values).toStrictEqual(['a', 'b', 'c']);
+  });
+
+  it(gray('`catchError` continues with the replacement iterable upon an error'), async () => {
+    const simulatedError = new Error('🚨 Simulated Error 🚨');
+    const handler = vi.fn(() => asyncIterOf('x', 'y'));
+
+    const values = await pipe(
+      (async function* () {
+        yield 'a';
+        throw simulatedError;
+      })(),
+      catchError(handler),
+      asyncIterToArray
+    );
+
+    expect(values).toStrictEqual(['a', 'x', 'y']);
+    expect(handler.mock.calls).toStrictEqual([[simulatedError]]);
+  });
+
+  it(gray('`debounce` yields only values followed by the given quiet period'), async () => {
+    vi.useFakeTimers();
+    const channel = new IteratorChannelTestHelper<string>();
+    const collected: string[] = [];
+
+    const collecting = (async () => {
+      for await (const value of pipe(channel, debounce(100))) {
+        collected.push(value);
+      }
+    })();
+
+    await vi.advanceTimersByTimeAsync(0);
+    channel.put('a');
+    await vi.advanceTimersByTimeAsync(50);
+    channel.put('b');
+    await vi.advanceTimersByTimeAsync(50);
+    expect(collected).toStrictEqual([]);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(collected).toStrictEqual(['b']);
+
+    channel.put('c');
+    await vi.advanceTimersByTimeAsync(0);
+    channel.complete();
+    await collecting;
+    expect(collected).toStrictEqual(['b', 'c']);
+  });
+
+  it(
+    gray('`throttle` yields leading values and the latest held back value per window'),
+    async () => {
+      vi.useFakeTimers();
+      const channel = new IteratorChannelTestHelper<string>();
+      const collected: string[] = [];
+
+      const collecting = (async () => {
+        for await (const value of pipe(channel, throttle(100))) {
+          collected.push(value);
+        }
+      })();
+
+      await vi.advanceTimersByTimeAsync(0);
+      channel.put('a');
+      await vi.advanceTimersByTimeAsync(10);
+      expect(collected).toStrictEqual(['a']);
+
+      channel.put('b');
+      await vi.advanceTimersByTimeAsync(10);
+      channel.put('c');
+      await vi.advanceTimersByTimeAsync(10);
+      expect(collected).toStrictEqual(['a']);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(collected).toStrictEqual(['a', 'c']);
+
+      channel.complete();
+      await collecting;
+    }
+  );
+
+  it(gray('`bufferTime` yields the values collected in every interval'), async () => {
+    vi.useFakeTimers();
+    const channel = new IteratorChannelTestHelper<string>();
+    const collected: string[][] = [];
+
+    const collecting = (async () => {
+      for await (const value of pipe(channel, bufferTime(100))) {
+        collected.push(value);
+      }
+    })();
+
+    await vi.advanceTimersByTimeAsync(0);
+    for (const value of ['a', 'b']) {
+      channel.put(value);
+      await vi.advanceTimersByTimeAsync(10);
+    }
+    await vi.advanceTimersByTimeAsync(100);
+    expect(collected).toStrictEqual([['a', 'b']]);
+
+    channel.put('c');
+    await vi.advanceTimersByTimeAsync(0);
+    channel.complete();
+    await collecting;
+    expect(collected).toStrictEqual([['a', 'b'], ['c']]);
+  });
+
+  it(gray('Closing a time-based operator iterator closes its source'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+    const iterator = pipe(channel, debounce(100))[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    await iterator.return!();
+
+    expect(await nextPromise).toStrictEqual({ done: true, value: undefined });
+    expect(channel.return).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,199 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
+import { fromObservable, toObservable, useAsyncIter } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('Observable interop', () => {
+  it(gray('`fromObservable` yields emitted values and unsubscribes when closed'), async () => {
+    const subject = new TestSubject<string>();
+    const iterator = fromObservable(subject)[Symbol.asyncIterator]();
+    expect(subject.observers.size).toStrictEqual(0);
+
+    const nextPromise = iterator.next();
+    expect(subject.observers.size).toStrictEqual(1);
+
+    subject.next('a');
+    subject.next('b');
+    expect(await nextPromise).toStrictEqual({ done: false, value: 'a' });
+    expect(await iterator.next()).toStrictEqual({ done: false, value: 'b' });
+
+    await iterator.return!();
+    expect(subject.observers.size).toStrictEqual(0);
+  });
+
+  it(gray('`fromObservable` ends the iteration upon completion or error'), async () => {
+    const subject1 = new TestSubject<string>();
+    const iterator1 = fromObservable(subject1)[Symbol.asyncIterator]();
+    const nextPromise1 = iterator1.next();
+    subject1.complete();
+    expect(await nextPromise1).toStrictEqual({ done: true, value: undefined });
+
+    const simulatedError = new Error('🚨 Simulated Error 🚨');
+    const subject2 = new TestSubject<string>();
+    const iterator2 = fromObservable(subject2)[Symbol.asyncIterator]();
+    const nextPromise2 = iterator2.next();
+    subject2.error(simulatedError);
+    await expect(nextPromise2).rejects.toBe(simulatedError);
+  });
+
+  it(
+    gray('`fromObservable` of an observable with `getValue()` exposes it as its current value'),
+    () => {
+      const subject = new TestBehaviorSubject('a');
+      const iter = fromObservable(subject);
+
+      expect(iter.value.current).toStrictEqual('a');
+      subject.next('b');
+      expect(iter.value.current).toStrictEqual('b');
+    }
+  );
+
+  it(
+    gray(
+      '`fromObservable` of an observable with `getValue()` does not yield its replayed current value again if already read'
+    ),
+    async () => {
+      const subject = new TestBehaviorSubject('a');
+
+      const iterator1 = fromObservable(subject)[Symbol.asyncIterator]();
+      expect(await iterator1.next()).toStrictEqual({ done: false, value: 'a' });
+
+      const iter2 = fromObservable(subject);
+      expect(iter2.value.current).toStrictEqual('a');
+      const iterator2 = iter2[Symbol.asyncIterator]();
+      const nextPromise = iterator2.next();
+      subject.next('b');
+      expect(await nextPromise).toStrictEqual({ done: false, value: 'b' });
+    }
+  );
+
+  it(
+    gray(
+      '`useAsyncIter` accepts `Symbol.observable` interop objects, rendering their current value immediately'
+    ),
+    async () => {
+      const subject = new TestBehaviorSubject('a');
+      const renderFn = vi.fn();
+
+      const renderedHook = renderHook(() => {
+        const result = useAsyncIter(subject);
+        renderFn();
+        return result;
+      });
+
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'a',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => {});
+      expect(renderFn).toHaveBeenCalledOnce();
+
+      await act(() => subject.next('b'));
+      expect(renderedHook.result.current.value).toStrictEqual('b');
+      expect(renderFn).toHaveBeenCalledTimes(2);
+      expect(subject.observers.size).toStrictEqual(1);
+
+      renderedHook.rerender();
+      expect(subject.observers.size).toStrictEqual(1);
+
+      await act(() => subject.complete());
+      expect(renderFn).toHaveBeenCalledTimes(4);
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'b',
+        pendingFirst: false,
+        done: true,
+        error: undefined,
+      });
+
+      renderedHook.unmount();
+      expect(subject.observers.size).toStrictEqual(0);
+    }
+  );
+
+  it(
+    gray('`toObservable` delivers iterated values and closes the iterator on unsubscribe'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+      const observer = { next: vi.fn(), error: vi.fn(), complete: vi.fn() };
+
+      const subscription = toObservable(channel).subscribe(observer);
+
+      await act(() => channel.put('a'));
+      await act(() => channel.put('b'));
+      expect(observer.next.mock.calls).toStrictEqual([['a'], ['b']]);
+
+      subscription.unsubscribe();
+      expect(channel.return).toHaveBeenCalledOnce();
+      expect(observer.complete).not.toHaveBeenCalled();
+      expect(observer.error).not.toHaveBeenCalled();
+    }
+  );
+
+  it(gray('`toObservable` exposes itself through the `Symbol.observable` interop point'), () => {
+    const observable = toObservable(new IteratorChannelTestHelper<string>());
+    expect((observable as any)[observableKey]()).toBe(observable);
+  });
+});
+
+const observableKey: symbol | string =
+  (Symbol as { observable?: symbol }).observable ?? '@@observable';
+
+class TestSubject<T> {
+  observers = new Set<{ next(v: T): void; error(e: unknown): void; complete(): void }>();
+
+  subscribe(observer: { next(v: T): void; error(e: unknown): void; complete(): void }): {
+    unsubscribe(): void;
+  } {
+    this.observers.add(observer);
+    return { unsubscribe: () => this.observers.delete(observer) };
+  }
+
+  next(value: T): void {
+    for (const observer of [...this.observers]) observer.next(value);
+  }
+
+  error(err: unknown): void {
+    for (const observer of [...this.observers]) observer.error(err);
+    this.observers.clear();
+  }
+
+  complete(): void {
+    for (const observer of [...this.observers]) observer.complete();
+    this.observers.clear();
+  }
+
+  [observableKey](): this {
+    return this;
+  }
+}
+
+class TestBehaviorSubject<T> extends TestSubject<T> {
+  constructor(private currentValue: T) {
+    super();
+  }
+
+  override subscribe(
+    observer: Parameters<TestSubject<T>['subscribe']>[0]
+  ): ReturnType<TestSubject<T>['subscribe']> {
+    const subscription = super.subscribe(observer);
+    observer.next(this.currentValue);
+    return subscription;
+  }
+
+  override next(value: T): void {
+    this.currentValue = value;
+    super.next(value);
+  }
+
+  getValue(): T {
+    return this.currentValue;
+  }
+}
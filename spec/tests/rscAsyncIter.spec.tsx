@@ -0,0 +1,136 @@
+import { it, describe, expect, afterEach } from 'vitest';
+import { gray } from 'colorette';
+import { render, cleanup as cleanupMountedReactTrees, act } from '@testing-library/react';
+import { createFromReadableStream } from 'react-server-dom-webpack/client.edge';
+import { toRscAsyncIter, fromRscAsyncIter, It, type RscAsyncIter } from '../libEntrypoint.js';
+import { asyncIterOf } from '../utils/asyncIterOf.js';
+import { asyncIterToArray } from '../utils/asyncIterToArray.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+import { renderRscInServerProcess } from '../utils/renderRscInServerProcess.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('RSC async iterable bridge', () => {
+  it(gray('A reconstructed async iterable yields all the original values'), async () => {
+    const rscIter = toRscAsyncIter(asyncIterOf('a', 'b', 'c'));
+    const reconstructed = fromRscAsyncIter(rscIter);
+
+    expect(await asyncIterToArray(reconstructed)).toStrictEqual(['a', 'b', 'c']);
+    expect(fromRscAsyncIter(rscIter)).toBe(reconstructed);
+  });
+
+  it(
+    gray('A subsequent iterator picks up from where the previously closed one had left off'),
+    async () => {
+      const reconstructed = fromRscAsyncIter(toRscAsyncIter(asyncIterOf('a', 'b', 'c')));
+
+      const iterator1 = reconstructed[Symbol.asyncIterator]();
+      expect(await iterator1.next()).toStrictEqual({ done: false, value: 'a' });
+      await iterator1.return!();
+
+      expect(await asyncIterToArray(reconstructed)).toStrictEqual(['b', 'c']);
+      expect(await asyncIterToArray(reconstructed)).toStrictEqual([]);
+    }
+  );
+
+  it(
+    gray(
+      'The original async iterable is pulled only as values are read, and gets closed once the stream is canceled'
+    ),
+    async () => {
+      let pullCount = 0;
+      let isClosed = false;
+
+      const rscIter = toRscAsyncIter(
+        (async function* () {
+          try {
+            for (;;) {
+              yield ++pullCount;
+            }
+          } finally {
+            isClosed = true;
+          }
+        })()
+      );
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(pullCount).toStrictEqual(0);
+
+      const reader = rscIter.getReader();
+      expect(await reader.read()).toStrictEqual({ done: false, value: 1 });
+      expect(await reader.read()).toStrictEqual({ done: false, value: 2 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(pullCount).toStrictEqual(2);
+
+      await reader.cancel();
+      expect(isClosed).toStrictEqual(true);
+    }
+  );
+
+  it(gray('An error of the original async iterable is propagated'), async () => {
+    const rscIter = toRscAsyncIter(
+      (async function* () {
+        yield 'a';
+        throw simulatedError;
+      })()
+    );
+
+    const iterator = fromRscAsyncIter(rscIter)[Symbol.asyncIterator]();
+
+    expect(await iterator.next()).toStrictEqual({ done: false, value: 'a' });
+    await expect(iterator.next()).rejects.toBe(simulatedError);
+  });
+
+  it(gray('Values are streamed into a client `<It>` as they are yielded'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+    const rscIter = toRscAsyncIter(channel);
+
+    const rendered = await act(() =>
+      render(
+        <It value={fromRscAsyncIter(rscIter)}>
+          {next => <p>{`${next.value} (done: ${next.done})`}</p>}
+        </It>
+      )
+    ); // Letting the mounted `<It>` get its first pull through to the source, as it's only pulled lazily
+    expect(rendered.container.innerHTML).toStrictEqual('<p>undefined (done: false)</p>');
+
+    await act(() => channel.put('a'));
+    expect(rendered.container.innerHTML).toStrictEqual('<p>a (done: false)</p>');
+
+    rendered.rerender(
+      <It value={fromRscAsyncIter(rscIter)}>
+        {next => <p>{`${next.value} (done: ${next.done})`}</p>}
+      </It>
+    );
+    expect(rendered.container.innerHTML).toStrictEqual('<p>a (done: false)</p>');
+
+    await act(() => channel.put('b'));
+    expect(rendered.container.innerHTML).toStrictEqual('<p>b (done: false)</p>');
+
+    await act(() => channel.complete());
+    expect(rendered.container.innerHTML).toStrictEqual('<p>b (done: true)</p>');
+  });
+
+  it(
+    gray('Values are streamed through actual RSC serialization from the server to the client'),
+    async () => {
+      const model = await createFromReadableStream<{ values: RscAsyncIter<string> }>(
+        renderRscInServerProcess('streamedValues'),
+        { serverConsumerManifest: { moduleMap: {}, serverModuleMap: null, moduleLoading: null } }
+      );
+
+      expect(await asyncIterToArray(fromRscAsyncIter(model.values))).toStrictEqual(['a', 'b', 'c']);
+    }
+  );
+
+  it(gray('When the RSC request is aborted, the original async iterable gets closed'), async () => {
+    const reportText = await new Response(renderRscInServerProcess('abortedRequest')).text();
+    const report = JSON.parse(reportText) as { pullCountWhenClosed?: number; pullCount: number };
+
+    expect(report.pullCount).toBeGreaterThan(0);
+    expect(report.pullCountWhenClosed).toStrictEqual(report.pullCount);
+  });
+});
+
+const simulatedError = new Error('🚨 Simulated Error 🚨');
@@ -0,0 +1,181 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
+import {
+  fromExternalStore,
+  fromStore,
+  fromSignal,
+  shallowEqual,
+  useAsyncIter,
+} from '../libEntrypoint.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+  vi.unstubAllGlobals();
+});
+
+describe('Store adapters', () => {
+  it(
+    gray(
+      '`fromExternalStore` reads the snapshot live and yields its latest changes, unsubscribing when closed'
+    ),
+    async () => {
+      const store = createTestStore(0);
+      const iter = fromExternalStore(store.subscribe, store.getState);
+
+      expect(iter.value.current).toStrictEqual(0);
+      store.setState(1);
+      expect(iter.value.current).toStrictEqual(1);
+
+      const iterator = iter[Symbol.asyncIterator]();
+      expect(store.listeners.size).toStrictEqual(0);
+
+      const nextPromise = iterator.next();
+      expect(store.listeners.size).toStrictEqual(1);
+
+      store.setState(2);
+      expect(await nextPromise).toStrictEqual({ done: false, value: 2 });
+
+      store.setState(3);
+      store.setState(3);
+      store.setState(4);
+      expect(await iterator.next()).toStrictEqual({ done: false, value: 4 });
+
+      const pendingNextPromise = iterator.next();
+      await iterator.return!();
+      expect(await pendingNextPromise).toStrictEqual({ done: true, value: undefined });
+      expect(store.listeners.size).toStrictEqual(0);
+    }
+  );
+
+  it(
+    gray(
+      '`fromExternalStore` delivers a change made after reading the current snapshot but before iterating'
+    ),
+    async () => {
+      const store = createTestStore('a');
+      const iter = fromExternalStore(store.subscribe, store.getState);
+
+      expect(iter.value.current).toStrictEqual('a');
+      store.setState('b');
+
+      const iterator = iter[Symbol.asyncIterator]();
+      expect(await iterator.next()).toStrictEqual({ done: false, value: 'b' });
+      await iterator.return!();
+    }
+  );
+
+  it(
+    gray('`fromStore` yields only changes of the selected state, by the given equality'),
+    async () => {
+      const store = createTestStore({ user: { name: 'a', age: 1 }, theme: 'dark' });
+      const userIter = fromStore(store, state => ({ ...state.user }), { isEqual: shallowEqual });
+
+      const renderedHook = renderHook(() => useAsyncIter(userIter));
+      expect(renderedHook.result.current).toStrictEqual({
+        value: { name: 'a', age: 1 },
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      const lastRenderedValue = renderedHook.result.current.value;
+      await act(() => store.setState({ ...store.getState(), theme: 'light' }));
+      expect(renderedHook.result.current.value).toBe(lastRenderedValue);
+
+      await act(() => store.setState({ ...store.getState(), user: { name: 'b', age: 1 } }));
+      expect(renderedHook.result.current.value).toStrictEqual({ name: 'b', age: 1 });
+
+      renderedHook.unmount();
+      expect(store.listeners.size).toStrictEqual(0);
+    }
+  );
+
+  it(gray('`fromSignal` adapts subscribable signals'), async () => {
+    const store = createTestStore(1);
+    const peek = vi.fn(() => store.getState());
+    const signal = {
+      get value() {
+        return store.getState();
+      },
+      peek,
+      subscribe: (fn: (value: number) => void) => store.subscribe(() => fn(store.getState())),
+    };
+
+    const iter = fromSignal(signal);
+    expect(iter.value.current).toStrictEqual(1);
+    expect(peek).toHaveBeenCalled();
+
+    const iterator = iter[Symbol.asyncIterator]();
+    const nextPromise = iterator.next();
+    store.setState(2);
+    expect(await nextPromise).toStrictEqual({ done: false, value: 2 });
+
+    await iterator.return!();
+    expect(store.listeners.size).toStrictEqual(0);
+  });
+
+  it(gray('`fromSignal` adapts TC39-style signals through `Signal.subtle.Watcher`'), async () => {
+    const watchers = new Set<TestWatcher>();
+
+    class TestWatcher {
+      armed = false;
+      constructor(public notify: () => void) {}
+      watch(..._signals: unknown[]): void {
+        this.armed = true;
+        watchers.add(this);
+      }
+      unwatch(): void {
+        watchers.delete(this);
+      }
+    }
+
+    vi.stubGlobal('Signal', { subtle: { Watcher: TestWatcher } });
+
+    let state = 'a';
+    const signal = {
+      get: () => state,
+      set: (newState: string) => {
+        state = newState;
+        for (const watcher of watchers) {
+          if (watcher.armed) {
+            watcher.armed = false;
+            watcher.notify();
+          }
+        }
+      },
+    };
+
+    const iter = fromSignal(signal);
+    expect(iter.value.current).toStrictEqual('a');
+
+    const iterator = iter[Symbol.asyncIterator]();
+    const nextPromise = iterator.next();
+    signal.set('b');
+    expect(await nextPromise).toStrictEqual({ done: false, value: 'b' });
+
+    const nextPromise2 = iterator.next();
+    signal.set('c');
+    expect(await nextPromise2).toStrictEqual({ done: false, value: 'c' });
+
+    await iterator.return!();
+    expect(watchers.size).toStrictEqual(0);
+  });
+});
+
+function createTestStore<T>(initialState: T) {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+  return {
+    listeners,
+    getState: () => state,
+    setState: (newState: T) => {
+      state = newState;
+      for (const listener of [...listeners]) listener();
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,236 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import {
+  pipe,
+  fromWebSocket,
+  fromEventSource,
+  fromReadableStream,
+  decodeText,
+  decodeLines,
+  decodeNdjson,
+  decodeSse,
+} from '../libEntrypoint.js';
+import { asyncIterOf } from '../utils/asyncIterOf.js';
+import { asyncIterToArray } from '../utils/asyncIterToArray.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Stream adapters', () => {
+  it(
+    gray('`fromWebSocket` yields message data and closes the connection when closed'),
+    async () => {
+      const sockets: MockWebSocket[] = [];
+      vi.stubGlobal(
+        'WebSocket',
+        class extends MockWebSocket {
+          constructor(...args: ConstructorParameters<typeof MockWebSocket>) {
+            super(...args);
+            sockets.push(this);
+          }
+        }
+      );
+
+      const iterator = fromWebSocket<string>('ws://localhost:1234', {
+        protocols: 'v1',
+      })[Symbol.asyncIterator]();
+      expect(sockets).lengthOf(0);
+
+      const nextPromise = iterator.next();
+      expect(sockets).lengthOf(1);
+      expect(sockets[0].args).toStrictEqual(['ws://localhost:1234', 'v1']);
+
+      sockets[0].readyState = MockWebSocket.OPEN;
+      sockets[0].dispatchEvent(new MessageEvent('message', { data: 'a' }));
+      sockets[0].dispatchEvent(new MessageEvent('message', { data: 'b' }));
+
+      expect(await nextPromise).toStrictEqual({ done: false, value: 'a' });
+      expect(await iterator.next()).toStrictEqual({ done: false, value: 'b' });
+
+      await iterator.return!();
+      expect(sockets[0].close).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(gray('`fromWebSocket` completes on a clean close and errors on an abnormal one'), async () => {
+    const cleanlyClosedSocket = new MockWebSocket('ws://localhost:1234');
+    const iterator1 = fromWebSocket(cleanlyClosedSocket as unknown as WebSocket)[
+      Symbol.asyncIterator
+    ]();
+    const nextPromise1 = iterator1.next();
+    cleanlyClosedSocket.simulateClose(1000, true);
+    expect(await nextPromise1).toStrictEqual({ done: true, value: undefined });
+
+    const abnormallyClosedSocket = new MockWebSocket('ws://localhost:1234');
+    const iterator2 = fromWebSocket(abnormallyClosedSocket as unknown as WebSocket)[
+      Symbol.asyncIterator
+    ]();
+    const nextPromise2 = iterator2.next();
+    abnormallyClosedSocket.simulateClose(1006, false);
+    await expect(nextPromise2).rejects.toThrow('1006');
+
+    expect(cleanlyClosedSocket.close).not.toHaveBeenCalled();
+    expect(abnormallyClosedSocket.close).not.toHaveBeenCalled();
+  });
+
+  it(
+    gray(
+      '`fromEventSource` yields events of the given types, ignoring reconnects, and closes the source when closed'
+    ),
+    async () => {
+      const source = Object.assign(new EventTarget(), {
+        CLOSED: 2,
+        readyState: 1,
+        close: vi.fn(),
+      });
+
+      const iterator = fromEventSource(source as unknown as EventSource, {
+        eventTypes: ['message', 'update'],
+      })[Symbol.asyncIterator]();
+      const nextPromise = iterator.next();
+
+      source.dispatchEvent(new MessageEvent('message', { data: 'a' }));
+      source.dispatchEvent(new MessageEvent('ignored', { data: 'x' }));
+      source.readyState = 0;
+      source.dispatchEvent(new Event('error'));
+      source.dispatchEvent(new MessageEvent('update', { data: 'b' }));
+
+      expect((await nextPromise).value?.data).toStrictEqual('a');
+      const next = await iterator.next();
+      expect([next.value?.type, next.value?.data]).toStrictEqual(['update', 'b']);
+
+      const nextPromise2 = iterator.next();
+      source.readyState = source.CLOSED;
+      source.dispatchEvent(new Event('error'));
+      await expect(nextPromise2).rejects.toThrow();
+      expect(source.close).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(gray('`fromReadableStream` yields all chunks and then releases the stream'), async () => {
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue('a');
+        controller.enqueue('b');
+        controller.close();
+      },
+    });
+
+    expect(await asyncIterToArray(fromReadableStream(stream))).toStrictEqual(['a', 'b']);
+    expect(stream.locked).toStrictEqual(false);
+  });
+
+  it(gray('`fromReadableStream` cancels the stream when closed'), async () => {
+    const cancel = vi.fn();
+    const stream = new ReadableStream<string>({
+      pull: controller => controller.enqueue('a'),
+      cancel,
+    });
+
+    const iterator = fromReadableStream(stream)[Symbol.asyncIterator]();
+    expect(await iterator.next()).toStrictEqual({ done: false, value: 'a' });
+
+    await iterator.return!();
+    expect(cancel).toHaveBeenCalledOnce();
+    expect(stream.locked).toStrictEqual(false);
+  });
+
+  it(gray('`decodeText` decodes characters split across byte chunks'), async () => {
+    const bytes = new TextEncoder().encode('héllo ✓');
+    const values = await pipe(
+      asyncIterOf(bytes.slice(0, 2), bytes.slice(2, 7), bytes.slice(7)),
+      decodeText(),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual(['h', 'éllo ', '✓']);
+  });
+
+  it(gray('`decodeLines` re-chunks text into lines regardless of chunk boundaries'), async () => {
+    const values = await pipe(
+      asyncIterOf('one\ntw', 'o\r', '\nthree\rfour\n\nfi', 've'),
+      decodeLines(),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual(['one', 'two', 'three', 'four', '', 'five']);
+  });
+
+  it(gray('`decodeNdjson` parses every non-blank line'), async () => {
+    const values = await pipe(
+      asyncIterOf('{"a":1}\n\n{"b"', ':[2]}\n3'),
+      decodeNdjson(),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual([{ a: 1 }, { b: [2] }, 3]);
+  });
+
+  it(gray('`decodeSse` parses events according to the server-sent events format'), async () => {
+    const values = await pipe(
+      asyncIterOf(
+        ': comment\ndata: first\n\nevent: upd',
+        'ate\nid: 7\nretry: 3000\ndata: line 1\ndata:line 2\n\n',
+        'data: third\n\ndata: incomplete'
+      ),
+      decodeSse(),
+      asyncIterToArray
+    );
+    expect(values).toStrictEqual([
+      { event: 'message', data: 'first', id: '', retry: undefined },
+      { event: 'update', data: 'line 1\nline 2', id: '7', retry: 3000 },
+      { event: 'message', data: 'third', id: '7', retry: undefined },
+    ]);
+  });
+
+  it(gray('Closing a decoder iterator closes its source'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+    const iterator = pipe(channel, decodeLines())[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    channel.put('a\nb');
+    expect(await nextPromise).toStrictEqual({ done: false, value: 'a' });
+
+    await iterator.return!();
+    expect(channel.return).toHaveBeenCalledOnce();
+  });
+
+  it(gray('A decoder failing on a malformed chunk closes its source and errors'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+    const iterator = pipe(channel, decodeNdjson())[Symbol.asyncIterator]();
+
+    const nextPromise = iterator.next();
+    channel.put('{"a":1}\n{"b":');
+    expect(await nextPromise).toStrictEqual({ done: false, value: { a: 1 } });
+
+    const nextPromise2 = iterator.next();
+    channel.put('}\n');
+    await expect(nextPromise2).rejects.toThrow(SyntaxError);
+    expect(channel.return).toHaveBeenCalledOnce();
+    expect(await iterator.next()).toStrictEqual({ done: true, value: undefined });
+  });
+});
+
+class MockWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 3;
+  readyState = 0;
+  binaryType = 'blob';
+  args: unknown[];
+  close = vi.fn(() => {
+    this.readyState = this.CLOSED;
+  });
+
+  constructor(...args: unknown[]) {
+    super();
+    this.args = args;
+  }
+
+  simulateClose(code: number, wasClean: boolean): void {
+    this.readyState = this.CLOSED;
+    this.dispatchEvent(Object.assign(new Event('close'), { code, wasClean }));
+  }
+}
@@ -1,7 +1,7 @@
 import { it, describe, expect, afterEach, vi } from 'vitest';
 import { gray } from 'colorette';
 import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
-import { useAsyncIter, iterateFormatted } from '../libEntrypoint.js';
+import { useAsyncIter, iterateFormatted, shallowEqual } from '../libEntrypoint.js';
 import { asyncIterOf } from '../utils/asyncIterOf.js';
 import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
 
@@ -686,6 +686,377 @@ describe('`useAsyncIter` hook', () => {
       });
     }
   );
+  it(
+    gray(
+      'When given a `retry` policy and the iterable errors, re-iterates it after the policy delays while reporting the retry state'
+    ),
+    async () => {
+      const channels: IteratorChannelTestHelper<string>[] = [];
+      const iter = {
+        [Symbol.asyncIterator]: () => {
+          const channel = new IteratorChannelTestHelper<string>();
+          channels.push(channel);
+          return channel;
+        },
+      };
+
+      const renderedHook = renderHook(() =>
+        useAsyncIter(iter, undefined, { retry: { delayMs: 10, maxAttempts: 2 } })
+      );
+
+      expect(renderedHook.result.current).toStrictEqual({
+        value: undefined,
+        pendingFirst: true,
+        done: false,
+        error: undefined,
+        retryCount: 0,
+        isRetrying: false,
+      });
+
+      await act(() => channels[0].put('a'));
+      await act(() => channels[0].error(simulatedError));
+
+      expect(channels).lengthOf(1);
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'a',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+        retryCount: 1,
+        isRetrying: true,
+      });
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 15)));
+      expect(channels).lengthOf(2);
+
+      await act(() => channels[1].error(simulatedError));
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'a',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+        retryCount: 2,
+        isRetrying: true,
+      });
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 25)));
+      expect(channels).lengthOf(3);
+
+      await act(() => channels[2].put('b'));
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'b',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+        retryCount: 0,
+        isRetrying: false,
+      });
+
+      renderedHook.unmount();
+      expect(channels[2].return).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(
+    gray(
+      'When given a `retry` policy, ends with the error once attempts run out or `shouldRetry` declines'
+    ),
+    async () => {
+      const iter = {
+        [Symbol.asyncIterator]: vi.fn(() =>
+          (async function* () {
+            throw simulatedError;
+          })()
+        ),
+      };
+      const shouldRetry = vi.fn((_err: unknown, attemptNum: number) => attemptNum < 2);
+
+      const renderedHook = renderHook(() =>
+        useAsyncIter(iter, undefined, { retry: { delayMs: 0, shouldRetry } })
+      );
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 10)));
+
+      expect(shouldRetry.mock.calls).toStrictEqual([
+        [simulatedError, 1],
+        [simulatedError, 2],
+      ]);
+      expect(iter[Symbol.asyncIterator]).toHaveBeenCalledTimes(2);
+      expect(renderedHook.result.current).toStrictEqual({
+        value: undefined,
+        pendingFirst: false,
+        done: true,
+        error: simulatedError,
+        retryCount: 1,
+        isRetrying: false,
+      });
+    }
+  );
+  it(
+    gray(
+      'When given a `throttleMs` scheduling, re-renders at most once per interval with the latest value'
+    ),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+      let timesRerendered = 0;
+
+      const renderedHook = renderHook(() => {
+        timesRerendered++;
+        return useAsyncIter(channel, undefined, { scheduling: { throttleMs: 50 } });
+      });
+
+      await act(() => channel.put('a'));
+      expect(timesRerendered).toStrictEqual(2);
+      expect(renderedHook.result.current.value).toStrictEqual('a');
+
+      await act(() => channel.put('b'));
+      expect(timesRerendered).toStrictEqual(3);
+      expect(renderedHook.result.current.value).toStrictEqual('b');
+
+      await act(() => channel.put('c'));
+      await act(() => channel.put('d'));
+      expect(timesRerendered).toStrictEqual(3);
+      expect(renderedHook.result.current.value).toStrictEqual('b');
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 60)));
+      expect(timesRerendered).toStrictEqual(4);
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'd',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+    }
+  );
+
+  it(
+    gray(
+      'When given an `animationFrame` scheduling, re-renders at most once per frame with the latest value'
+    ),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+      let timesRerendered = 0;
+
+      const renderedHook = renderHook(() => {
+        timesRerendered++;
+        return useAsyncIter(channel, undefined, { scheduling: 'animationFrame' });
+      });
+
+      await act(() => channel.put('a'));
+      expect(timesRerendered).toStrictEqual(2);
+      expect(renderedHook.result.current.value).toStrictEqual('a');
+
+      await act(() => channel.put('b'));
+      await act(() => channel.put('c'));
+      expect(timesRerendered).toStrictEqual(2);
+      expect(renderedHook.result.current.value).toStrictEqual('a');
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+      expect(timesRerendered).toStrictEqual(3);
+      expect(renderedHook.result.current.value).toStrictEqual('c');
+    }
+  );
+
+  it(
+    gray(
+      'When given a non-`sync` scheduling, completion is rendered right away along with any held back value'
+    ),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+
+      const renderedHook = renderHook(() =>
+        useAsyncIter(channel, undefined, { scheduling: { throttleMs: 1000 } })
+      );
+
+      await act(() => channel.put('a'));
+      await act(() => channel.put('b'));
+      await act(() => channel.put('c'));
+      expect(renderedHook.result.current.value).toStrictEqual('b');
+
+      await act(() => channel.complete());
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'c',
+        pendingFirst: false,
+        done: true,
+        error: undefined,
+      });
+    }
+  );
+  it(
+    gray(
+      "When given a `'manual'` mode, pulls values past the first only upon `advance` calls, passing their inputs into the iterator"
+    ),
+    async () => {
+      const pulledInputs: unknown[] = [];
+      const wizardIter = (async function* () {
+        const name: string = yield 'Name?';
+        pulledInputs.push(name);
+        const age: number = yield `Hi ${name}, age?`;
+        pulledInputs.push(age);
+        yield `${name} is ${age}`;
+      })();
+
+      const renderedHook = renderHook(() =>
+        useAsyncIter(wizardIter, undefined, { mode: 'manual' })
+      );
+
+      await act(() => {});
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'Name?',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+        advance: expect.any(Function),
+      });
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 10)));
+      expect(pulledInputs).toStrictEqual([]);
+      expect(renderedHook.result.current.value).toStrictEqual('Name?');
+
+      await act(() => renderedHook.result.current.advance('Bob'));
+      expect(pulledInputs).toStrictEqual(['Bob']);
+      expect(renderedHook.result.current.value).toStrictEqual('Hi Bob, age?');
+
+      await act(() => renderedHook.result.current.advance(30));
+      expect(renderedHook.result.current.value).toStrictEqual('Bob is 30');
+
+      await act(() => renderedHook.result.current.advance());
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 'Bob is 30',
+        pendingFirst: false,
+        done: true,
+        error: undefined,
+        advance: expect.any(Function),
+      });
+    }
+  );
+
+  it(
+    gray(
+      "When given a `'manual'` mode, `advance` calls made while a value is still pending are ignored"
+    ),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+      const nextSpy = vi.spyOn(channel, 'next');
+
+      const renderedHook = renderHook(() => useAsyncIter(channel, undefined, { mode: 'manual' }));
+
+      await act(() => renderedHook.result.current.advance());
+      expect(nextSpy).toHaveBeenCalledOnce();
+
+      await act(() => channel.put('a'));
+      expect(renderedHook.result.current.value).toStrictEqual('a');
+
+      await act(() => {
+        renderedHook.result.current.advance();
+        renderedHook.result.current.advance();
+      });
+      expect(nextSpy).toHaveBeenCalledTimes(2);
+
+      await act(() => channel.put('a'));
+      expect(renderedHook.result.current.value).toStrictEqual('a');
+      expect(nextSpy).toHaveBeenCalledTimes(2);
+    }
+  );
+  it(
+    gray('When given an `isEqual` function, skips yields it considers equal to the previous one'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<{ id: number }>();
+      let timesRerendered = 0;
+
+      const renderedHook = renderHook(() => {
+        timesRerendered++;
+        return useAsyncIter(channel, undefined, { isEqual: shallowEqual });
+      });
+
+      await act(() => channel.put({ id: 1 }));
+      const firstValue = renderedHook.result.current.value;
+      expect(timesRerendered).toStrictEqual(2);
+
+      await act(() => channel.put({ id: 1 }));
+      expect(timesRerendered).toStrictEqual(2);
+      expect(renderedHook.result.current.value).toBe(firstValue);
+
+      await act(() => channel.put({ id: 2 }));
+      expect(timesRerendered).toStrictEqual(3);
+      expect(renderedHook.result.current.value).toStrictEqual({ id: 2 });
+    }
+  );
+
+  it(gray('When given `isEqual: false`, re-renders on every yield even if identical'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+    let timesRerendered = 0;
+
+    renderHook(() => {
+      timesRerendered++;
+      return useAsyncIter(channel, undefined, { isEqual: false });
+    });
+
+    for (let i = 0; i < 3; ++i) {
+      await act(() => channel.put('a'));
+    }
+    expect(timesRerendered).toStrictEqual(4);
+  });
+  it(
+    gray('When given the `metadata` option, results carry the iteration index and timestamps'),
+    async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      try {
+        const channel = new IteratorChannelTestHelper<string>();
+
+        vi.setSystemTime(1000);
+        const renderedHook = renderHook(() => useAsyncIter(channel, undefined, { metadata: true }));
+
+        expect(renderedHook.result.current).toStrictEqual({
+          value: undefined,
+          pendingFirst: true,
+          done: false,
+          error: undefined,
+          iterationIndex: -1,
+          startedAt: 1000,
+          lastYieldAt: undefined,
+          endedAt: undefined,
+        });
+
+        vi.setSystemTime(2000);
+        await act(() => channel.put('a'));
+        vi.setSystemTime(3000);
+        await act(() => channel.put('b'));
+
+        expect(renderedHook.result.current).toStrictEqual({
+          value: 'b',
+          pendingFirst: false,
+          done: false,
+          error: undefined,
+          iterationIndex: 1,
+          startedAt: 1000,
+          lastYieldAt: 3000,
+          endedAt: undefined,
+        });
+
+        const { iterationIndex, startedAt }: { iterationIndex: number; startedAt: number } =
+          renderedHook.result.current; // Present (not optional) given `metadata: true`
+        expect([iterationIndex, startedAt]).toStrictEqual([1, 1000]);
+
+        vi.setSystemTime(4000);
+        await act(() => channel.complete());
+
+        expect(renderedHook.result.current).toStrictEqual({
+          value: 'b',
+          pendingFirst: false,
+          done: true,
+          error: undefined,
+          iterationIndex: 1,
+          startedAt: 1000,
+          lastYieldAt: 3000,
+          endedAt: 4000,
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    }
+  );
 });
 
 const simulatedError = new Error('🚨 Simulated Error 🚨');
@@ -0,0 +1,128 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
+import { useAsyncIterAccumulate, useAsyncIterState, iterateFormatted } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`useAsyncIterAccumulate` hook', () => {
+  it(gray('Accumulates every yielded value into a list, in order'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+
+    const renderedHook = renderHook(() => useAsyncIterAccumulate(channel));
+
+    expect(renderedHook.result.current).toStrictEqual({
+      value: [],
+      pendingFirst: true,
+      done: false,
+      error: undefined,
+    });
+
+    for (const value of ['a', 'b', 'c']) {
+      await act(() => channel.put(value));
+    }
+    expect(renderedHook.result.current).toStrictEqual({
+      value: ['a', 'b', 'c'],
+      pendingFirst: false,
+      done: false,
+      error: undefined,
+    });
+
+    await act(() => channel.complete());
+    expect(renderedHook.result.current).toStrictEqual({
+      value: ['a', 'b', 'c'],
+      pendingFirst: false,
+      done: true,
+      error: undefined,
+    });
+  });
+
+  it(gray('When given a `maxLength`, keeps only the latest items within it'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+
+    const renderedHook = renderHook(() =>
+      useAsyncIterAccumulate(channel, { maxLength: 2, initialItems: ['_'] })
+    );
+
+    expect(renderedHook.result.current.value).toStrictEqual(['_']);
+
+    await act(() => channel.put('a'));
+    expect(renderedHook.result.current.value).toStrictEqual(['_', 'a']);
+
+    await act(() => channel.put('b'));
+    await act(() => channel.put('c'));
+    expect(renderedHook.result.current.value).toStrictEqual(['b', 'c']);
+  });
+
+  it(gray('When given a `reducer`, accumulates items through it'), async () => {
+    const channel = new IteratorChannelTestHelper<{ id: number; text: string }>();
+
+    const renderedHook = renderHook(() =>
+      useAsyncIterAccumulate(channel, {
+        reducer: (items: string[], msg, i) => [`${i}:${msg.text}`, ...items],
+      })
+    );
+
+    await act(() => channel.put({ id: 1, text: 'a' }));
+    await act(() => channel.put({ id: 2, text: 'b' }));
+    expect(renderedHook.result.current.value).toStrictEqual(['1:b', '0:a']);
+  });
+
+  it(
+    gray(
+      'When given an iterable with a current value, begins with it accumulated, formatted if the iterable is formatted'
+    ),
+    async () => {
+      const { result: stateResult } = renderHook(() => useAsyncIterState('a'));
+      const [stateIter, setState] = stateResult.current;
+
+      const renderedHook = renderHook(() =>
+        useAsyncIterAccumulate(iterateFormatted(stateIter, v => v.toUpperCase()))
+      );
+
+      expect(renderedHook.result.current).toStrictEqual({
+        value: ['A'],
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => setState('b'));
+      expect(renderedHook.result.current.value).toStrictEqual(['A', 'B']);
+    }
+  );
+
+  it(
+    gray(
+      "Accumulates the iterable's current value only once per distinct current value, however many times it's read"
+    ),
+    () => {
+      const { result: stateResult } = renderHook(() => useAsyncIterState('a'));
+      const [stateIter] = stateResult.current;
+      const reducer = vi.fn((items: string[], value: string) => [...items, value]);
+
+      const renderedHook = renderHook(() => useAsyncIterAccumulate(stateIter, { reducer }));
+      const firstItems = renderedHook.result.current.value;
+
+      for (let i = 0; i < 3; ++i) {
+        renderedHook.rerender();
+      }
+      expect(renderedHook.result.current.value).toBe(firstItems);
+      expect(reducer).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(gray('When given a plain value, returns it accumulated as a single item'), () => {
+    const renderedHook = renderHook(() => useAsyncIterAccumulate('a', { initialItems: ['_'] }));
+
+    expect(renderedHook.result.current).toStrictEqual({
+      value: ['_', 'a'],
+      pendingFirst: false,
+      done: false,
+      error: undefined,
+    });
+  });
+});
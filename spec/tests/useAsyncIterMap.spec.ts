@@ -0,0 +1,140 @@
+import { it, describe, expect, afterEach } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
+import { useAsyncIterMap } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`useAsyncIterMap` hook', () => {
+  it(gray('When given an object, returns an object of results under the same keys'), async () => {
+    const channelA = new IteratorChannelTestHelper<string>();
+    const channelB = new IteratorChannelTestHelper<string>();
+
+    const renderedHook = renderHook(() =>
+      useAsyncIterMap({ a: channelA, b: channelB, c: 'plain' }, { defaultInitialValue: '_' })
+    );
+
+    expect(renderedHook.result.current).toStrictEqual({
+      a: { value: '_', pendingFirst: true, done: false, error: undefined },
+      b: { value: '_', pendingFirst: true, done: false, error: undefined },
+      c: { value: 'plain', pendingFirst: false, done: false, error: undefined },
+    });
+
+    await act(() => channelA.put('a1'));
+    await act(() => channelB.complete());
+
+    expect(renderedHook.result.current).toStrictEqual({
+      a: { value: 'a1', pendingFirst: false, done: false, error: undefined },
+      b: { value: '_', pendingFirst: false, done: true, error: undefined },
+      c: { value: 'plain', pendingFirst: false, done: false, error: undefined },
+    });
+  });
+
+  it(
+    gray(
+      'When given a `Map`, returns a `Map` of results in the same order, preserving every key state across reorderings'
+    ),
+    async () => {
+      const channelA = new IteratorChannelTestHelper<string>();
+      const channelB = new IteratorChannelTestHelper<string>();
+
+      const renderedHook = renderHook(({ inputs }) => useAsyncIterMap(inputs), {
+        initialProps: {
+          inputs: new Map([
+            ['a', channelA],
+            ['b', channelB],
+          ]),
+        },
+      });
+
+      await act(() => channelA.put('a1'));
+      await act(() => channelB.put('b1'));
+
+      renderedHook.rerender({
+        inputs: new Map([
+          ['b', channelB],
+          ['a', channelA],
+        ]),
+      });
+
+      expect([...renderedHook.result.current]).toStrictEqual([
+        ['b', { value: 'b1', pendingFirst: false, done: false, error: undefined }],
+        ['a', { value: 'a1', pendingFirst: false, done: false, error: undefined }],
+      ]);
+      expect(channelA.return).not.toHaveBeenCalled();
+      expect(channelB.return).not.toHaveBeenCalled();
+    }
+  );
+
+  it(
+    gray('When keys are added or removed, starts or closes only their corresponding iterations'),
+    async () => {
+      const channelA = new IteratorChannelTestHelper<string>();
+      const channelB = new IteratorChannelTestHelper<string>();
+      const channelC = new IteratorChannelTestHelper<string>();
+
+      const renderedHook = renderHook(({ inputs }) => useAsyncIterMap(inputs), {
+        initialProps: {
+          inputs: { a: channelA, b: channelB } as Record<string, AsyncIterable<string>>,
+        },
+      });
+
+      await act(() => channelA.put('a1'));
+
+      renderedHook.rerender({ inputs: { a: channelA, c: channelC } });
+
+      expect(channelA.return).not.toHaveBeenCalled();
+      expect(channelB.return).toHaveBeenCalledOnce();
+      expect(renderedHook.result.current).toStrictEqual({
+        a: { value: 'a1', pendingFirst: false, done: false, error: undefined },
+        c: { value: undefined, pendingFirst: true, done: false, error: undefined },
+      });
+
+      await act(() => channelC.put('c1'));
+      expect(renderedHook.result.current.c.value).toStrictEqual('c1');
+
+      renderedHook.unmount();
+      expect(channelA.return).toHaveBeenCalledOnce();
+      expect(channelC.return).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(
+    gray(
+      "When a key's iterable is replaced, restarts only that key's iteration while carrying over its last value"
+    ),
+    async () => {
+      const channelA1 = new IteratorChannelTestHelper<string>();
+      const channelA2 = new IteratorChannelTestHelper<string>();
+      const channelB = new IteratorChannelTestHelper<string>();
+
+      const renderedHook = renderHook(({ inputs }) => useAsyncIterMap(inputs), {
+        initialProps: { inputs: { a: channelA1, b: channelB } },
+      });
+
+      await act(() => channelA1.put('a1'));
+
+      renderedHook.rerender({ inputs: { a: channelA2, b: channelB } });
+
+      expect(channelA1.return).toHaveBeenCalledOnce();
+      expect(channelB.return).not.toHaveBeenCalled();
+      expect(renderedHook.result.current.a).toStrictEqual({
+        value: 'a1',
+        pendingFirst: true,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => channelA2.put('a2'));
+      expect(renderedHook.result.current.a).toStrictEqual({
+        value: 'a2',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+    }
+  );
+});
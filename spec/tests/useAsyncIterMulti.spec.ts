@@ -1,8 +1,7 @@
 import { it, describe, expect, afterEach, vi } from 'vitest';
 import { gray } from 'colorette';
 import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
-import { iterateFormatted, useAsyncIterMulti } from '../libEntrypoint.js';
-import { pipe } from '../utils/pipe.js';
+import { iterateFormatted, useAsyncIterMulti, deepEqual, pipe } from '../libEntrypoint.js';
 import { asyncIterOf } from '../utils/asyncIterOf.js';
 import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
 
@@ -1034,6 +1033,162 @@ describe('`useAsyncIterMulti` hook', () => {
       ]);
     }
   );
+  it(
+    gray(
+      'When given a `retry` policy and any of the iterables errors, re-iterates it while reporting its retry state'
+    ),
+    async () => {
+      const channels: IteratorChannelTestHelper<string>[] = [];
+      const iter = {
+        [Symbol.asyncIterator]: () => {
+          const channel = new IteratorChannelTestHelper<string>();
+          channels.push(channel);
+          return channel;
+        },
+      };
+
+      const renderedHook = renderHook(() =>
+        useAsyncIterMulti([iter, 'static'], { retry: { delayMs: 0 } })
+      );
+
+      expect(renderedHook.result.current).toStrictEqual([
+        {
+          value: undefined,
+          pendingFirst: true,
+          done: false,
+          error: undefined,
+          retryCount: 0,
+          isRetrying: false,
+        },
+        { value: 'static', pendingFirst: false, done: false, error: undefined },
+      ]);
+
+      await act(() => channels[0].error(simulatedError1));
+
+      expect(renderedHook.result.current[0]).toStrictEqual({
+        value: undefined,
+        pendingFirst: true,
+        done: false,
+        error: undefined,
+        retryCount: 1,
+        isRetrying: true,
+      });
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 5)));
+      await act(() => channels[1].put('a'));
+
+      expect(channels).lengthOf(2);
+      expect(renderedHook.result.current[0]).toStrictEqual({
+        value: 'a',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+        retryCount: 0,
+        isRetrying: false,
+      });
+    }
+  );
+  it(
+    gray(
+      'When given a `throttleMs` scheduling, coalesces re-renders from yields of all iterables per interval'
+    ),
+    async () => {
+      const channel1 = new IteratorChannelTestHelper<string>();
+      const channel2 = new IteratorChannelTestHelper<string>();
+      let timesRerendered = 0;
+
+      const renderedHook = renderHook(() => {
+        timesRerendered++;
+        return useAsyncIterMulti([channel1, channel2], { scheduling: { throttleMs: 50 } });
+      });
+
+      await act(() => {
+        channel1.put('a');
+        channel2.put('x');
+      });
+      expect(timesRerendered).toStrictEqual(2);
+
+      await act(() => channel1.put('b'));
+      expect(timesRerendered).toStrictEqual(3);
+
+      await act(() => channel1.put('c'));
+      await act(() => channel2.put('y'));
+      expect(timesRerendered).toStrictEqual(3);
+      expect(renderedHook.result.current.map(r => r.value)).toStrictEqual(['b', 'x']);
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 60)));
+      expect(timesRerendered).toStrictEqual(4);
+      expect(renderedHook.result.current.map(r => r.value)).toStrictEqual(['c', 'y']);
+    }
+  );
+  it(
+    gray('When given an `isEqual` function, skips yields it considers equal to the previous one'),
+    async () => {
+      const channel1 = new IteratorChannelTestHelper<{ tags: string[] }>();
+      const channel2 = new IteratorChannelTestHelper<string>();
+      let timesRerendered = 0;
+
+      const renderedHook = renderHook(() => {
+        timesRerendered++;
+        return useAsyncIterMulti([channel1, channel2], { isEqual: deepEqual });
+      });
+
+      await act(() => channel1.put({ tags: ['a'] }));
+      expect(timesRerendered).toStrictEqual(2);
+
+      await act(() => channel1.put({ tags: ['a'] }));
+      expect(timesRerendered).toStrictEqual(2);
+
+      await act(() => channel1.put({ tags: ['a', 'b'] }));
+      expect(timesRerendered).toStrictEqual(3);
+      expect(renderedHook.result.current[0].value).toStrictEqual({ tags: ['a', 'b'] });
+    }
+  );
+  it(
+    gray('When given the `metadata` option, individual results carry their own iteration metadata'),
+    async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      try {
+        const channel1 = new IteratorChannelTestHelper<string>();
+        const channel2 = new IteratorChannelTestHelper<string>();
+
+        vi.setSystemTime(1000);
+        const renderedHook = renderHook(() =>
+          useAsyncIterMulti([channel1, channel2, 'plain'], { metadata: true })
+        );
+
+        vi.setSystemTime(2000);
+        await act(() => channel1.put('a'));
+
+        expect(renderedHook.result.current).toStrictEqual([
+          {
+            value: 'a',
+            pendingFirst: false,
+            done: false,
+            error: undefined,
+            iterationIndex: 0,
+            startedAt: 1000,
+            lastYieldAt: 2000,
+            endedAt: undefined,
+          },
+          {
+            value: undefined,
+            pendingFirst: true,
+            done: false,
+            error: undefined,
+            iterationIndex: -1,
+            startedAt: 1000,
+            lastYieldAt: undefined,
+            endedAt: undefined,
+          },
+          { value: 'plain', pendingFirst: false, done: false, error: undefined },
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    }
+  );
 });
 
 const simulatedError1 = new Error('🚨 Simulated Error 1 🚨');
@@ -0,0 +1,94 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
+import { useAsyncIterPaged } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`useAsyncIterPaged` hook', () => {
+  it(
+    gray('Loads the first page right away and every further page only upon `loadMore()`'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string[]>();
+      const nextSpy = vi.spyOn(channel, 'next');
+
+      const renderedHook = renderHook(() => useAsyncIterPaged(channel));
+
+      expect(renderedHook.result.current).toStrictEqual({
+        items: [],
+        loadMore: expect.any(Function),
+        hasMore: true,
+        isLoading: true,
+        pendingFirst: true,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => channel.put(['a', 'b']));
+      await act(() => new Promise(resolve => setTimeout(resolve, 10)));
+      expect(nextSpy).toHaveBeenCalledOnce();
+      expect(renderedHook.result.current).toStrictEqual({
+        items: ['a', 'b'],
+        loadMore: expect.any(Function),
+        hasMore: true,
+        isLoading: false,
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => {
+        renderedHook.result.current.loadMore();
+        renderedHook.result.current.loadMore();
+      });
+      expect(nextSpy).toHaveBeenCalledTimes(2);
+      expect(renderedHook.result.current.isLoading).toStrictEqual(true);
+
+      await act(() => channel.put(['c']));
+      expect(renderedHook.result.current).toStrictEqual({
+        items: ['a', 'b', 'c'],
+        loadMore: expect.any(Function),
+        hasMore: true,
+        isLoading: false,
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+    }
+  );
+
+  it(gray('Reports the end of pages and any error the iterable ends with'), async () => {
+    const channel = new IteratorChannelTestHelper<string[]>();
+
+    const renderedHook = renderHook(() => useAsyncIterPaged(channel));
+
+    await act(() => channel.put(['a']));
+    await act(() => renderedHook.result.current.loadMore());
+    await act(() => channel.error(simulatedError));
+
+    expect(renderedHook.result.current).toStrictEqual({
+      items: ['a'],
+      loadMore: expect.any(Function),
+      hasMore: false,
+      isLoading: false,
+      pendingFirst: false,
+      done: true,
+      error: simulatedError,
+    });
+  });
+
+  it(gray('When unmounted, closes the iterator'), async () => {
+    const channel = new IteratorChannelTestHelper<string[]>();
+
+    const renderedHook = renderHook(() => useAsyncIterPaged(channel));
+    await act(() => channel.put(['a']));
+
+    renderedHook.unmount();
+    expect(channel.return).toHaveBeenCalledOnce();
+  });
+});
+
+const simulatedError = new Error('🚨 Simulated Error 🚨');
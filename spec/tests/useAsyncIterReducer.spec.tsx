@@ -0,0 +1,154 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { renderHook, cleanup as cleanupMountedReactTrees, act } from '@testing-library/react';
+import {
+  useAsyncIterReducer,
+  useAsyncIter,
+  type AsyncIterReducerMiddleware,
+} from '../libEntrypoint.js';
+import { asyncIterTakeFirst } from '../utils/asyncIterTakeFirst.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`useAsyncIterReducer` hook', () => {
+  it(
+    gray(
+      'Dispatched actions are reduced into the state iterable without re-rendering the host component'
+    ),
+    async () => {
+      const hostRenderFn = vi.fn();
+
+      const renderedHook = renderHook(() => {
+        hostRenderFn();
+        return useAsyncIterReducer(counterReducer, 0);
+      });
+      const [values, dispatch] = renderedHook.result.current;
+
+      expect(values.value.current).toStrictEqual(0);
+
+      const nextValuePromise = asyncIterTakeFirst<number>()(values);
+      dispatch({ type: 'added', amount: 5 });
+      expect(values.value.current).toStrictEqual(5);
+      expect(await nextValuePromise).toStrictEqual(5);
+
+      dispatch({ type: 'reset' });
+      expect(values.value.current).toStrictEqual(0);
+
+      renderedHook.rerender();
+      expect(renderedHook.result.current).toStrictEqual([values, dispatch]);
+      expect(hostRenderFn).toHaveBeenCalledTimes(2);
+    }
+  );
+
+  it(gray('The most recently rendered reducer is the one applied'), async () => {
+    const renderedHook = renderHook(
+      ({ factor }) =>
+        useAsyncIterReducer(
+          (state: number, action: { type: 'added'; amount: number }) =>
+            state + action.amount * factor,
+          0
+        ),
+      { initialProps: { factor: 1 } }
+    );
+    const [values, dispatch] = renderedHook.result.current;
+
+    dispatch({ type: 'added', amount: 1 });
+    renderedHook.rerender({ factor: 10 });
+    dispatch({ type: 'added', amount: 1 });
+
+    expect(values.value.current).toStrictEqual(11);
+  });
+
+  it(gray('Middleware is applied in order, and can dispatch and replace the state'), async () => {
+    const log: string[] = [];
+
+    const logger: AsyncIterReducerMiddleware<number, CounterAction> = api => next => action => {
+      log.push(`before ${action.type}: ${api.getState()}`);
+      next(action);
+      log.push(`after ${action.type}: ${api.getState()}`);
+    };
+
+    const history: number[] = [];
+    const undoable: AsyncIterReducerMiddleware<number, CounterAction> = api => next => action => {
+      if (action.type === 'undo') {
+        api.replaceState(history.pop() ?? api.getState());
+      } else {
+        history.push(api.getState());
+        next(action);
+      }
+    };
+
+    const resetOnOverflow: AsyncIterReducerMiddleware<number, CounterAction> =
+      api => next => action => {
+        next(action);
+        if (action.type === 'added' && action.amount > 100) {
+          api.dispatch({ type: 'reset' });
+        }
+      };
+
+    const renderedHook = renderHook(() =>
+      useAsyncIterReducer(counterReducer, 0, { middleware: [logger, undoable, resetOnOverflow] })
+    );
+    const [values, dispatch] = renderedHook.result.current;
+
+    dispatch({ type: 'added', amount: 2 });
+    dispatch({ type: 'added', amount: 3 });
+    expect(values.value.current).toStrictEqual(5);
+
+    dispatch({ type: 'undo' });
+    expect(values.value.current).toStrictEqual(2);
+
+    dispatch({ type: 'added', amount: 200 });
+    expect(values.value.current).toStrictEqual(0);
+
+    expect(log).toStrictEqual([
+      'before added: 0',
+      'after added: 2',
+      'before added: 2',
+      'after added: 5',
+      'before undo: 5',
+      'after undo: 2',
+      'before added: 2',
+      'before reset: 202',
+      'after reset: 0',
+      'after added: 0',
+    ]);
+  });
+
+  it(gray('Components consuming the state iterable render every dispatched update'), async () => {
+    const [values, dispatch] = renderHook(() => useAsyncIterReducer(counterReducer, 0)).result
+      .current;
+
+    const consumer = renderHook(() => useAsyncIter(values));
+    expect(consumer.result.current.value).toStrictEqual(0);
+
+    await act(() => dispatch({ type: 'added', amount: 7 }));
+    expect(consumer.result.current.value).toStrictEqual(7);
+  });
+
+  it(gray('The state iterable is closed when the host component unmounts'), async () => {
+    const renderedHook = renderHook(() => useAsyncIterReducer(counterReducer, 0));
+    const [values] = renderedHook.result.current;
+
+    const iterator = values[Symbol.asyncIterator]();
+    const nextPromise = iterator.next();
+
+    renderedHook.unmount();
+    expect(await nextPromise).toStrictEqual({ done: true, value: undefined });
+  });
+});
+
+type CounterAction = { type: 'added'; amount: number } | { type: 'reset' } | { type: 'undo' };
+
+function counterReducer(state: number, action: CounterAction): number {
+  switch (action.type) {
+    case 'added':
+      return state + action.amount;
+    case 'reset':
+      return 0;
+    default:
+      return state;
+  }
+}
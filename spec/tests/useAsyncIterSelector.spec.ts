@@ -0,0 +1,116 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { renderHook, cleanup as cleanupMountedReactTrees, act } from '@testing-library/react';
+import { useAsyncIterSelector, createAsyncIterState, iterateFormatted } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`useAsyncIterSelector` hook', () => {
+  it(
+    gray(
+      'Selects from the current value synchronously on mount and re-renders only when the selected slice changes'
+    ),
+    async () => {
+      const [stateIter, setState] = createAsyncIterState({ a: 1, b: 1 });
+      let timesRerendered = 0;
+
+      const renderedHook = renderHook(() => {
+        timesRerendered++;
+        return useAsyncIterSelector(stateIter, state => state.a);
+      });
+
+      expect(timesRerendered).toStrictEqual(1);
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 1,
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => setState(prev => ({ ...prev, b: 2 })));
+      expect(timesRerendered).toStrictEqual(1);
+
+      await act(() => setState(prev => ({ ...prev, a: 2 })));
+      expect(timesRerendered).toStrictEqual(2);
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 2,
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+    }
+  );
+
+  it(gray('Compares selected slices using the given equality function'), async () => {
+    const [stateIter, setState] = createAsyncIterState({ a: 1, b: 1, c: 1 });
+    let timesRerendered = 0;
+
+    const renderedHook = renderHook(() => {
+      timesRerendered++;
+      return useAsyncIterSelector(
+        stateIter,
+        state => ({ a: state.a, b: state.b }),
+        (prev, next) => prev.a === next.a && prev.b === next.b
+      );
+    });
+
+    await act(() => setState(prev => ({ ...prev, c: 2 })));
+    expect(timesRerendered).toStrictEqual(1);
+
+    await act(() => setState(prev => ({ ...prev, b: 2 })));
+    expect(timesRerendered).toStrictEqual(2);
+    expect(renderedHook.result.current.value).toStrictEqual({ a: 1, b: 2 });
+  });
+
+  it(
+    gray('Selects from values of a source with no current value, starting as `pendingFirst`'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<{ a: number }>();
+
+      const renderedHook = renderHook(() =>
+        useAsyncIterSelector(
+          iterateFormatted(channel, ({ a }) => ({ a: a * 10 })),
+          ({ a }) => a
+        )
+      );
+
+      expect(renderedHook.result.current).toStrictEqual({
+        value: undefined,
+        pendingFirst: true,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => channel.put({ a: 1 }));
+      expect(renderedHook.result.current).toStrictEqual({
+        value: 10,
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+    }
+  );
+
+  it(
+    gray(
+      'Runs the selector over the current value of the source only once per distinct current value'
+    ),
+    async () => {
+      const [stateIter, setState] = createAsyncIterState({ a: 1, b: 1 });
+      const selector = vi.fn((state: { a: number; b: number }) => ({ a: state.a }));
+
+      const renderedHook = renderHook(() => useAsyncIterSelector(stateIter, selector));
+
+      for (let i = 0; i < 3; ++i) {
+        renderedHook.rerender();
+      }
+      expect(selector).toHaveBeenCalledOnce();
+      expect(renderedHook.result.current.value).toStrictEqual({ a: 1 });
+      await act(() => setState({ a: 2, b: 1 }));
+      expect(renderedHook.result.current.value).toStrictEqual({ a: 2 });
+    }
+  );
+});
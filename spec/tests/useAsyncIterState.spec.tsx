@@ -7,12 +7,11 @@ import {
   cleanup as cleanupMountedReactTrees,
   act,
 } from '@testing-library/react';
-import { useAsyncIterState } from '../libEntrypoint.js';
+import { useAsyncIterState, pipe } from '../libEntrypoint.js';
 import { asyncIterToArray } from '../utils/asyncIterToArray.js';
 import { asyncIterTake } from '../utils/asyncIterTake.js';
 import { asyncIterTakeFirst } from '../utils/asyncIterTakeFirst.js';
 import { checkPromiseState } from '../utils/checkPromiseState.js';
-import { pipe } from '../utils/pipe.js';
 
 beforeAll(() => {
   configureReactTestingLib({ reactStrictMode: true });
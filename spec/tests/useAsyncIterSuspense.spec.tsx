@@ -0,0 +1,240 @@
+import { it, describe, expect, afterEach, vi } from 'vitest';
+import { gray } from 'colorette';
+import { Suspense } from 'react';
+import { render, cleanup as cleanupMountedReactTrees, act } from '@testing-library/react';
+import {
+  useAsyncIterSuspense,
+  useAsyncIterState,
+  iterateFormatted,
+  It,
+  type IterationResult,
+} from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`useAsyncIterSuspense` hook', () => {
+  it(
+    gray(
+      'When given an iterable, suspends until its first yield and then continues iterating the same iterator'
+    ),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+      const iterFn = vi.fn(() => channel);
+      const iter = { [Symbol.asyncIterator]: iterFn };
+      let lastRenderedResult!: IterationResult<AsyncIterable<string>>;
+
+      function Consumer() {
+        lastRenderedResult = useAsyncIterSuspense(iter);
+        return <>{lastRenderedResult.value}</>;
+      }
+
+      const rendered = render(
+        <Suspense fallback="loading">
+          <Consumer />
+        </Suspense>
+      );
+
+      expect(rendered.container.innerHTML).toStrictEqual('loading');
+
+      await act(() => channel.put('a'));
+
+      expect(rendered.container.innerHTML).toStrictEqual('a');
+      expect(lastRenderedResult).toStrictEqual({
+        value: 'a',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => channel.put('b'));
+
+      expect(rendered.container.innerHTML).toStrictEqual('b');
+      expect(iterFn).toHaveBeenCalledOnce();
+
+      rendered.unmount();
+
+      expect(channel.return).toHaveBeenCalledOnce();
+    }
+  );
+
+  it(
+    gray(
+      'When a suspending render is abandoned, closes the iterator it had started after a while, so a later suspension starts afresh'
+    ),
+    async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      try {
+        const channels = [
+          new IteratorChannelTestHelper<string>(),
+          new IteratorChannelTestHelper<string>(),
+        ];
+        const iterFn = vi.fn(() => channels[iterFn.mock.calls.length - 1]);
+        const iter = { [Symbol.asyncIterator]: iterFn };
+
+        function Consumer() {
+          return <>{useAsyncIterSuspense(iter).value}</>;
+        }
+
+        const rendered1 = render(
+          <Suspense fallback="loading">
+            <Consumer />
+          </Suspense>
+        );
+        expect(rendered1.container.innerHTML).toStrictEqual('loading');
+        rendered1.unmount();
+
+        await act(() => channels[0].put('a'));
+        expect(channels[0].return).not.toHaveBeenCalled();
+
+        await act(() => vi.advanceTimersByTime(5000));
+        expect(channels[0].return).toHaveBeenCalledOnce();
+
+        const rendered2 = render(
+          <Suspense fallback="loading">
+            <Consumer />
+          </Suspense>
+        );
+        expect(rendered2.container.innerHTML).toStrictEqual('loading');
+        expect(iterFn).toHaveBeenCalledTimes(2);
+
+        await act(() => channels[1].put('b'));
+        expect(rendered2.container.innerHTML).toStrictEqual('b');
+      } finally {
+        vi.useRealTimers();
+      }
+    }
+  );
+
+  it(
+    gray(
+      'When given an iterable that completes without yielding values will return correct results'
+    ),
+    async () => {
+      const emptyIter = (async function* () {})();
+      let lastRenderedResult!: IterationResult<AsyncIterable<string>>;
+
+      function Consumer() {
+        lastRenderedResult = useAsyncIterSuspense(emptyIter);
+        return <>{lastRenderedResult.value ?? 'empty'}</>;
+      }
+
+      const rendered = render(
+        <Suspense fallback="loading">
+          <Consumer />
+        </Suspense>
+      );
+
+      await act(() => {});
+
+      expect(rendered.container.innerHTML).toStrictEqual('empty');
+      expect(lastRenderedResult).toStrictEqual({
+        value: undefined,
+        pendingFirst: false,
+        done: true,
+        error: undefined,
+      });
+    }
+  );
+
+  it(
+    gray('When given an iterable that errors without yielding values will return correct results'),
+    async () => {
+      const simulatedError = new Error('🚨 Simulated Error 🚨');
+      const erroringIter = (async function* () {
+        throw simulatedError;
+      })();
+      let lastRenderedResult!: IterationResult<AsyncIterable<string>>;
+
+      function Consumer() {
+        lastRenderedResult = useAsyncIterSuspense(erroringIter);
+        return <>{`${lastRenderedResult.error}`}</>;
+      }
+
+      const rendered = render(
+        <Suspense fallback="loading">
+          <Consumer />
+        </Suspense>
+      );
+
+      await act(() => {});
+
+      expect(rendered.container.innerHTML).toStrictEqual(`${simulatedError}`);
+      expect(lastRenderedResult).toStrictEqual({
+        value: undefined,
+        pendingFirst: false,
+        done: true,
+        error: simulatedError,
+      });
+    }
+  );
+
+  it(gray('When given a formatted iterable, formats the first value as well'), async () => {
+    const channel = new IteratorChannelTestHelper<string>();
+
+    function Consumer() {
+      const next = useAsyncIterSuspense(iterateFormatted(channel, (val, i) => `${val}_${i}`));
+      return <>{next.value}</>;
+    }
+
+    const rendered = render(
+      <Suspense fallback="loading">
+        <Consumer />
+      </Suspense>
+    );
+
+    expect(rendered.container.innerHTML).toStrictEqual('loading');
+
+    await act(() => channel.put('a'));
+    expect(rendered.container.innerHTML).toStrictEqual('a_0');
+
+    await act(() => channel.put('b'));
+    expect(rendered.container.innerHTML).toStrictEqual('b_1');
+  });
+
+  it(
+    gray('When given an iterable with a `.value.current` property, does not suspend at all'),
+    async () => {
+      let stateIter!: ReturnType<typeof useAsyncIterState<string, string>>[0];
+
+      function Consumer() {
+        [stateIter] = useAsyncIterState('a');
+        const next = useAsyncIterSuspense(stateIter);
+        return <>{next.value}</>;
+      }
+
+      const rendered = render(
+        <Suspense fallback="loading">
+          <Consumer />
+        </Suspense>
+      );
+
+      expect(rendered.container.innerHTML).toStrictEqual('a');
+    }
+  );
+
+  it(
+    gray('When used via the `suspense` prop of `<It>`, suspends until the first yield'),
+    async () => {
+      const channel = new IteratorChannelTestHelper<string>();
+
+      const rendered = render(
+        <Suspense fallback="loading">
+          <It value={channel} suspense>
+            {next => `${next.value}, pendingFirst: ${next.pendingFirst}`}
+          </It>
+        </Suspense>
+      );
+
+      expect(rendered.container.innerHTML).toStrictEqual('loading');
+
+      await act(() => channel.put('a'));
+      expect(rendered.container.innerHTML).toStrictEqual('a, pendingFirst: false');
+
+      await act(() => channel.put('b'));
+      expect(rendered.container.innerHTML).toStrictEqual('b, pendingFirst: false');
+    }
+  );
+});
@@ -0,0 +1,105 @@
+import { it, describe, expect, afterEach } from 'vitest';
+import { gray } from 'colorette';
+import { cleanup as cleanupMountedReactTrees, act, renderHook } from '@testing-library/react';
+import { useAsyncIterWithControls } from '../libEntrypoint.js';
+import { IteratorChannelTestHelper } from '../utils/IteratorChannelTestHelper.js';
+
+afterEach(() => {
+  cleanupMountedReactTrees();
+});
+
+describe('`useAsyncIterWithControls` hook', () => {
+  it(
+    gray(
+      'When calling `restart`, closes the current iterator and starts a fresh one from the same iterable'
+    ),
+    async () => {
+      const channels: IteratorChannelTestHelper<string>[] = [];
+      const iter = {
+        [Symbol.asyncIterator]: () => {
+          const channel = new IteratorChannelTestHelper<string>();
+          channels.push(channel);
+          return channel;
+        },
+      };
+
+      const renderedHook = renderHook(() => useAsyncIterWithControls(iter, '_'));
+
+      await act(() => channels[0].put('a'));
+
+      expect(renderedHook.result.current[0]).toStrictEqual({
+        value: 'a',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      const controlsBefore = renderedHook.result.current[1];
+
+      await act(() => renderedHook.result.current[1].restart());
+
+      expect(channels).lengthOf(2);
+      expect(channels[0].return).toHaveBeenCalledOnce();
+      expect(renderedHook.result.current[1]).toBe(controlsBefore);
+      expect(renderedHook.result.current[0]).toStrictEqual({
+        value: 'a',
+        pendingFirst: true,
+        done: false,
+        error: undefined,
+      });
+
+      await act(() => channels[1].put('b'));
+
+      expect(renderedHook.result.current[0]).toStrictEqual({
+        value: 'b',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+    }
+  );
+
+  it(
+    gray(
+      'When calling `stop`, closes the current iterator and ends the iteration, which can later be restarted'
+    ),
+    async () => {
+      const channels: IteratorChannelTestHelper<string>[] = [];
+      const iter = {
+        [Symbol.asyncIterator]: () => {
+          const channel = new IteratorChannelTestHelper<string>();
+          channels.push(channel);
+          return channel;
+        },
+      };
+
+      const renderedHook = renderHook(() => useAsyncIterWithControls(iter));
+
+      await act(() => channels[0].put('a'));
+      await act(() => renderedHook.result.current[1].stop());
+
+      expect(channels[0].return).toHaveBeenCalledOnce();
+      expect(renderedHook.result.current[0]).toStrictEqual({
+        value: 'a',
+        pendingFirst: false,
+        done: true,
+        error: undefined,
+      });
+
+      await act(() => renderedHook.result.current[1].restart());
+      await act(() => channels[1].put('b'));
+
+      expect(channels).lengthOf(2);
+      expect(renderedHook.result.current[0]).toStrictEqual({
+        value: 'b',
+        pendingFirst: false,
+        done: false,
+        error: undefined,
+      });
+
+      renderedHook.unmount();
+      expect(channels[0].return).toHaveBeenCalledOnce();
+      expect(channels[1].return).toHaveBeenCalledOnce();
+    }
+  );
+});
@@ -2,8 +2,7 @@ import { it, describe, expect, afterEach, vi } from 'vitest';
 import { gray } from 'colorette';
 import { range } from 'lodash-es';
 import { renderHook, cleanup as cleanupMountedReactTrees, act } from '@testing-library/react';
-import { useSharedAsyncIter, iterateFormatted } from '../libEntrypoint.js';
-import { pipe } from '../utils/pipe.js';
+import { useSharedAsyncIter, iterateFormatted, pipe } from '../libEntrypoint.js';
 import { IterableChannelTestHelper } from '../utils/IterableChannelTestHelper.js';
 import { asyncIterOf } from '../utils/asyncIterOf.js';
 import { feedChannelAcrossTicks } from '../utils/feedChannelAcrossTicks.js';
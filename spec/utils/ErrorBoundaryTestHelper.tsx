@@ -0,0 +1,22 @@
+import { Component, type ReactNode } from 'react';
+
+export { ErrorBoundaryTestHelper };
+
+class ErrorBoundaryTestHelper extends Component<
+  { fallback: (error: unknown) => ReactNode; children?: ReactNode },
+  { caught: undefined | { error: unknown } }
+> {
+  state: { caught: undefined | { error: unknown } } = { caught: undefined };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { caught: { error } };
+  }
+
+  reset(): void {
+    this.setState({ caught: undefined });
+  }
+
+  render(): ReactNode {
+    return this.state.caught ? this.props.fallback(this.state.caught.error) : this.props.children;
+  }
+}
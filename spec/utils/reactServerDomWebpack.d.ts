@@ -0,0 +1,20 @@
+declare module 'react-server-dom-webpack/server.edge' {
+  export function renderToReadableStream(
+    model: unknown,
+    webpackMap: unknown,
+    options?: { signal?: AbortSignal; onError?: (error: unknown) => void }
+  ): ReadableStream<Uint8Array>;
+}
+
+declare module 'react-server-dom-webpack/client.edge' {
+  export function createFromReadableStream<T>(
+    stream: ReadableStream<Uint8Array>,
+    options: {
+      serverConsumerManifest: {
+        moduleMap: object;
+        serverModuleMap: null | object;
+        moduleLoading: null | object;
+      };
+    }
+  ): Promise<T>;
+}
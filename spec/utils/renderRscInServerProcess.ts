@@ -0,0 +1,20 @@
+import { spawn } from 'node:child_process';
+import { Readable } from 'node:stream';
+
+export { renderRscInServerProcess };
+
+function renderRscInServerProcess(
+  scenario: 'streamedValues' | 'abortedRequest'
+): ReadableStream<Uint8Array> {
+  const serverProcess = spawn(
+    process.execPath,
+    [
+      '--conditions=react-server',
+      '--import=tsx',
+      `${import.meta.dirname}/rscServerProcess.ts`,
+      scenario,
+    ],
+    { stdio: ['ignore', 'pipe', 'inherit'] }
+  );
+  return Readable.toWeb(serverProcess.stdout) as ReadableStream<Uint8Array>;
+}
@@ -0,0 +1,60 @@
+import { Writable } from 'node:stream';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { renderToReadableStream } from 'react-server-dom-webpack/server.edge';
+import { toRscAsyncIter } from '../../src/rscAsyncIter/index.js';
+
+// Meant to be run as a separate Node process with the "react-server" export condition enabled (which
+// RSC requires, but which would break rendering on the client side if enabled in the test process),
+// writing the RSC payload for the given scenario to its stdout - see `renderRscInServerProcess`.
+
+const scenarios: Record<string, () => Promise<void>> = {
+  async streamedValues() {
+    const payload = renderToReadableStream(
+      { values: toRscAsyncIter(yieldTicked('a', 'b', 'c')) },
+      {}
+    );
+    await payload.pipeTo(Writable.toWeb(process.stdout));
+  },
+
+  async abortedRequest() {
+    let pullCount = 0;
+    let pullCountWhenClosed: undefined | number;
+
+    const source = (async function* () {
+      try {
+        for (;;) {
+          await sleep(5);
+          yield ++pullCount;
+        }
+      } finally {
+        pullCountWhenClosed = pullCount;
+      }
+    })();
+
+    const abortCtrl = new AbortController();
+    const payload = renderToReadableStream(
+      { values: toRscAsyncIter(source) },
+      {},
+      {
+        signal: abortCtrl.signal,
+        onError: () => {},
+      }
+    );
+    const reader = payload.getReader();
+    await reader.read();
+    await sleep(30);
+    abortCtrl.abort();
+    await sleep(30);
+
+    process.stdout.write(JSON.stringify({ pullCountWhenClosed, pullCount }));
+  },
+};
+
+async function* yieldTicked<T>(...values: T[]): AsyncGenerator<T> {
+  for (const value of values) {
+    await sleep(5);
+    yield value;
+  }
+}
+
+await scenarios[process.argv[2]]();
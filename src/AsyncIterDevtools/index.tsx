@@ -0,0 +1,156 @@
+import { type ReactNode, type CSSProperties } from 'react';
+import { useSyncExternalStoreCompat } from '../common/hooks/useSyncExternalStoreCompat.js';
+import {
+  devtoolsRegistry,
+  type DevtoolsIterationEntry,
+  type DevtoolsSharedSourceEntry,
+} from '../common/devtoolsRegistry.js';
+
+export {
+  AsyncIterDevtools,
+  enableAsyncIterDevtools,
+  type AsyncIterDevtoolsProps,
+  type DevtoolsIterationEntry,
+  type DevtoolsSharedSourceEntry,
+};
+
+/**
+ * Enables the library's instrumentation of async iterable consumption, which feeds the
+ * {@link AsyncIterDevtools `<AsyncIterDevtools>`} panel. Instrumentation is disabled by default and
+ * has no runtime cost while disabled.
+ *
+ * Only iterations starting after enabling get recorded, so this should be called early on, before
+ * the app renders - typically only in development builds.
+ *
+ * @example
+ * ```tsx
+ * import { enableAsyncIterDevtools, AsyncIterDevtools } from 'react-async-iterators';
+ *
+ * if (process.env.NODE_ENV === 'development') {
+ *   enableAsyncIterDevtools();
+ * }
+ *
+ * root.render(
+ *   <>
+ *     <App />
+ *     {process.env.NODE_ENV === 'development' && <AsyncIterDevtools />}
+ *   </>
+ * );
+ * ```
+ *
+ * @returns A function which disables the instrumentation back and clears everything recorded so far.
+ *
+ * @see {@link AsyncIterDevtools `<AsyncIterDevtools>`}
+ */
+function enableAsyncIterDevtools(): () => void {
+  devtoolsRegistry.setEnabled(true);
+  return () => devtoolsRegistry.setEnabled(false);
+}
+
+/**
+ * A debugging panel listing all async iterables that are being (or had recently been) consumed by
+ * the library's hooks and components, along with each's component owner (as best guessed), number
+ * of values yielded, last value, error and the times it started and ended (by completing, erroring or
+ * being torn down). It also lists sources shared via `useSharedAsyncIter` along with their current
+ * and total number of subscribers.
+ *
+ * Shows nothing unless instrumentation was enabled via
+ * {@link enableAsyncIterDevtools `enableAsyncIterDevtools`}. Updates live as iterations progress.
+ *
+ * @see {@link enableAsyncIterDevtools `enableAsyncIterDevtools`}
+ */
+function AsyncIterDevtools(props: AsyncIterDevtoolsProps): ReactNode {
+  const { iterations, sharedSources } = useSyncExternalStoreCompat(
+    devtoolsRegistry.subscribe,
+    devtoolsRegistry.getSnapshot,
+    devtoolsRegistry.getSnapshot
+  );
+
+  return (
+    <div className={props.className} style={{ fontFamily: 'monospace', ...props.style }}>
+      <table>
+        <caption>Iterations</caption>
+        <thead>
+          <tr>
+            <th>Source</th>
+            <th>Owner</th>
+            <th>Status</th>
+            <th>Yields</th>
+            <th>Last value</th>
+            <th>Error</th>
+            <th>Started</th>
+            <th>Ended</th>
+          </tr>
+        </thead>
+        <tbody>
+          {iterations.map(entry => (
+            <tr key={entry.id} data-status={entry.status}>
+              <td>{entry.sourceLabel}</td>
+              <td>{entry.owner ?? '-'}</td>
+              <td>{entry.status}</td>
+              <td>{entry.yieldCount}</td>
+              <td>{entry.yieldCount === 0 ? '-' : formatValue(entry.lastValue)}</td>
+              <td>{entry.error === undefined ? '-' : formatValue(entry.error)}</td>
+              <td>{formatTime(entry.startedAt)}</td>
+              <td>{entry.endedAt === undefined ? '-' : formatTime(entry.endedAt)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table>
+        <caption>Shared sources</caption>
+        <thead>
+          <tr>
+            <th>Source</th>
+            <th>Subscribers</th>
+            <th>Total subscriptions</th>
+            <th>Last subscriber left</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sharedSources.map(entry => (
+            <tr key={entry.id}>
+              <td>{entry.sourceLabel}</td>
+              <td>{entry.subscriberCount}</td>
+              <td>{entry.totalSubscriptions}</td>
+              <td>
+                {entry.lastSubscriberLeftAt === undefined
+                  ? '-'
+                  : formatTime(entry.lastSubscriberLeftAt)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  const maxLength = 100;
+  let formatted: string;
+  try {
+    formatted =
+      value instanceof Error
+        ? `${value.name}: ${value.message}`
+        : (JSON.stringify(value) ?? String(value));
+  } catch {
+    formatted = String(value);
+  }
+  return formatted.length <= maxLength ? formatted : `${formatted.slice(0, maxLength - 1)}…`;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 23); // Only the "HH:mm:ss.SSS" portion
+}
+
+/**
+ * Props for the {@link AsyncIterDevtools `<AsyncIterDevtools>`} component.
+ */
+type AsyncIterDevtoolsProps = {
+  /** An _optional_ class name for the panel's root element. */
+  className?: string;
+  /** _Optional_ inline styles for the panel's root element. */
+  style?: CSSProperties;
+};
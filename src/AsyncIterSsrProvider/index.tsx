@@ -0,0 +1,35 @@
+import { type ReactNode } from 'react';
+import { AsyncIterSsrContext } from '../common/AsyncIterSsrContext.js';
+import {
+  type createAsyncIterSsrState, // eslint-disable-line @typescript-eslint/no-unused-vars
+  type AsyncIterSsrState,
+} from '../createAsyncIterSsrState/index.js';
+
+export { AsyncIterSsrProvider, type AsyncIterSsrProviderProps };
+
+/**
+ * Provides an SSR state (created by {@link createAsyncIterSsrState `createAsyncIterSsrState`}) to
+ * all hooks and components below it which are given an `ssrKey`, both during server-side rendering
+ * and during hydration on the client.
+ *
+ * @see {@link createAsyncIterSsrState `createAsyncIterSsrState`}
+ */
+function AsyncIterSsrProvider(props: AsyncIterSsrProviderProps): ReactNode {
+  return (
+    <AsyncIterSsrContext.Provider value={props.state}>
+      {props.children}
+    </AsyncIterSsrContext.Provider>
+  );
+}
+
+/**
+ * Props for the {@link AsyncIterSsrProvider `<AsyncIterSsrProvider>`} component.
+ */
+type AsyncIterSsrProviderProps = {
+  /**
+   * The SSR state to provide.
+   */
+  state: AsyncIterSsrState;
+
+  children?: ReactNode;
+};
@@ -1,7 +1,11 @@
 import { type ReactNode } from 'react';
 import { type MaybeFunction } from '../common/MaybeFunction.js';
 import { type MaybeAsyncIterable } from '../MaybeAsyncIterable/index.js';
-import { useAsyncIter, type IterationResult } from '../useAsyncIter/index.js';
+import {
+  useAsyncIter,
+  type IterationResult,
+  type UseAsyncIterOpts,
+} from '../useAsyncIter/index.js';
 
 export { Iterate, type IterateProps };
 
@@ -112,13 +116,29 @@ function Iterate<TVal, TInitialVal = undefined>(props: IterateProps<TVal, TIniti
           const propsBetterTyped = props as IteratePropsWithRenderFunction<TVal, TInitialVal>;
           const next = useAsyncIter(
             propsBetterTyped.value,
-            propsBetterTyped.initialValue as NonNullable<typeof propsBetterTyped.initialValue>
+            propsBetterTyped.initialValue as NonNullable<typeof propsBetterTyped.initialValue>,
+            {
+              suspense: propsBetterTyped.suspense,
+              throwOnError: propsBetterTyped.throwOnError,
+              retry: propsBetterTyped.retry,
+              ssrKey: propsBetterTyped.ssrKey,
+              scheduling: propsBetterTyped.scheduling,
+              mode: propsBetterTyped.mode,
+              isEqual: propsBetterTyped.isEqual,
+            }
           );
           return propsBetterTyped.children(next);
         })()
       : (() => {
           const propsBetterTyped = props as IteratePropsWithNoRenderFunction;
-          const next = useAsyncIter(propsBetterTyped.children, propsBetterTyped.initialValue);
+          const next = useAsyncIter(propsBetterTyped.children, propsBetterTyped.initialValue, {
+            suspense: propsBetterTyped.suspense,
+            throwOnError: propsBetterTyped.throwOnError,
+            retry: propsBetterTyped.retry,
+            ssrKey: propsBetterTyped.ssrKey,
+            scheduling: propsBetterTyped.scheduling,
+            isEqual: propsBetterTyped.isEqual,
+          });
           return next.value;
         })();
 
@@ -152,6 +172,61 @@ type IteratePropsWithRenderFunction<TVal, TInitialVal = undefined> = {
    * You can pass an actual value, or a function that returns a value (which `<Iterate>` will call once during mounting).
    */
   initialValue?: MaybeFunction<TInitialVal>;
+  /**
+   * Whether to _suspend_ while the source async iterable is pending its first value, letting the
+   * nearest [`<React.Suspense>`](https://react.dev/reference/react/Suspense) boundary show its fallback
+   * instead of calling the render function with a `pendingFirst` state. Defaults to `false`.
+   *
+   * @see {@link UseAsyncIterOpts.suspense `UseAsyncIterOpts.suspense`}
+   */
+  suspense?: boolean;
+  /**
+   * Whether to rethrow an error the source async iterable ends with during render, letting the nearest
+   * error boundary catch it. Can also be given a function, which gets called with the error and
+   * returns whether it should be rethrown. Defaults to `false`.
+   *
+   * @see {@link UseAsyncIterOpts.throwOnError `UseAsyncIterOpts.throwOnError`}
+   */
+  throwOnError?: UseAsyncIterOpts['throwOnError'];
+  /**
+   * An _optional_ policy for retrying the iteration when the source async iterable ends with an
+   * error, by obtaining a fresh iterator from it after a delay.
+   *
+   * @see {@link UseAsyncIterOpts.retry `UseAsyncIterOpts.retry`}
+   */
+  retry?: UseAsyncIterOpts['retry'];
+  /**
+   * A key identifying the source async iterable for server-side rendering and hydration, in
+   * conjunction with an SSR state provided via `<AsyncIterSsrProvider>`.
+   *
+   * @see {@link UseAsyncIterOpts.ssrKey `UseAsyncIterOpts.ssrKey`}
+   */
+  ssrKey?: string;
+  /**
+   * Determines how re-renders in reaction to values yielded in rapid succession are scheduled -
+   * either on every yield (`'sync'`, the default), at most once per animation frame
+   * (`'animationFrame'`) or at most once per time interval (`{ throttleMs }`).
+   *
+   * @see {@link UseAsyncIterOpts.scheduling `UseAsyncIterOpts.scheduling`}
+   */
+  scheduling?: UseAsyncIterOpts['scheduling'];
+  /**
+   * Determines whether a value yielded by the source async iterable is equal to the one yielded
+   * before it, in which case it's skipped rather than re-rendered (e.g. `shallowEqual` or
+   * `deepEqual`), or `false` to render every yielded value regardless. Defaults to `Object.is`.
+   *
+   * @see {@link UseAsyncIterOpts.isEqual `UseAsyncIterOpts.isEqual`}
+   */
+  isEqual?: UseAsyncIterOpts['isEqual'];
+  /**
+   * Determines the pace at which the source async iterable gets consumed. With `'manual'`, every
+   * value after the first one is pulled only upon calling the `advance` function included in the
+   * iteration state given to the render function (optionally with an input to pass into the
+   * iterator's `.next(input)` call). Defaults to `'auto'`.
+   *
+   * @see {@link UseAsyncIterOpts.mode `UseAsyncIterOpts.mode`}
+   */
+  mode?: UseAsyncIterOpts['mode'];
   /**
    * A render function that is called for each step of the iteration, returning something to render
    * out of it.
@@ -177,6 +252,52 @@ type IteratePropsWithNoRenderFunction = {
    * You can pass an actual value, or a function that returns a value (which `<Iterate>` will call once during mounting).
    */
   initialValue?: MaybeFunction<ReactNode>;
+  /**
+   * Whether to _suspend_ while the source async iterable is pending its first value, letting the
+   * nearest [`<React.Suspense>`](https://react.dev/reference/react/Suspense) boundary show its fallback
+   * instead of rendering the initial value. Defaults to `false`.
+   *
+   * @see {@link UseAsyncIterOpts.suspense `UseAsyncIterOpts.suspense`}
+   */
+  suspense?: boolean;
+  /**
+   * Whether to rethrow an error the source async iterable ends with during render, letting the nearest
+   * error boundary catch it. Can also be given a function, which gets called with the error and
+   * returns whether it should be rethrown. Defaults to `false`.
+   *
+   * @see {@link UseAsyncIterOpts.throwOnError `UseAsyncIterOpts.throwOnError`}
+   */
+  throwOnError?: UseAsyncIterOpts['throwOnError'];
+  /**
+   * An _optional_ policy for retrying the iteration when the source async iterable ends with an
+   * error, by obtaining a fresh iterator from it after a delay.
+   *
+   * @see {@link UseAsyncIterOpts.retry `UseAsyncIterOpts.retry`}
+   */
+  retry?: UseAsyncIterOpts['retry'];
+  /**
+   * A key identifying the source async iterable for server-side rendering and hydration, in
+   * conjunction with an SSR state provided via `<AsyncIterSsrProvider>`.
+   *
+   * @see {@link UseAsyncIterOpts.ssrKey `UseAsyncIterOpts.ssrKey`}
+   */
+  ssrKey?: string;
+  /**
+   * Determines how re-renders in reaction to values yielded in rapid succession are scheduled -
+   * either on every yield (`'sync'`, the default), at most once per animation frame
+   * (`'animationFrame'`) or at most once per time interval (`{ throttleMs }`).
+   *
+   * @see {@link UseAsyncIterOpts.scheduling `UseAsyncIterOpts.scheduling`}
+   */
+  scheduling?: UseAsyncIterOpts['scheduling'];
+  /**
+   * Determines whether a value yielded by the source async iterable is equal to the one yielded
+   * before it, in which case it's skipped rather than re-rendered (e.g. `shallowEqual` or
+   * `deepEqual`), or `false` to render every yielded value regardless. Defaults to `Object.is`.
+   *
+   * @see {@link UseAsyncIterOpts.isEqual `UseAsyncIterOpts.isEqual`}
+   */
+  isEqual?: UseAsyncIterOpts['isEqual'];
   /**
    * The source value to render from, either an async iterable to iterate over of a plain value.
    */
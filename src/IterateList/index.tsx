@@ -0,0 +1,142 @@
+import { Fragment, type Key, type ReactNode } from 'react';
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+import { type IterationResult } from '../useAsyncIter/index.js';
+import {
+  useAsyncIterAccumulate,
+  type UseAsyncIterAccumulateOpts, // eslint-disable-line @typescript-eslint/no-unused-vars
+} from '../useAsyncIterAccumulate/index.js';
+import { type Iterate } from '../Iterate/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { IterateList, type IterateListProps };
+
+/**
+ * The `<IterateList>` component (also exported as `<ItList>`) is used to render every value an async
+ * iterable yields as an item of a growing list, rather than only its latest value like
+ * {@link Iterate `<Iterate>`} does - handy for sources such as chat messages, notifications or log
+ * lines.
+ *
+ * Essentially, can be seen as a {@link useAsyncIterAccumulate `useAsyncIterAccumulate`} hook in a
+ * component form, conveniently.
+ *
+ * _Illustration:_
+ *
+ * ```tsx
+ * import { ItList } from 'react-async-iterators';
+ *
+ * function ChatMessages(props) {
+ *   return (
+ *     <ul>
+ *       <ItList value={props.messagesIter} getKey={msg => msg.id} maxLength={100}>
+ *         {msg => <li>{msg.text}</li>}
+ *       </ItList>
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * The `children` render function is called for each accumulated item, and its outputs are rendered
+ * keyed by the `getKey` prop, so React reconciles the list efficiently as items get added or dropped
+ * (due to the `maxLength` prop) - only newly added items are mounted, while existing ones keep their
+ * elements and state. `getKey` is required whenever `maxLength` is given. Without it, items are keyed
+ * by their position in the list, which is only suitable for lists that are just appended to (no
+ * `maxLength` or custom `reducer`).
+ *
+ * The `value`, `reducer`, `maxLength` and `initialItems` props behave exactly the same as the
+ * corresponding parameter and options of {@link useAsyncIterAccumulate `useAsyncIterAccumulate`}.
+ *
+ * ---
+ *
+ * @template TVal The type of values yielded by the passed iterable or otherwise type of the passed plain value itself.
+ * @template TItem The type of the accumulated items, defaults to the type of values from `TVal`.
+ *
+ * @param props Props for `<IterateList>`. See {@link IterateListProps `IterateListProps`}.
+ *
+ * @returns A React node that renders every accumulated item through the child render function passed into `children`, re-rendering with each yielded value, completion or error.
+ *
+ * @see {@link useAsyncIterAccumulate `useAsyncIterAccumulate`}
+ */
+function IterateList<TVal, TItem = DeasyncIterized<TVal>>(
+  props: IterateListProps<TVal, TItem>
+): ReactNode {
+  const next = useAsyncIterAccumulate(props.value, {
+    reducer: props.reducer,
+    maxLength: props.maxLength,
+    initialItems: props.initialItems,
+  }) as IterationResult<AsyncIterable<TItem[]>, TItem[]>;
+
+  return next.value.map((item, i) => (
+    <Fragment key={props.getKey ? props.getKey(item, i) : i}>
+      {props.children(item, i, next)}
+    </Fragment>
+  ));
+}
+
+/**
+ * Props for the {@link IterateList `<IterateList>`} component.
+ *
+ * @template TVal The type of values yielded by the passed iterable or otherwise type of the passed plain value itself.
+ * @template TItem The type of the accumulated items.
+ */
+type IterateListProps<TVal, TItem = DeasyncIterized<TVal>> = {
+  /**
+   * The source value to accumulate items from, either an async iterable to iterate over or a plain
+   * value (which is accumulated as a single item).
+   */
+  value: TVal;
+
+  /**
+   * An _optional_ function that folds every value yielded into the list of items accumulated so far,
+   * defaults to appending the new value to the end of the list.
+   *
+   * @see {@link UseAsyncIterAccumulateOpts.reducer `UseAsyncIterAccumulateOpts.reducer`}
+   */
+  reducer?: (items: TItem[], value: DeasyncIterized<TVal>, i: number) => TItem[];
+
+  /**
+   * An _optional_ list of items to start accumulating from, or a function that returns one (which
+   * `<IterateList>` will call once during mounting). Defaults to an empty array.
+   */
+  initialItems?: MaybeFunction<TItem[]>;
+
+  /**
+   * A render function that is called for every accumulated item, returning something to render for
+   * it.
+   *
+   * @param item - The accumulated item to render.
+   * @param i - The position of the item in the list.
+   * @param iterationState - The current state of the iteration, holding all accumulated items and whether iteration is complete, any associated error, etc. (see {@link IterationResult `IterationResult`}).
+   * @returns The content to render for the item.
+   */
+  children: (
+    item: TItem,
+    i: number,
+    iterationState: IterationResult<AsyncIterable<TItem[]>, TItem[]>
+  ) => ReactNode;
+} & (
+  | {
+      /**
+       * A function that returns a unique, stable key for every accumulated item, used for keying the
+       * rendered items. Defaults to keying items by their position in the list.
+       */
+      getKey?: (item: TItem, i: number) => Key;
+
+      maxLength?: undefined;
+    }
+  | {
+      /**
+       * A function that returns a unique, stable key for every accumulated item, used for keying the
+       * rendered items. Required along with `maxLength`, since positions shift as the oldest items
+       * get dropped.
+       */
+      getKey: (item: TItem, i: number) => Key;
+
+      /**
+       * An _optional_ maximum number of items to keep - whenever exceeded, the oldest items are
+       * dropped. Requires `getKey` to be given as well.
+       *
+       * @see {@link UseAsyncIterAccumulateOpts.maxLength `UseAsyncIterAccumulateOpts.maxLength`}
+       */
+      maxLength: number;
+    }
+);
@@ -0,0 +1,143 @@
+import { type ReactNode } from 'react';
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+import { type RetryPolicy } from '../common/RetryPolicy.js';
+import { type RenderScheduling } from '../common/RenderScheduling.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
+import { useAsyncIterMap, type IterationResultMap } from '../useAsyncIterMap/index.js';
+import { type IterateMulti } from '../IterateMulti/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { IterateMap, type IterateMapProps };
+
+/**
+ * The `<IterateMap>` component (also exported as `<ItMap>`) is used to render a keyed collection of
+ * async iterables (or plain non-iterable values) - given as either a plain object or a `Map` -
+ * directly onto a piece of UI.
+ *
+ * It's similar to {@link IterateMulti `<IterateMulti>`}, only every async iterable is identified by
+ * its key rather than by its position in an array. Essentially, can be seen as a
+ * {@link useAsyncIterMap `useAsyncIterMap`} hook in a component form, conveniently.
+ *
+ * ---
+ *
+ * _Illustration:_
+ *
+ * @example
+ * ```tsx
+ * import { useMemo } from 'react';
+ * import { ItMap } from 'react-async-iterators';
+ *
+ * function PriceTable(props) {
+ *   const priceFeeds = useMemo(
+ *     () => new Map(props.symbols.map(symbol => [symbol, getPriceFeed(symbol)])),
+ *     [props.symbols]
+ *   );
+ *   return (
+ *     <ul>
+ *       <ItMap values={priceFeeds}>
+ *         {prices =>
+ *           [...prices].map(([symbol, price]) => (
+ *             <li key={symbol}>
+ *               {symbol}: {price.pendingFirst ? '⏳ Loading...' : price.value}
+ *             </li>
+ *           ))
+ *         }
+ *       </ItMap>
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * Iterations are maintained per key - keys that are added start their own iteration, keys that are
+ * removed have their iteration closed, and every other key carries on with its iteration and state
+ * untouched, regardless of how the collection is reordered. `<IterateMap>` will automatically close
+ * all its active iterations as soon as it gets unmounted.
+ *
+ * ---
+ *
+ * @template TVals The type of the input collection of async iterables or plain values.
+ * @template TDefaultInitVal The type of the default initial value, defaults to `undefined`.
+ *
+ * @param props Props for `<IterateMap>`. See {@link IterateMapProps `IterateMapProps`}.
+ *
+ * @returns A React node that updates its contents in response to each next yield, completion or error of any of the async iterables from `values`, formatted by the child render function passed into `children`.
+ *
+ * @see {@link IterationResultMap `IterationResultMap`}
+ */
+function IterateMap<
+  const TVals extends ReadonlyMap<unknown, unknown> | Readonly<Record<PropertyKey, unknown>>,
+  const TDefaultInitVal = undefined,
+>(props: IterateMapProps<TVals, TDefaultInitVal>): ReactNode {
+  const nexts = useAsyncIterMap(props.values, {
+    defaultInitialValue: props.defaultInitialValue,
+    retry: props.retry,
+    throwOnError: props.throwOnError,
+    scheduling: props.scheduling,
+    isEqual: props.isEqual,
+  });
+  return props.children(nexts);
+}
+
+/**
+ * Props for the {@link IterateMap `<IterateMap>`} component.
+ *
+ * @template TVals The type of the input collection of async iterables or plain values.
+ * @template TDefaultInitVal The type of the default initial value, defaults to `undefined`.
+ */
+type IterateMapProps<
+  TVals extends ReadonlyMap<unknown, unknown> | Readonly<Record<PropertyKey, unknown>>,
+  TDefaultInitVal = undefined,
+> = {
+  /**
+   * A plain object or a `Map` of values to iterate over simultaneously, which may include any mix of
+   * async iterables or plain (non async iterable) values.
+   */
+  values: TVals;
+
+  /**
+   * An _optional_ starting value for every new async iterable in `values`, defaults to `undefined`.
+   * You can pass an actual value, or a function that gets the key and returns a value (which will be
+   * called for every new key added).
+   */
+  defaultInitialValue?: MaybeFunction<
+    TDefaultInitVal,
+    [key: TVals extends ReadonlyMap<infer K, unknown> ? K : keyof TVals & string]
+  >;
+
+  /**
+   * An _optional_ policy for retrying the iteration of any of the async iterables from `values` that
+   * ends with an error, by obtaining a fresh iterator from it after a delay (see
+   * {@link RetryPolicy `RetryPolicy`}). When given, the individual iteration states also include the
+   * `retryCount` and `isRetrying` properties.
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Whether to rethrow an error that any of the async iterables from `values` ends with during
+   * render, letting the nearest error boundary catch it. Can also be given a function, which gets
+   * called with the error and returns whether it should be rethrown. Defaults to `false`.
+   */
+  throwOnError?: MaybeFunction<boolean, [error: unknown]>;
+
+  /**
+   * Determines how re-renders in reaction to values yielded in rapid succession from any of the
+   * async iterables from `values` are scheduled (see {@link RenderScheduling `RenderScheduling`}).
+   * Defaults to `'sync'`.
+   */
+  scheduling?: RenderScheduling;
+
+  /**
+   * An _optional_ function that determines whether a value yielded by any of the async iterables
+   * from `values` is equal to the one it yielded before it, in which case it's skipped rather than
+   * re-rendered, or `false` to render every yielded value regardless. Defaults to `Object.is`.
+   */
+  isEqual?: IsEqualOpt;
+
+  /**
+   * A render function that is called on every progression in any of the running iterations, returning
+   * something to render for them.
+   *
+   * @param iterationStates - A `Map` or an object (according to the form of the `values` prop) of the iteration state objects of all sources, under their corresponding keys (see {@link IterationResultMap `IterationResultMap`}).
+   * @returns The content to render for the current iteration states.
+   */
+  children: (iterationStates: IterationResultMap<TVals, TDefaultInitVal>) => ReactNode;
+};
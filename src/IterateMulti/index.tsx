@@ -2,6 +2,9 @@ import { type ReactNode } from 'react';
 import { type Writable } from '../common/Writable.js';
 import { useAsyncIterMulti, type IterationResultSet } from '../useAsyncIterMulti/index.js';
 import { type MaybeFunction } from '../common/MaybeFunction.js';
+import { type RetryPolicy } from '../common/RetryPolicy.js';
+import { type RenderScheduling } from '../common/RenderScheduling.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
 import { type iterateFormatted } from '../iterateFormatted/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
 
 export { IterateMulti, type IterateMultiProps };
@@ -159,6 +162,10 @@ function IterateMulti<
   const nexts = useAsyncIterMulti(props.values, {
     initialValues: props.initialValues,
     defaultInitialValue: props.defaultInitialValue,
+    retry: props.retry,
+    throwOnError: props.throwOnError,
+    scheduling: props.scheduling,
+    isEqual: props.isEqual,
   });
   return props.children(nexts);
 }
@@ -199,6 +206,41 @@ type IterateMultiProps<
    */
   defaultInitialValue?: TDefaultInitVal;
 
+  /**
+   * An _optional_ policy for retrying the iteration of any of the async iterables from `values` that
+   * ends with an error, by obtaining a fresh iterator from it after a delay (see
+   * {@link RetryPolicy `RetryPolicy`}). When given, the individual iteration states also include the
+   * `retryCount` and `isRetrying` properties.
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Whether to rethrow an error that any of the async iterables from `values` ends with during
+   * render, letting the nearest error boundary catch it. Can also be given a function, which gets
+   * called with the error and returns whether it should be rethrown. Defaults to `false`.
+   *
+   * Once the error boundary resets and re-mounts `<IterateMulti>`, fresh iterations are started over
+   * the same async iterables.
+   */
+  throwOnError?: MaybeFunction<boolean, [error: unknown]>;
+
+  /**
+   * Determines how re-renders in reaction to values yielded in rapid succession from any of the
+   * async iterables from `values` are scheduled - either on every yield (`'sync'`, the default), at
+   * most once per animation frame (`'animationFrame'`) or at most once per time interval
+   * (`{ throttleMs }`), rendering only the latest values each time (see
+   * {@link RenderScheduling `RenderScheduling`}).
+   */
+  scheduling?: RenderScheduling;
+
+  /**
+   * An _optional_ function that determines whether a value yielded by any of the async iterables
+   * from `values` is equal to the one it yielded before it, in which case it's skipped rather than
+   * re-rendered (e.g. `shallowEqual` or `deepEqual`), or `false` to render every yielded value
+   * regardless. Defaults to `Object.is`.
+   */
+  isEqual?: IsEqualOpt;
+
   /**
    * A render function that is called on every progression in any of the running iterations, returning
    * something to render for them.
@@ -0,0 +1,6 @@
+import { createContext } from 'react';
+import { type AsyncIterSsrState } from '../createAsyncIterSsrState/index.js';
+
+export { AsyncIterSsrContext };
+
+const AsyncIterSsrContext = createContext<AsyncIterSsrState | undefined>(undefined);
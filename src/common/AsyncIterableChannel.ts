@@ -1,34 +1,76 @@
 import { type MaybeFunction } from './MaybeFunction.js';
 import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
-import { promiseWithResolvers } from './promiseWithResolvers.js';
+import { promiseWithResolvers, type PromiseWithResolvers } from './promiseWithResolvers.js';
 import { callWithArgsOrReturn } from './callWithArgsOrReturn.js';
 
-export { AsyncIterableChannel, type AsyncIterableChannelSubject };
+export { AsyncIterableChannel, type AsyncIterableChannelSubject, type AsyncIterStateDelivery };
 
 class AsyncIterableChannel<T, TInit = T> {
   #isClosed = false;
-  #nextIteration = promiseWithResolvers<IteratorResult<T, void>>();
+  #isFlushScheduled = false;
   #currentValue: T | TInit;
+  #delivery: AsyncIterStateDelivery;
+  #subscribers = new Set<ChannelSubscriber<T>>();
 
-  constructor(initialValue: TInit) {
+  constructor(initialValue: TInit, delivery: AsyncIterStateDelivery = 'latest') {
     this.#currentValue = initialValue;
+    this.#delivery = delivery;
   }
 
   put(update: MaybeFunction<T, [prevState: T | TInit]>): void {
     if (this.#isClosed) {
       return;
     }
+
+    this.#currentValue = callWithArgsOrReturn(update, this.#currentValue);
+
+    if (typeof this.#delivery === 'object') {
+      for (const subscriber of this.#subscribers) {
+        this.#deliver(subscriber, this.#currentValue as T);
+      }
+      return;
+    }
+
+    if (this.#isFlushScheduled) {
+      return;
+    }
+    this.#isFlushScheduled = true;
+
     (async () => {
-      this.#currentValue = callWithArgsOrReturn(update, this.#currentValue);
       await undefined; // Deferring to the next microtick so that an attempt to pull the a value before making multiple rapid synchronous calls to `put()` will make that pull ultimately yield only the last value that was put - instead of the first one as were if this otherwise wasn't deferred.
-      this.#nextIteration.resolve({ done: false, value: this.#currentValue });
-      this.#nextIteration = promiseWithResolvers();
+      this.#isFlushScheduled = false;
+      if (!this.#isClosed) {
+        for (const subscriber of this.#subscribers) {
+          this.#deliver(subscriber, this.#currentValue as T);
+        }
+      }
     })();
   }
 
   close(): void {
     this.#isClosed = true;
-    this.#nextIteration.resolve({ done: true, value: undefined });
+    for (const subscriber of this.#subscribers) {
+      subscriber.pendingPull?.resolve({ done: true, value: undefined });
+      subscriber.pendingPull = undefined;
+    }
+    this.#subscribers.clear();
+  }
+
+  #deliver(subscriber: ChannelSubscriber<T>, value: T): void {
+    if (subscriber.pendingPull) {
+      subscriber.pendingPull.resolve({ done: false, value });
+      subscriber.pendingPull = undefined;
+      if (typeof this.#delivery !== 'object') {
+        this.#subscribers.delete(subscriber);
+      }
+      return;
+    }
+    if (typeof this.#delivery === 'object') {
+      subscriber.queue.push(value);
+      if (subscriber.queue.length > this.#delivery.buffer) {
+        subscriber.queue.shift();
+      }
+    }
   }
 
   out: AsyncIterableChannelSubject<T, TInit> = {
@@ -42,14 +84,44 @@ class AsyncIterableChannel<T, TInit = T> {
     })(),
 
     [Symbol.asyncIterator]: () => {
-      const whenIteratorClosed = promiseWithResolvers<IteratorReturnResult<undefined>>();
+      const subscriber: ChannelSubscriber<T> = { queue: [], pendingPull: undefined };
+      let isIteratorClosed = false;
+      let isReplayPending = this.#delivery === 'replayCurrent';
+
+      // In "latest" modes, an iterator is only kept subscribed while it has a pending pull (so that any abandoned iterators can simply get garbage collected), whereas in "buffer" mode it is kept subscribed for its entire lifetime so that it doesn't miss any value
+      if (typeof this.#delivery === 'object') {
+        if (!this.#isClosed) {
+          this.#subscribers.add(subscriber);
+        }
+      }
+
       return {
         next: () => {
-          // TODO: Should every iterator of this kind here yield `this.#currentValue` first?...
-          return Promise.race([this.#nextIteration.promise, whenIteratorClosed.promise]);
+          if (isReplayPending) {
+            isReplayPending = false;
+            if (!isIteratorClosed) {
+              return Promise.resolve({ done: false, value: this.#currentValue as T });
+            }
+          }
+          if (subscriber.queue.length) {
+            return Promise.resolve({ done: false, value: subscriber.queue.shift()! });
+          }
+          if (this.#isClosed || isIteratorClosed) {
+            return Promise.resolve({ done: true, value: undefined });
+          }
+          if (!subscriber.pendingPull) {
+            subscriber.pendingPull = promiseWithResolvers();
+            this.#subscribers.add(subscriber);
+          }
+          return subscriber.pendingPull.promise;
         },
+
         return: async () => {
-          whenIteratorClosed.resolve({ done: true, value: undefined });
+          isIteratorClosed = true;
+          this.#subscribers.delete(subscriber);
+          subscriber.queue.length = 0;
+          subscriber.pendingPull?.resolve({ done: true, value: undefined });
+          subscriber.pendingPull = undefined;
           return { done: true, value: undefined };
         },
       };
@@ -57,6 +129,30 @@ class AsyncIterableChannel<T, TInit = T> {
   };
 }
 
+type ChannelSubscriber<T> = {
+  queue: T[];
+  pendingPull: undefined | PromiseWithResolvers<IteratorResult<T, void>>;
+};
+
+/**
+ * Determines how values put into a state iterable are delivered to its iterators:
+ *
+ * - `'latest'` (the default) - iterators pick up only the latest value that was put the moment they
+ * pull their next value. Multiple values put in rapid succession (e.g. synchronously) are coalesced
+ * into the last of them, and an iterator that's not currently pulling (or that was created after the
+ * fact) misses them.
+ *
+ * - `'replayCurrent'` - like `'latest'`, but every newly created iterator first yields the current
+ * state value (as of its first pull, being the initial value if none was put so far), so that
+ * iterations beginning later on don't need to wait for the next update.
+ *
+ * - `{ buffer: number }` - every value put into the state is queued up for each iterator
+ * individually, so that none of them are missed, even when put in rapid succession. Each iterator
+ * holds up to `buffer` values that it did not pull yet, dropping the oldest ones beyond that. Suited
+ * for event-like streams where every single value should be observed, such as logs.
+ */
+type AsyncIterStateDelivery = 'latest' | 'replayCurrent' | { buffer: number };
+
 /**
  * A stateful async iterable which will yield every updated value following an update. Includes a
  * `.value.current` property which shows the current up to date state value.
@@ -0,0 +1,8 @@
+export { type IsEqualOpt };
+
+/**
+ * Either a function that determines whether a value yielded by an async iterable is equal to the
+ * one yielded before it (in which case it's skipped rather than re-rendered), or `false` to have
+ * every yielded value rendered regardless.
+ */
+type IsEqualOpt = false | ((prevValue: any, nextValue: any) => boolean);
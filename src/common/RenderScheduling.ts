@@ -0,0 +1,36 @@
+import { type IterationResult } from '../useAsyncIter/index.js';
+
+export { isUrgentIterationChange, type RenderScheduling };
+
+/**
+ * Determines whether a change in an iteration's state should be rendered right away regardless of
+ * any {@link RenderScheduling `RenderScheduling`} - which is the case for anything other than just
+ * a subsequent value being yielded (i.e. the first value, completion, errors and retries).
+ */
+function isUrgentIterationChange(
+  prevState: Pick<IterationResult<any, any>, 'pendingFirst' | 'done' | 'isRetrying'>,
+  nextState: Pick<IterationResult<any, any>, 'pendingFirst' | 'done' | 'isRetrying'>
+): boolean {
+  return (
+    nextState.done ||
+    prevState.pendingFirst !== nextState.pendingFirst ||
+    !!prevState.isRetrying !== !!nextState.isRetrying
+  );
+}
+
+/**
+ * Determines how re-renders in reaction to values yielded by an async iterable are scheduled:
+ *
+ * - `'sync'` (the default) - re-renders on every yielded value.
+ *
+ * - `'animationFrame'` - re-renders at most once per animation frame, with only the latest value
+ * yielded since the previous re-render.
+ *
+ * - `{ throttleMs: number }` - re-renders at most once every `throttleMs` milliseconds, with only the
+ * latest value yielded since the previous re-render. The first value yielded after a quiet period is
+ * rendered right away, and the last value yielded during a throttling interval is rendered at its end.
+ *
+ * Any change other than a subsequent value being yielded - the first value yielded, completion,
+ * errors and retries - is always rendered right away, flushing any value held back at that point.
+ */
+type RenderScheduling = 'sync' | 'animationFrame' | { throttleMs: number };
@@ -0,0 +1,67 @@
+export { resolveRetryDelay, type RetryPolicy };
+
+/**
+ * Returns the delay (in milliseconds) to wait before attempting the given retry attempt number
+ * according to `policy`, or `undefined` if no further retry should be attempted for `error`.
+ */
+function resolveRetryDelay(
+  policy: RetryPolicy,
+  error: unknown,
+  attemptNum: number
+): number | undefined {
+  const {
+    maxAttempts = 3,
+    delayMs = 1000,
+    backoffFactor = 2,
+    maxDelayMs = 30_000,
+    shouldRetry,
+  } = policy;
+
+  if (attemptNum > maxAttempts || (shouldRetry && !shouldRetry(error, attemptNum))) {
+    return undefined;
+  }
+
+  return Math.min(delayMs * backoffFactor ** (attemptNum - 1), maxDelayMs);
+}
+
+/**
+ * A policy for re-iterating async iterables that end with an error, by obtaining a new iterator
+ * from the same async iterable (calling its `[Symbol.asyncIterator]()` method again) after some delay.
+ *
+ * Delays grow exponentially in between consecutive attempts; given the default values - the first
+ * retry will be attempted after 1 second, the second after 2 seconds, the third after 4 seconds and
+ * so on, up to {@link RetryPolicy.maxDelayMs `maxDelayMs`}.
+ *
+ * Attempts are counted consecutively - once a retried iteration succeeds in yielding a value, the count
+ * resets back to zero, so that {@link RetryPolicy.maxAttempts `maxAttempts`} limits only the
+ * number of retries in a row that fail before yielding anything.
+ */
+type RetryPolicy = {
+  /**
+   * The maximum number of consecutive retries to attempt before giving up and ending with the error.
+   * Defaults to `3`.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The delay in milliseconds before the first retry attempt. Defaults to `1000`.
+   */
+  delayMs?: number;
+
+  /**
+   * The factor by which the delay is multiplied for each further consecutive attempt. Defaults to `2`.
+   * Pass `1` for a constant delay.
+   */
+  backoffFactor?: number;
+
+  /**
+   * The upper limit for the delay in milliseconds between attempts. Defaults to `30000`.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * An _optional_ predicate that is called with the error and the upcoming attempt number (starting
+   * from `1`), deciding whether to retry or to end with the error.
+   */
+  shouldRetry?: (error: unknown, attemptNum: number) => boolean;
+};
@@ -0,0 +1,23 @@
+import { fromObservable } from '../observableInterop/fromObservable.js';
+import { isObservableInterop } from './observableSymbol.js';
+
+export { asyncIterFromObservableInterop };
+
+const convertedObservables = new WeakMap<object, AsyncIterable<unknown>>();
+
+/**
+ * Returns an async iterable converted via `fromObservable` for any given `Symbol.observable`
+ * interop object, or otherwise the given input as-is. Conversions are cached per observable, so
+ * passing the same observable repeatedly (e.g. on every render) yields the same iterable reference.
+ */
+function asyncIterFromObservableInterop<T>(input: T): T | AsyncIterable<unknown> {
+  if (!isObservableInterop(input) || typeof (input as any)[Symbol.asyncIterator] === 'function') {
+    return input;
+  }
+  let iterable = convertedObservables.get(input);
+  if (!iterable) {
+    iterable = fromObservable(input as any);
+    convertedObservables.set(input, iterable);
+  }
+  return iterable;
+}
@@ -3,16 +3,16 @@ export { asyncIterSyncMap };
 function asyncIterSyncMap<TIn, TOut>(
   source: AsyncIterable<TIn>,
   mapFn: (val: TIn, i: number) => TOut
-): AsyncIterable<TOut, void, void> {
+): AsyncIterable<TOut, void, unknown> {
   return {
     [Symbol.asyncIterator]: () => {
       let iterator: AsyncIterator<TIn>;
       let iterationIdx = 0;
 
       return {
-        next: async () => {
+        next: async (...input: [] | [unknown]) => {
           iterator ??= source[Symbol.asyncIterator]();
-          const next = await iterator.next();
+          const next = await iterator.next(...input); // Forwarding any input given to `.next(input)` onto the source iterator as-is
           if (next.done) {
             return next;
           }
@@ -0,0 +1,210 @@
+export {
+  devtoolsRegistry,
+  type IterationTracker,
+  type SharedSourceTracker,
+  type DevtoolsSnapshot,
+  type DevtoolsIterationEntry,
+  type DevtoolsSharedSourceEntry,
+};
+
+const maxRetainedEndedEntries = 100;
+
+let isEnabled = false;
+let nextEntryId = 1;
+let nextSourceId = 1;
+const sourceLabels = new WeakMap<object, string>();
+const iterationEntries = new Map<number, DevtoolsIterationEntry>();
+const sharedSourceEntries = new Map<number, DevtoolsSharedSourceEntry>();
+const listeners = new Set<() => void>();
+let snapshot: DevtoolsSnapshot = { iterations: [], sharedSources: [] };
+
+const devtoolsRegistry = {
+  isEnabled: (): boolean => isEnabled,
+
+  setEnabled: (enabled: boolean): void => {
+    isEnabled = enabled;
+    if (!enabled) {
+      iterationEntries.clear();
+      sharedSourceEntries.clear();
+      notify();
+    }
+  },
+
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  getSnapshot: (): DevtoolsSnapshot => snapshot,
+
+  /**
+   * Records a newly started iteration of the given source, returning a tracker to report its
+   * progress through, or `undefined` if devtools are not enabled.
+   */
+  trackIteration: (
+    source: AsyncIterable<unknown>,
+    owner: string | undefined
+  ): undefined | IterationTracker => {
+    if (!isEnabled) {
+      return;
+    }
+
+    const id = nextEntryId++;
+
+    const update = (patch: Partial<DevtoolsIterationEntry>): void => {
+      const entry = iterationEntries.get(id);
+      if (entry) {
+        iterationEntries.set(id, { ...entry, ...patch });
+        if (patch.endedAt !== undefined) {
+          pruneEnded(iterationEntries, entry => entry.endedAt !== undefined);
+        }
+        notify();
+      }
+    };
+
+    iterationEntries.set(id, {
+      id,
+      sourceLabel: labelSource(source),
+      owner,
+      status: 'active',
+      yieldCount: 0,
+      lastValue: undefined,
+      error: undefined,
+      startedAt: Date.now(),
+      endedAt: undefined,
+    });
+    notify();
+
+    return {
+      yielded: value =>
+        update({
+          status: 'active',
+          yieldCount: iterationEntries.get(id)!.yieldCount + 1,
+          lastValue: value,
+        }),
+      retrying: error => update({ status: 'retrying', error }),
+      completed: () => update({ status: 'done', endedAt: Date.now() }),
+      errored: error => update({ status: 'errored', error, endedAt: Date.now() }),
+      closed: () => {
+        if (iterationEntries.get(id)?.endedAt === undefined) {
+          update({ status: 'closed', endedAt: Date.now() });
+        }
+      },
+    };
+  },
+
+  /**
+   * Records a newly shared source, returning a tracker to report its subscriber count changes
+   * through, or `undefined` if devtools are not enabled.
+   */
+  trackSharedSource: (source: AsyncIterable<unknown>): undefined | SharedSourceTracker => {
+    if (!isEnabled) {
+      return;
+    }
+
+    const id = nextEntryId++;
+
+    sharedSourceEntries.set(id, {
+      id,
+      sourceLabel: labelSource(source),
+      subscriberCount: 0,
+      totalSubscriptions: 0,
+      lastSubscriberLeftAt: undefined,
+    });
+    notify();
+
+    return {
+      subscribersChanged: (count: number) => {
+        const entry = sharedSourceEntries.get(id);
+        if (entry) {
+          sharedSourceEntries.set(id, {
+            ...entry,
+            subscriberCount: count,
+            totalSubscriptions: entry.totalSubscriptions + (count > entry.subscriberCount ? 1 : 0),
+            lastSubscriberLeftAt: count === 0 ? Date.now() : entry.lastSubscriberLeftAt,
+          });
+          pruneEnded(sharedSourceEntries, entry => entry.subscriberCount === 0);
+          notify();
+        }
+      },
+    };
+  },
+};
+
+function notify(): void {
+  snapshot = {
+    iterations: [...iterationEntries.values()],
+    sharedSources: [...sharedSourceEntries.values()],
+  };
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+function pruneEnded<TEntry>(
+  entries: Map<number, TEntry>,
+  isEnded: (entry: TEntry) => boolean
+): void {
+  let endedCount = 0;
+  for (const entry of entries.values()) {
+    if (isEnded(entry)) {
+      endedCount++;
+    }
+  }
+  for (const [id, entry] of entries) {
+    if (endedCount <= maxRetainedEndedEntries) {
+      break;
+    }
+    if (isEnded(entry)) {
+      entries.delete(id);
+      endedCount--;
+    }
+  }
+}
+
+function labelSource(source: AsyncIterable<unknown>): string {
+  let label = sourceLabels.get(source);
+  if (!label) {
+    const typeName = Object.prototype.toString.call(source).slice(8, -1); // e.g. "[object AsyncGenerator]" -> "AsyncGenerator"
+    label = `${typeName === 'Object' ? 'AsyncIterable' : typeName}#${nextSourceId++}`;
+    sourceLabels.set(source, label);
+  }
+  return label;
+}
+
+type IterationTracker = {
+  yielded(value: unknown): void;
+  retrying(error: unknown): void;
+  completed(): void;
+  errored(error: unknown): void;
+  closed(): void;
+};
+
+type SharedSourceTracker = {
+  subscribersChanged(count: number): void;
+};
+
+type DevtoolsSnapshot = {
+  iterations: DevtoolsIterationEntry[];
+  sharedSources: DevtoolsSharedSourceEntry[];
+};
+
+type DevtoolsIterationEntry = {
+  id: number;
+  sourceLabel: string;
+  owner: string | undefined;
+  status: 'active' | 'retrying' | 'done' | 'errored' | 'closed';
+  yieldCount: number;
+  lastValue: unknown;
+  error: unknown;
+  startedAt: number;
+  endedAt: number | undefined;
+};
+
+type DevtoolsSharedSourceEntry = {
+  id: number;
+  sourceLabel: string;
+  subscriberCount: number;
+  totalSubscriptions: number;
+  lastSubscriberLeftAt: number | undefined;
+};
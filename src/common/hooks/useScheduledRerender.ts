@@ -0,0 +1,83 @@
+import { useEffect } from 'react';
+import { useLatest } from './useLatest.js';
+import { useRefWithInitialValue } from './useRefWithInitialValue.js';
+import { type RenderScheduling } from '../RenderScheduling.js';
+
+export { useScheduledRerender };
+
+/**
+ * Wraps a given re-render function so that calls to it get coalesced according to the given
+ * {@link RenderScheduling `RenderScheduling`}, unless called as urgent - in which case any pending
+ * re-render is dropped and it's re-rendered right away. Any pending re-render is dropped on unmount.
+ */
+function useScheduledRerender(
+  rerender: () => void,
+  scheduling: RenderScheduling | undefined
+): (isUrgent: boolean) => void {
+  const latestRef = useLatest({ rerender, scheduling });
+
+  const ref = useRefWithInitialValue(() => {
+    let cancelPending: undefined | (() => void);
+    let hasTrailingRerender = false;
+
+    const cancel = (): void => {
+      cancelPending?.();
+      cancelPending = undefined;
+      hasTrailingRerender = false;
+    };
+
+    const startThrottleWindow = (ms: number): void => {
+      const timeoutId = setTimeout(() => {
+        cancelPending = undefined;
+        if (hasTrailingRerender) {
+          hasTrailingRerender = false;
+          latestRef.current.rerender();
+          startThrottleWindow(ms);
+        }
+      }, ms);
+      cancelPending = () => clearTimeout(timeoutId);
+    };
+
+    const scheduleRerender = (isUrgent: boolean): void => {
+      const { rerender, scheduling } = latestRef.current;
+
+      if (isUrgent || !scheduling || scheduling === 'sync') {
+        cancel();
+        rerender();
+        return;
+      }
+
+      if (scheduling === 'animationFrame') {
+        cancelPending ??= scheduleOnNextFrame(() => {
+          cancelPending = undefined;
+          latestRef.current.rerender();
+        });
+        return;
+      }
+
+      if (cancelPending) {
+        hasTrailingRerender = true;
+      } else {
+        rerender();
+        startThrottleWindow(scheduling.throttleMs);
+      }
+    };
+
+    return { scheduleRerender, cancel };
+  });
+
+  useEffect(() => {
+    return () => ref.current.cancel();
+  }, []);
+
+  return ref.current.scheduleRerender;
+}
+
+function scheduleOnNextFrame(callback: () => void): () => void {
+  if (typeof requestAnimationFrame === 'function') {
+    const frameId = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(frameId);
+  }
+  const timeoutId = setTimeout(callback, 16); // Roughly a frame's length at 60 FPS, for environments that don't support `requestAnimationFrame`
+  return () => clearTimeout(timeoutId);
+}
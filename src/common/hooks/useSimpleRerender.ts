@@ -1,8 +0,0 @@
-import { useState } from 'react';
-
-export { useSimpleRerender };
-
-function useSimpleRerender(): () => void {
-  const [, setMockCount] = useState(0);
-  return () => setMockCount(count => count + 1);
-}
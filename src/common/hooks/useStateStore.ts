@@ -0,0 +1,69 @@
+import { useReducer, useEffect } from 'react';
+import { useRefWithInitialValue } from './useRefWithInitialValue.js';
+import { type useSyncExternalStoreCompat } from './useSyncExternalStoreCompat.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { useStateStore, type StateStore };
+
+/**
+ * Creates a store for state that's kept outside of React and gets updated from outside of render -
+ * such as iteration states updated from the callbacks of an ongoing iteration - persisting for the
+ * lifetime of the host component.
+ *
+ * The component should render from the store's snapshot, obtained by passing its `subscribe` and
+ * `getSnapshot` to {@link useSyncExternalStoreCompat `useSyncExternalStoreCompat`} (`getSnapshot`
+ * doubling as the server snapshot).
+ *
+ * Updates from outside of render are made by assigning `current` and then calling `notify` (possibly
+ * deferred). Normally, `notify` requests the re-render as a regular state update of the component,
+ * so React keeps batching consecutive updates into a single render that reads the most recent
+ * snapshot. Only if called while a render of the component is yet to be committed (such as a
+ * concurrent render caused by a `startTransition`, which might have read an older snapshot already)
+ * are the store's subscribers notified instead - making React discard that render and re-render
+ * synchronously rather than commit a torn result. Assigning `current` during render, ahead of
+ * reading the snapshot, takes effect in that same render with no need for notifying.
+ */
+function useStateStore<T>(getInitialState: () => T): StateStore<T> {
+  const [, requestRender] = useReducer((count: number) => count + 1, 0);
+
+  const ref = useRefWithInitialValue(() => {
+    const listeners = new Set<() => void>();
+
+    const ref: { hasUncommittedRender: boolean; store: StateStore<T> } = {
+      hasUncommittedRender: false,
+      store: {
+        current: getInitialState(),
+        subscribe: onStoreChange => {
+          listeners.add(onStoreChange);
+          return () => listeners.delete(onStoreChange);
+        },
+        getSnapshot: () => ref.store.current,
+        notify: () => {
+          if (!ref.hasUncommittedRender) {
+            requestRender();
+            return;
+          }
+          for (const listener of listeners) {
+            listener();
+          }
+        },
+      },
+    };
+
+    return ref;
+  }).current;
+
+  ref.hasUncommittedRender = true;
+
+  useEffect(() => {
+    ref.hasUncommittedRender = false;
+  });
+
+  return ref.store;
+}
+
+type StateStore<T> = {
+  current: T;
+  subscribe: (onStoreChange: () => void) => () => void;
+  getSnapshot: () => T;
+  notify: () => void;
+};
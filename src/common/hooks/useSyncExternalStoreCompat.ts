@@ -0,0 +1,36 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+
+export { useSyncExternalStoreCompat };
+
+/**
+ * React's native [`useSyncExternalStore`](https://react.dev/reference/react/useSyncExternalStore)
+ * where available (React 18 and up), falling back to a minimal `useState`/`useEffect` based
+ * implementation of it on older React versions, which lack concurrent rendering anyway.
+ */
+const useSyncExternalStoreCompat: <T>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => T,
+  getServerSnapshot?: () => T
+) => T =
+  (React as Partial<typeof React>).useSyncExternalStore ??
+  function useSyncExternalStoreFallback<T>(
+    subscribe: (onStoreChange: () => void) => () => void,
+    getSnapshot: () => T
+  ): T {
+    const snapshot = getSnapshot();
+    const [, setMockCount] = useState(0);
+
+    useEffect(() => {
+      const forceUpdateIfChanged = (): void => {
+        if (!Object.is(getSnapshot(), snapshot)) {
+          setMockCount(count => count + 1);
+        }
+      };
+      const unsubscribe = subscribe(forceUpdateIfChanged);
+      forceUpdateIfChanged(); // In case the store had changed already in between rendering and subscribing
+      return unsubscribe;
+    }, [subscribe, getSnapshot, snapshot]);
+
+    return snapshot;
+  };
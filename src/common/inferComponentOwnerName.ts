@@ -0,0 +1,18 @@
+export { inferComponentOwnerName };
+
+/**
+ * Makes a best-effort guess of the name of the component currently rendering, by looking for the
+ * nearest stack frame of a function named in PascalCase (as components are conventionally named).
+ * Meant for debugging purposes only - results depend on the JS engine and may be unavailable for
+ * minified code.
+ */
+function inferComponentOwnerName(): string | undefined {
+  const stackLines = new Error().stack?.split('\n') ?? [];
+
+  for (const line of stackLines) {
+    const match = /^\s*(?:at\s+)?(?:Object\.)?([A-Z][\w$]*)\s*[@(]/.exec(line); // Covers both V8's "    at MyComponent (...)" and SpiderMonkey/JSC's "MyComponent@..." stack line formats
+    if (match) {
+      return match[1];
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { devtoolsRegistry } from '../devtoolsRegistry.js';
+
 export { asyncIterShare };
 
 function asyncIterShare<T>(): (srcIter: AsyncIterable<T>) => AsyncIterable<T> {
@@ -6,6 +8,7 @@ function asyncIterShare<T>(): (srcIter: AsyncIterable<T>) => AsyncIterable<T> {
     let prevSourceIteratorActiveTearDownPromise: undefined | Promise<unknown>;
     let nextPromise: undefined | Promise<IteratorResult<T, undefined>>;
     let activeSubIteratorsCount = 0;
+    const devtoolsTracker = devtoolsRegistry.trackSharedSource(srcIter);
 
     return {
       [Symbol.asyncIterator]() {
@@ -15,6 +18,7 @@ function asyncIterShare<T>(): (srcIter: AsyncIterable<T>) => AsyncIterable<T> {
         if (++activeSubIteratorsCount === 1) {
           sharedSourceIterator = srcIter[Symbol.asyncIterator]();
         }
+        devtoolsTracker?.subscribersChanged(activeSubIteratorsCount);
 
         return {
           async next() {
@@ -33,6 +37,7 @@ function asyncIterShare<T>(): (srcIter: AsyncIterable<T>) => AsyncIterable<T> {
           async return() {
             if (!iteratorClosed) {
               iteratorClosed = true;
+              devtoolsTracker?.subscribersChanged(activeSubIteratorsCount - 1);
               if (--activeSubIteratorsCount === 0) {
                 await (prevSourceIteratorActiveTearDownPromise ??= (async () => {
                   try {
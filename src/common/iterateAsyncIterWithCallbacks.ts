@@ -1,51 +1,128 @@
-export { iterateAsyncIterWithCallbacks, type EndIterationFn };
+import { resolveRetryDelay, type RetryPolicy } from './RetryPolicy.js';
+import { devtoolsRegistry } from './devtoolsRegistry.js';
+import { type IsEqualOpt } from './IsEqualOpt.js';
+import { type IterationMetadata } from './iterationMetadata.js';
+
+export { iterateAsyncIterWithCallbacks, type EndIterationFn, type IterationChange };
 
 function iterateAsyncIterWithCallbacks<T>(
   iterable: AsyncIterable<T>,
   initialValue: T,
-  changeCb: (
-    change: { value: T } & (
-      | {
-          done: false;
-          error: undefined;
-        }
-      | {
-          done: true;
-          error: unknown;
-        }
-    )
-  ) => void
+  changeCb: (change: IterationChange<T>) => void,
+  opts?: {
+    retry?: RetryPolicy;
+    manual?: boolean;
+    isEqual?: IsEqualOpt;
+    metadata?: IterationMetadata;
+    devtools?: {
+      source: AsyncIterable<unknown>;
+      owner: string | undefined;
+    };
+  }
 ): EndIterationFn {
-  const iterator = iterable[Symbol.asyncIterator]();
+  const retryPolicy = opts?.retry;
+  const isEqual = opts?.isEqual ?? Object.is;
+  const metadata = opts?.metadata && { ...opts.metadata };
+  const devtoolsTracker = devtoolsRegistry.trackIteration(
+    opts?.devtools?.source ?? iterable,
+    opts?.devtools?.owner
+  );
+  let iterator = iterable[Symbol.asyncIterator]();
   let iteratorClosedByConsumer = false;
   let lastValue = initialValue;
+  let retryCount = 0;
+  let retryDelayTimeoutId: undefined | ReturnType<typeof setTimeout>;
+  let resolvePendingAdvance: undefined | ((input: unknown) => void);
 
-  (async () => {
-    try {
-      const { done, value } = await iterator.next();
+  const advance = (input?: unknown): void => {
+    const resolve = resolvePendingAdvance;
+    resolvePendingAdvance = undefined;
+    resolve?.(input); // Any calls made while not awaiting an advance (e.g. while the next value is still being pulled) are ignored
+  };
 
-      if (iteratorClosedByConsumer) {
-        return;
+  const emitChange = (change: IterationChange<T>, isRetrying = false): void => {
+    if (metadata) {
+      if (change.done) {
+        metadata.endedAt = Date.now();
+      } else if (!isRetrying) {
+        metadata.iterationIndex++;
+        metadata.lastYieldAt = Date.now();
       }
+    }
+    changeCb({
+      ...change,
+      ...(retryPolicy && { retryCount, isRetrying }),
+      ...(opts?.manual && { advance }),
+      ...metadata,
+    });
+  };
+
+  (async () => {
+    while (true) {
+      try {
+        const { done, value } = await iterator.next();
 
-      if (!done) {
-        lastValue = value;
-        changeCb({ value, done: false, error: undefined }); // Ensuring the first yield is exempt from the "different from previous value" check
+        if (iteratorClosedByConsumer) {
+          return;
+        }
+
+        if (!done) {
+          devtoolsTracker?.yielded(value);
+          lastValue = value;
+          retryCount = 0;
+          emitChange({ value, done: false, error: undefined }); // Ensuring the first yield is exempt from the "different from previous value" check
 
-        for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
-          if (!iteratorClosedByConsumer && !Object.is(value, lastValue)) {
-            lastValue = value;
-            changeCb({ value, done: false, error: undefined });
+          if (!opts?.manual) {
+            for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+              devtoolsTracker?.yielded(value);
+              if (!iteratorClosedByConsumer && !(isEqual && isEqual(lastValue, value))) {
+                lastValue = value;
+                emitChange({ value, done: false, error: undefined });
+              }
+            }
+          } else {
+            while (true) {
+              const input = await new Promise(resolve => {
+                resolvePendingAdvance = resolve;
+              });
+              const next = await iterator.next(input);
+              if (iteratorClosedByConsumer || next.done) {
+                break;
+              }
+              devtoolsTracker?.yielded(next.value);
+              lastValue = next.value;
+              emitChange({ value: next.value, done: false, error: undefined }); // Every manually advanced value is emitted, even if identical to the previous one, as each one represents a distinct step
+            }
           }
         }
-      }
 
-      if (!iteratorClosedByConsumer) {
-        changeCb({ value: lastValue, done: true, error: undefined });
-      }
-    } catch (err) {
-      if (!iteratorClosedByConsumer) {
-        changeCb({ value: lastValue, done: true, error: err });
+        if (!iteratorClosedByConsumer) {
+          devtoolsTracker?.completed();
+          emitChange({ value: lastValue, done: true, error: undefined });
+        }
+        return;
+      } catch (err) {
+        if (iteratorClosedByConsumer) {
+          return;
+        }
+
+        const retryDelay = retryPolicy && resolveRetryDelay(retryPolicy, err, retryCount + 1);
+
+        if (retryDelay === undefined) {
+          devtoolsTracker?.errored(err);
+          emitChange({ value: lastValue, done: true, error: err });
+          return;
+        }
+
+        retryCount++;
+        devtoolsTracker?.retrying(err);
+        emitChange({ value: lastValue, done: false, error: undefined }, true);
+
+        await new Promise(resolve => {
+          retryDelayTimeoutId = setTimeout(resolve, retryDelay);
+        });
+
+        iterator = iterable[Symbol.asyncIterator]();
       }
     }
   })();
@@ -53,9 +130,32 @@ function iterateAsyncIterWithCallbacks<T>(
   return () => {
     if (!iteratorClosedByConsumer) {
       iteratorClosedByConsumer = true;
+      resolvePendingAdvance = undefined;
+      devtoolsTracker?.closed();
+      clearTimeout(retryDelayTimeoutId);
       iterator.return?.();
     }
   };
 }
 
+type IterationChange<T> = {
+  value: T;
+  retryCount?: number;
+  isRetrying?: boolean;
+  advance?: (input?: unknown) => void;
+  iterationIndex?: number;
+  startedAt?: number;
+  lastYieldAt?: number;
+  endedAt?: number;
+} & (
+  | {
+      done: false;
+      error: undefined;
+    }
+  | {
+      done: true;
+      error: unknown;
+    }
+);
+
 type EndIterationFn = () => void;
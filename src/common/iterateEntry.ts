@@ -0,0 +1,109 @@
+import { type IterationResult } from '../useAsyncIter/index.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { asyncIterSyncMap } from './asyncIterSyncMap.js';
+import { parseReactAsyncIterable } from './ReactAsyncIterable.js';
+import { iterateAsyncIterWithCallbacks } from './iterateAsyncIterWithCallbacks.js';
+import { type RetryPolicy } from './RetryPolicy.js';
+import { type IsEqualOpt } from './IsEqualOpt.js';
+import { initialIterationMetadata } from './iterationMetadata.js';
+
+export { iterateEntry, type IterationEntry, type IterationStateChange };
+
+/**
+ * Starts iterating a single async iterable (possibly a formatted one) as an entry of a collection
+ * of iterated inputs, such as those hooked up by `useAsyncIterMulti` or `useAsyncIterMap`.
+ *
+ * The returned entry holds the current iteration state, updated with every change before calling
+ * `onChange`, and the format function applied to yielded values - which the caller should replace
+ * whenever the same source gets passed in with a different format function, so that it applies to
+ * subsequent yields. Calling the entry's `destroy` ends the iteration.
+ *
+ * @param input The async iterable to iterate.
+ * @param getFallbackStartingValue Called for the starting value in case the iterable has no current value of its own (a `.value.current` property).
+ * @param onChange Called with the previous and next state upon every change of the iteration state.
+ * @param opts Options for the iteration, as given to the hook.
+ */
+function iterateEntry(
+  input: AsyncIterable<unknown>,
+  getFallbackStartingValue: () => unknown,
+  onChange: (change: IterationStateChange) => void,
+  opts: {
+    retry?: RetryPolicy;
+    isEqual?: IsEqualOpt;
+    metadata?: boolean;
+    devtoolsOwner?: string;
+  }
+): IterationEntry {
+  const { baseIter, formatFn } = parseReactAsyncIterable(input);
+
+  const inputWithMaybeCurrentValue = input as typeof input & {
+    value?: AsyncIterableSubject<unknown>['value'];
+  };
+
+  let iterationIdx: number;
+  let pendingFirst: boolean;
+  let startingValue;
+
+  if (inputWithMaybeCurrentValue.value) {
+    iterationIdx = 1; // If source has a current value, it should have been the "first iteration" already, so in that case the right up next one here is *the second* already (index of 1)
+    pendingFirst = false;
+    startingValue = inputWithMaybeCurrentValue.value.current;
+  } else {
+    iterationIdx = 0;
+    pendingFirst = true;
+    startingValue = getFallbackStartingValue();
+  }
+
+  const metadata = opts.metadata ? initialIterationMetadata(!pendingFirst) : undefined;
+
+  const formattedIter: AsyncIterable<unknown> = asyncIterSyncMap(baseIter, value =>
+    entry.formatFn(value, iterationIdx++)
+  );
+
+  const destroy = iterateAsyncIterWithCallbacks(
+    formattedIter,
+    startingValue,
+    next => {
+      const prevState = entry.currState;
+      entry.currState = {
+        pendingFirst: next.isRetrying ? prevState.pendingFirst : false,
+        ...next,
+      } as IterationResult<unknown, unknown>;
+      onChange({ prevState, nextState: entry.currState });
+    },
+    {
+      retry: opts.retry,
+      isEqual: opts.isEqual,
+      metadata,
+      devtools: { source: baseIter, owner: opts.devtoolsOwner },
+    }
+  );
+
+  const entry: IterationEntry = {
+    baseIter,
+    formatFn,
+    currState: {
+      value: startingValue,
+      pendingFirst,
+      done: false as const,
+      error: undefined,
+      ...(opts.retry && { retryCount: 0, isRetrying: false }),
+      ...metadata,
+    } as IterationResult<unknown, unknown>,
+    destroy,
+  };
+
+  return entry;
+}
+
+type IterationEntry = {
+  baseIter: AsyncIterable<unknown>;
+  formatFn: (value: unknown, i: number) => unknown;
+  currState: IterationResult<unknown, unknown>;
+  destroy: () => void;
+};
+
+type IterationStateChange = {
+  prevState: IterationResult<unknown, unknown>;
+  nextState: IterationResult<unknown, unknown>;
+};
@@ -0,0 +1,18 @@
+export { initialIterationMetadata, type IterationMetadata };
+
+function initialIterationMetadata(hasCurrentValue: boolean): IterationMetadata {
+  const now = Date.now();
+  return {
+    iterationIndex: hasCurrentValue ? 0 : -1,
+    startedAt: now,
+    lastYieldAt: hasCurrentValue ? now : undefined,
+    endedAt: undefined,
+  };
+}
+
+type IterationMetadata = {
+  iterationIndex: number;
+  startedAt: number;
+  lastYieldAt: number | undefined;
+  endedAt: number | undefined;
+};
@@ -0,0 +1,24 @@
+export { memoizeLast };
+
+/**
+ * Wraps a function so that calling it again with the same arguments (each compared by `Object.is`)
+ * as the previous call returns the previous result instead of calling it again. Suited for derived
+ * `.value.current` getters, which may be read any number of times and should neither re-run user
+ * code nor return a new object on every read while the underlying current value stays the same.
+ */
+function memoizeLast<TArgs extends unknown[], TResult>(
+  fn: (...args: TArgs) => TResult
+): (...args: TArgs) => TResult {
+  let last: undefined | { args: TArgs; result: TResult };
+
+  return (...args) => {
+    if (
+      !last ||
+      last.args.length !== args.length ||
+      last.args.some((arg, i) => !Object.is(arg, args[i]))
+    ) {
+      last = { args, result: fn(...args) };
+    }
+    return last.result;
+  };
+}
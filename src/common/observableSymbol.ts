@@ -0,0 +1,14 @@
+export { observableSymbol, isObservableInterop };
+
+/**
+ * The well-known key by which objects expose themselves as observables for interop between
+ * libraries - `Symbol.observable` where available (e.g. if polyfilled), or else the conventional
+ * `'@@observable'` string (the same resolution RxJS, Redux and others apply).
+ */
+const observableSymbol: symbol | '@@observable' =
+  (typeof Symbol === 'function' && (Symbol as { observable?: symbol }).observable) ||
+  '@@observable';
+
+function isObservableInterop(input: unknown): input is object {
+  return typeof (input as any)?.[observableSymbol] === 'function';
+}
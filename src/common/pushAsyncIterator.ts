@@ -0,0 +1,113 @@
+import { promiseWithResolvers, type PromiseWithResolvers } from './promiseWithResolvers.js';
+
+export { pushAsyncIterator, type PushSink };
+
+/**
+ * Creates an async iterator out of a push-based producer. The given `start` function is called upon
+ * the first `.next()` call, getting a {@link PushSink `PushSink`} to push values, an error or a
+ * completion into. Pushed values are queued up until pulled by the consumer.
+ *
+ * The teardown function `start` may return is called exactly once - either as soon as the producer
+ * pushes an error or a completion, or when the iterator gets closed by the consumer via `.return()`.
+ * Anything pushed after that point is ignored.
+ */
+function pushAsyncIterator<T>(start: (sink: PushSink<T>) => void | (() => void)): {
+  next(): Promise<IteratorResult<T, undefined>>;
+  return(): Promise<IteratorReturnResult<undefined>>;
+} {
+  let isStarted = false;
+  let isEnded = false;
+  let teardown: void | (() => void);
+  let pendingPull: undefined | PromiseWithResolvers<IteratorResult<T, undefined>>;
+  const queue: ({ value: T } | { error: unknown } | { done: true })[] = [];
+
+  const end = (): void => {
+    if (!isEnded) {
+      isEnded = true;
+      teardown?.();
+    }
+  };
+
+  const settle = (item: (typeof queue)[number]): void => {
+    if (!pendingPull) {
+      queue.push(item);
+      return;
+    }
+    const { resolve, reject } = pendingPull;
+    pendingPull = undefined;
+    if ('value' in item) {
+      resolve({ done: false, value: item.value });
+    } else if ('error' in item) {
+      reject(item.error);
+    } else {
+      resolve({ done: true, value: undefined });
+    }
+  };
+
+  const sink: PushSink<T> = {
+    next: value => {
+      if (!isEnded) {
+        settle({ value });
+      }
+    },
+    error: error => {
+      if (!isEnded) {
+        settle({ error });
+        end();
+      }
+    },
+    complete: () => {
+      if (!isEnded) {
+        settle({ done: true });
+        end();
+      }
+    },
+  };
+
+  return {
+    async next() {
+      if (!isStarted) {
+        isStarted = true;
+        teardown = start(sink);
+        if (isEnded) {
+          teardown?.(); // In case the producer had already ended synchronously during `start()`, before it even got to return its teardown function
+        }
+      }
+
+      const item = queue.shift();
+
+      if (item) {
+        if ('value' in item) {
+          return { done: false, value: item.value };
+        }
+        if ('error' in item) {
+          throw item.error;
+        }
+        return { done: true, value: undefined };
+      }
+
+      if (isEnded) {
+        return { done: true, value: undefined };
+      }
+
+      pendingPull = promiseWithResolvers();
+      return pendingPull.promise;
+    },
+
+    async return() {
+      queue.length = 0;
+      end();
+      if (pendingPull) {
+        pendingPull.resolve({ done: true, value: undefined });
+        pendingPull = undefined;
+      }
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+type PushSink<T> = {
+  next(value: T): void;
+  error(error: unknown): void;
+  complete(): void;
+};
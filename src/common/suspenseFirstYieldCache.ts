@@ -0,0 +1,86 @@
+export { readFirstYieldOrSuspend, takeSuspendedIteration, type FirstYieldOutcome };
+
+const pendingSuspendedIterations = new WeakMap<AsyncIterable<unknown>, SuspendedIteration>();
+
+/**
+ * How long a suspended iteration whose first `.next()` had settled is kept cached waiting to be
+ * taken over by a committed component, before it's considered abandoned.
+ */
+const abandonedIterationTimeoutMs = 5000;
+
+/**
+ * Returns the outcome of pulling the first value out of the given `source` if it had already
+ * settled, otherwise throws a promise for it (as expected by `React.Suspense`).
+ *
+ * The first time this is called for a particular `source`, an iterator is obtained from it and its
+ * first `.next()` gets pulled. The iterator is kept cached against `source` until it is taken over
+ * via {@link takeSuspendedIteration `takeSuspendedIteration`} so that the iteration can be resumed
+ * from the same point after the suspending component eventually mounts, instead of losing the already
+ * pulled first value to a fresh iterator.
+ *
+ * If the suspending render gets abandoned (e.g. its tree is unmounted before ever committing), no
+ * component is going to take the iteration over - so if it isn't taken over within a few seconds
+ * since its first `.next()` had settled, it's evicted from the cache and its iterator is closed, so
+ * that a later suspension on the same source starts afresh rather than resuming a stale iteration.
+ */
+function readFirstYieldOrSuspend(source: AsyncIterable<unknown>): FirstYieldOutcome {
+  let suspended = pendingSuspendedIterations.get(source);
+
+  if (!suspended) {
+    const iterator = source[Symbol.asyncIterator]();
+    const newSuspended: SuspendedIteration = {
+      iterator,
+      outcome: undefined,
+      abandonTimeoutId: undefined,
+      promise: iterator
+        .next()
+        .then(
+          (next): FirstYieldOutcome =>
+            next.done
+              ? { done: true, value: undefined, error: undefined }
+              : { done: false, value: next.value, error: undefined },
+          (err): FirstYieldOutcome => ({ done: true, value: undefined, error: err })
+        )
+        .then(outcome => {
+          newSuspended.outcome = outcome;
+          newSuspended.abandonTimeoutId = setTimeout(() => {
+            if (pendingSuspendedIterations.get(source) === newSuspended) {
+              pendingSuspendedIterations.delete(source);
+              if (!outcome.done) {
+                iterator.return?.();
+              }
+            }
+          }, abandonedIterationTimeoutMs);
+        }),
+    };
+    pendingSuspendedIterations.set(source, (suspended = newSuspended));
+  }
+
+  if (!suspended.outcome) {
+    throw suspended.promise;
+  }
+
+  return suspended.outcome;
+}
+
+/**
+ * Removes and returns a cached iteration for the given `source` (that was previously started by
+ * {@link readFirstYieldOrSuspend `readFirstYieldOrSuspend`}), if any exists.
+ */
+function takeSuspendedIteration(source: AsyncIterable<unknown>): undefined | SuspendedIteration {
+  const suspended = pendingSuspendedIterations.get(source);
+  pendingSuspendedIterations.delete(source);
+  clearTimeout(suspended?.abandonTimeoutId);
+  return suspended;
+}
+
+type SuspendedIteration = {
+  iterator: AsyncIterator<unknown>;
+  promise: Promise<void>;
+  outcome: undefined | FirstYieldOutcome;
+  abandonTimeoutId: undefined | ReturnType<typeof setTimeout>;
+};
+
+type FirstYieldOutcome =
+  | { done: false; value: unknown; error: undefined }
+  | { done: true; value: undefined; error: unknown };
@@ -0,0 +1,26 @@
+import { type MaybeFunction } from './MaybeFunction.js';
+import { callWithArgsOrReturn } from './callWithArgsOrReturn.js';
+
+export { throwIfIterationErrored, type ThrowOnErrorOpt };
+
+/**
+ * Rethrows the error of the first of the given iteration states that ended with an error, if
+ * `throwOnError` allows. Errors are recognized by a defined `error` property on a `done` state, so
+ * an iteration that errored with an `undefined` error is indistinguishable from a completed one and
+ * is never rethrown.
+ */
+function throwIfIterationErrored(
+  iterationStates: readonly { done: boolean; error: unknown }[],
+  throwOnError: undefined | ThrowOnErrorOpt
+): void {
+  if (!throwOnError) {
+    return;
+  }
+  for (const { done, error } of iterationStates) {
+    if (done && error !== undefined && callWithArgsOrReturn(throwOnError, error)) {
+      throw error;
+    }
+  }
+}
+
+type ThrowOnErrorOpt = MaybeFunction<boolean, [error: unknown]>;
@@ -1,23 +1,28 @@
 import { useEffect } from 'react';
 import { type IterationResult } from '../../useAsyncIter/index.js';
-import { type AsyncIterableSubject } from '../../AsyncIterableSubject/index.js';
 import { type Writable } from '../Writable.js';
 import { useRefWithInitialValue } from '../hooks/useRefWithInitialValue.js';
 import { isAsyncIter } from '../isAsyncIter.js';
 import { callOrReturn } from '../callOrReturn.js';
-import { asyncIterSyncMap } from '../asyncIterSyncMap.js';
 import { parseReactAsyncIterable } from '../ReactAsyncIterable.js';
-import { iterateAsyncIterWithCallbacks } from '../iterateAsyncIterWithCallbacks.js';
+import { iterateEntry, type IterationEntry, type IterationStateChange } from '../iterateEntry.js';
+import { type RetryPolicy } from '../RetryPolicy.js';
+import { type IsEqualOpt } from '../IsEqualOpt.js';
+import { devtoolsRegistry } from '../devtoolsRegistry.js';
+import { inferComponentOwnerName } from '../inferComponentOwnerName.js';
 
-export { useAsyncItersImperatively, type IterationResultSet };
+export { useAsyncItersImperatively, type IterationResultSet, type IterationStateChange };
 
 const useAsyncItersImperatively: {
   <const TInputs extends readonly unknown[]>(
     inputs: TInputs,
-    onYieldCb: (vals: IterationResultSet<TInputs>) => void,
+    onYieldCb: (vals: IterationResultSet<TInputs>, change: IterationStateChange) => void,
     opts?: {
       initialValues?: undefined;
       defaultInitialValue?: undefined;
+      retry?: RetryPolicy;
+      isEqual?: IsEqualOpt;
+      metadata?: boolean;
     }
   ): IterationResultSet<TInputs>;
 
@@ -26,19 +31,25 @@ const useAsyncItersImperatively: {
     const TInitVals extends readonly unknown[] = readonly [],
   >(
     inputs: TInputs,
-    onYieldCb: (vals: IterationResultSet<TInputs>) => void,
+    onYieldCb: (vals: IterationResultSet<TInputs>, change: IterationStateChange) => void,
     opts: {
       initialValues: TInitVals;
       defaultInitialValue?: undefined;
+      retry?: RetryPolicy;
+      isEqual?: IsEqualOpt;
+      metadata?: boolean;
     }
   ): IterationResultSet<TInputs, TInitVals>;
 
   <const TInputs extends readonly unknown[], const TDefaultInitValue = undefined>(
     inputs: TInputs,
-    onYieldCb: (vals: IterationResultSet<TInputs>) => void,
+    onYieldCb: (vals: IterationResultSet<TInputs>, change: IterationStateChange) => void,
     opts: {
       initialValues?: undefined;
       defaultInitialValue: TDefaultInitValue;
+      retry?: RetryPolicy;
+      isEqual?: IsEqualOpt;
+      metadata?: boolean;
     }
   ): IterationResultSet<TInputs, [], TDefaultInitValue>;
 
@@ -48,10 +59,13 @@ const useAsyncItersImperatively: {
     const TDefaultInitValue = undefined,
   >(
     inputs: TInputs,
-    onYieldCb: (vals: IterationResultSet<TInputs>) => void,
+    onYieldCb: (vals: IterationResultSet<TInputs>, change: IterationStateChange) => void,
     opts: {
       initialValues: TInitVals;
       defaultInitialValue: TDefaultInitValue;
+      retry?: RetryPolicy;
+      isEqual?: IsEqualOpt;
+      metadata?: boolean;
     }
   ): IterationResultSet<TInputs, TInitVals, TDefaultInitValue>;
 } = <
@@ -60,29 +74,31 @@ const useAsyncItersImperatively: {
   const TDefaultInitValue = undefined,
 >(
   inputs: TInputs,
-  onYieldCb: (vals: IterationResultSet<TInputs, TInitVals, TDefaultInitValue>) => void,
+  onYieldCb: (
+    vals: IterationResultSet<TInputs, TInitVals, TDefaultInitValue>,
+    change: IterationStateChange
+  ) => void,
   opts?: {
     initialValues?: TInitVals;
     defaultInitialValue?: TDefaultInitValue;
+    retry?: RetryPolicy;
+    isEqual?: IsEqualOpt;
+    metadata?: boolean;
   }
 ): IterationResultSet<TInputs, TInitVals, TDefaultInitValue> => {
   const optsNormed = {
     initialValues: opts?.initialValues ?? [],
     defaultInitialValue: opts?.defaultInitialValue,
+    retry: opts?.retry,
+    isEqual: opts?.isEqual,
+    metadata: opts?.metadata,
   };
 
   const ref = useRefWithInitialValue(() => ({
+    devtoolsOwner: devtoolsRegistry.isEnabled() ? inferComponentOwnerName() : undefined,
     currDiffCompId: 0,
     currResults: [] as IterationResultSet<TInputs, TInitVals, TDefaultInitValue>,
-    activeItersMap: new Map<
-      AsyncIterable<unknown>,
-      {
-        diffCompId: number;
-        destroy: () => void;
-        formatFn: (value: unknown, i: number) => unknown;
-        currState: IterationResult<unknown, unknown>;
-      }
-    >(),
+    activeItersMap: new Map<AsyncIterable<unknown>, IterationEntry & { diffCompId: number }>(),
   }));
 
   const { activeItersMap } = ref.current;
@@ -120,57 +136,35 @@ const useAsyncItersImperatively: {
       return existingIterState.currState;
     }
 
-    const inputWithMaybeCurrentValue = input as typeof input & {
-      value?: AsyncIterableSubject<unknown>['value'];
-    };
-
-    let iterationIdx: number;
-    let pendingFirst: boolean;
-    let startingValue;
-
-    if (inputWithMaybeCurrentValue.value) {
-      iterationIdx = 1; // If source has a current value, it should have been the "first iteration" already, so in that case the right up next one here is *the second* already (index of 1)
-      pendingFirst = false;
-      startingValue = inputWithMaybeCurrentValue.value.current;
-    } else {
-      iterationIdx = 0;
-      pendingFirst = true;
-      startingValue =
-        i < ref.current.currResults.length
-          ? ref.current.currResults[i].value
-          : callOrReturn(
-              i < optsNormed.initialValues.length
-                ? optsNormed.initialValues[i]
-                : optsNormed.defaultInitialValue
-            );
-    }
-
-    const formattedIter: AsyncIterable<unknown> = asyncIterSyncMap(baseIter, value =>
-      iterState.formatFn(value, iterationIdx++)
+    const iterState = Object.assign(
+      iterateEntry(
+        input,
+        () =>
+          i < ref.current.currResults.length
+            ? ref.current.currResults[i].value
+            : callOrReturn(
+                i < optsNormed.initialValues.length
+                  ? optsNormed.initialValues[i]
+                  : optsNormed.defaultInitialValue
+              ),
+        change => {
+          ref.current.currResults = (() => {
+            const newResults = ref.current.currResults.slice(0); // Using `.slice(0)` in attempt to copy the array faster than `[...ref.current.currResults]` would
+            newResults[i] = change.nextState;
+            return newResults as typeof ref.current.currResults;
+          })();
+          onYieldCb(ref.current.currResults, change);
+        },
+        {
+          retry: optsNormed.retry,
+          isEqual: optsNormed.isEqual,
+          metadata: optsNormed.metadata,
+          devtoolsOwner: ref.current.devtoolsOwner,
+        }
+      ),
+      { diffCompId: nextDiffCompId }
     );
 
-    const destroyFn = iterateAsyncIterWithCallbacks(formattedIter, startingValue, next => {
-      iterState.currState = { pendingFirst: false, ...next };
-      ref.current.currResults = (() => {
-        const newResults = ref.current.currResults.slice(0); // Using `.slice(0)` in attempt to copy the array faster than `[...ref.current.currResults]` would
-        newResults[i] = iterState.currState;
-        return newResults as typeof ref.current.currResults;
-      })();
-      onYieldCb(ref.current.currResults);
-    });
-
-    const iterState = {
-      diffCompId: nextDiffCompId,
-      destroy: destroyFn,
-      formatFn,
-      currState: {
-        value: startingValue,
-        pendingFirst,
-        done: false as const,
-        error: undefined,
-      } as IterationResult<unknown, unknown>,
-    };
-
     activeItersMap.set(baseIter, iterState);
 
     return iterState.currState;
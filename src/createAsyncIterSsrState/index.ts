@@ -0,0 +1,199 @@
+import { parseReactAsyncIterable } from '../common/ReactAsyncIterable.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { type AsyncIterSsrProvider } from '../AsyncIterSsrProvider/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type UseAsyncIterOpts } from '../useAsyncIter/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { createAsyncIterSsrState, type AsyncIterSsrState, type AsyncIterSsrPrefetchOpts };
+
+/**
+ * Creates a container for values of async iterables to be resolved ahead of server-side rendering,
+ * serialized into the rendered HTML, and then used for hydrating the same components on the client.
+ *
+ * Since effects never run on the server, hooks and components like `useAsyncIter` and `<It>` never
+ * get to iterate anything during server-side rendering, which would otherwise always show their
+ * initial values. With an SSR state provided via {@link AsyncIterSsrProvider `<AsyncIterSsrProvider>`},
+ * every `useAsyncIter` or `<It>` given an `ssrKey` (see {@link UseAsyncIterOpts.ssrKey `ssrKey`})
+ * renders with the value resolved for that key, with `pendingFirst` as `false` - first on the server,
+ * and then again on the client's hydration render, so the markup matches.
+ *
+ * @example
+ * ```tsx
+ * // On the server:
+ *
+ * import { renderToString } from 'react-dom/server';
+ * import { createAsyncIterSsrState, AsyncIterSsrProvider } from 'react-async-iterators';
+ *
+ * const ssrState = createAsyncIterSsrState();
+ *
+ * // Either register sources explicitly, or let a first render pass register the ones it encounters
+ * ssrState.register('todos', todosIter);
+ * await ssrState.prefetch();
+ *
+ * const html = renderToString(
+ *   <AsyncIterSsrProvider state={ssrState}>
+ *     <App />
+ *   </AsyncIterSsrProvider>
+ * );
+ *
+ * res.send(`
+ *   <div id="root">${html}</div>
+ *   <script>window.__ASYNC_ITER_SSR__ = ${JSON.stringify(ssrState.serialize())}</script>
+ * `);
+ *
+ * // On the client:
+ *
+ * import { hydrateRoot } from 'react-dom/client';
+ *
+ * const ssrState = createAsyncIterSsrState(window.__ASYNC_ITER_SSR__);
+ *
+ * hydrateRoot(
+ *   document.getElementById('root'),
+ *   <AsyncIterSsrProvider state={ssrState}>
+ *     <App />
+ *   </AsyncIterSsrProvider>
+ * );
+ *
+ * // In some component:
+ *
+ * <It value={todosIter} ssrKey="todos">
+ *   {({ value: todos }) => <TodoList todos={todos} />}
+ * </It>
+ * ```
+ *
+ * ---
+ *
+ * Values are resolved from the async iterables' __original__ sources, so for iterables formatted via
+ * `iterateFormatted` the raw values are the ones that are serialized, and formatting is applied anew
+ * when rendering. Resolved values therefore need to be JSON-serializable.
+ *
+ * ---
+ *
+ * @param serialized An _optional_ serialized SSR state, as produced by a server-side {@link AsyncIterSsrState.serialize `.serialize()`} call, to be hydrated from on the client.
+ *
+ * @returns An SSR state object (see {@link AsyncIterSsrState `AsyncIterSsrState`}).
+ *
+ * @see {@link AsyncIterSsrProvider `<AsyncIterSsrProvider>`}
+ */
+function createAsyncIterSsrState(serialized?: string): AsyncIterSsrState {
+  const resolvedValues = new Map<string, unknown>(
+    serialized === undefined ? [] : Object.entries(JSON.parse(serialized))
+  );
+  const pendingSources = new Map<string, AsyncIterable<unknown>>();
+
+  return {
+    register: (key, source) => {
+      if (!resolvedValues.has(key)) {
+        pendingSources.set(key, parseReactAsyncIterable(source).baseIter);
+      }
+    },
+
+    get: key => (resolvedValues.has(key) ? { value: resolvedValues.get(key) } : undefined),
+
+    prefetch: async opts => {
+      const sources = [...pendingSources];
+      pendingSources.clear();
+
+      await Promise.all(
+        sources.map(async ([key, source]) => {
+          const resolved = await resolveSourceValue(source, opts);
+          if (resolved) {
+            resolvedValues.set(key, resolved.value);
+          }
+        })
+      );
+    },
+
+    serialize: () => JSON.stringify(Object.fromEntries(resolvedValues)).replace(/</g, '\\u003c'), // Escaping any `<` so the serialized state can be safely embedded inside a `<script>` tag
+  };
+}
+
+async function resolveSourceValue(
+  source: AsyncIterable<unknown> & { value?: AsyncIterableSubject<unknown>['value'] },
+  opts: undefined | AsyncIterSsrPrefetchOpts
+): Promise<undefined | { value: unknown }> {
+  if (source.value) {
+    return { value: source.value.current };
+  }
+
+  const { yields = 1, timeoutMs } = opts ?? {};
+  const iterator = source[Symbol.asyncIterator]();
+  let timeoutId: undefined | ReturnType<typeof setTimeout>;
+  let lastYield: undefined | { value: unknown };
+
+  const timeoutPromise = new Promise<'timed_out'>(resolve => {
+    if (timeoutMs !== undefined) {
+      timeoutId = setTimeout(() => resolve('timed_out'), timeoutMs);
+    }
+  });
+
+  try {
+    for (let i = 0; i < yields; ++i) {
+      const next = await Promise.race([iterator.next(), timeoutPromise]);
+      if (next === 'timed_out' || next.done) {
+        break;
+      }
+      lastYield = { value: next.value };
+    }
+  } catch {
+    // An erroring source is simply left unresolved, to be iterated as usual on the client
+  } finally {
+    clearTimeout(timeoutId);
+    iterator.return?.();
+  }
+
+  return lastYield;
+}
+
+/**
+ * A container for values of async iterables resolved ahead of server-side rendering, created by
+ * {@link createAsyncIterSsrState `createAsyncIterSsrState`}.
+ */
+type AsyncIterSsrState = {
+  /**
+   * Registers an async iterable under a given key, to be resolved by the next
+   * {@link AsyncIterSsrState.prefetch `.prefetch()`} call. Has no effect if a value is already
+   * resolved for that key.
+   *
+   * Hooks and components given an `ssrKey` register their async iterables automatically as they
+   * render, so alternatively to registering explicitly, a first render pass can be made on the server
+   * to register all encountered sources before prefetching.
+   */
+  register(key: string, source: AsyncIterable<unknown>): void;
+
+  /**
+   * Gets the value resolved for a given key, wrapped in an object, or `undefined` if none is
+   * resolved for it.
+   */
+  get(key: string): undefined | { value: unknown };
+
+  /**
+   * Resolves a value for every registered async iterable not resolved yet - either its current value
+   * if it has one (a `.value.current` property), or otherwise the last of its first N yields (see
+   * {@link AsyncIterSsrPrefetchOpts `AsyncIterSsrPrefetchOpts`}), closing its iterator afterwards.
+   * Async iterables which complete or error out without yielding are left unresolved.
+   */
+  prefetch(opts?: AsyncIterSsrPrefetchOpts): Promise<void>;
+
+  /**
+   * Serializes all resolved values into a JSON string, escaped to be safely embedded into HTML (e.g.
+   * inside a `<script>` tag), to be passed to
+   * {@link createAsyncIterSsrState `createAsyncIterSsrState`} on the client.
+   */
+  serialize(): string;
+};
+
+/**
+ * Options for {@link AsyncIterSsrState.prefetch `AsyncIterSsrState.prefetch`}.
+ */
+type AsyncIterSsrPrefetchOpts = {
+  /**
+   * How many values to pull from each async iterable, of which the last one is taken. Defaults to `1`.
+   */
+  yields?: number;
+
+  /**
+   * An _optional_ maximum duration in milliseconds to wait for an async iterable's values, after which
+   * the last value it yielded so far is taken (if any).
+   */
+  timeoutMs?: number;
+};
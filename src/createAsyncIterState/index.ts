@@ -0,0 +1,149 @@
+import { callOrReturn } from '../common/callOrReturn.js';
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+import { type Iterate } from '../Iterate/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type useAsyncIterState } from '../useAsyncIterState/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import {
+  AsyncIterableChannel,
+  type AsyncIterableChannelSubject,
+  type AsyncIterStateDelivery,
+} from '../common/AsyncIterableChannel.js';
+
+export {
+  createAsyncIterState,
+  type CreatedAsyncIterState,
+  type AsyncIterStateOpts,
+  type AsyncIterStateDelivery,
+};
+
+/**
+ * A framework-agnostic counterpart of {@link useAsyncIterState `useAsyncIterState`} - creates a piece
+ * of state __wrapped in an async iterable__, which can be created anywhere (e.g. in plain modules,
+ * services or tests) rather than only inside React components.
+ *
+ * @example
+ * ```tsx
+ * // In some plain module:
+ *
+ * import { createAsyncIterState } from 'react-async-iterators';
+ *
+ * export const [connectionStatusIter, setConnectionStatus, closeConnectionStatus] =
+ *   createAsyncIterState<'online' | 'offline'>('online');
+ *
+ * window.addEventListener('offline', () => setConnectionStatus('offline'));
+ * window.addEventListener('online', () => setConnectionStatus('online'));
+ *
+ * // In some component:
+ *
+ * import { It } from 'react-async-iterators';
+ * import { connectionStatusIter } from './connectionStatus.js';
+ *
+ * function ConnectionIndicator() {
+ *   return <It value={connectionStatusIter}>{({ value }) => <span>{value}</span>}</It>;
+ * }
+ * ```
+ *
+ * ---
+ *
+ * The returned async iterable is a shared iterable, yielding every updated state value to all its
+ * active iterators simultaneously. It also contains a `.value.current` property which shows the
+ * current up to date state value at any time, which hooks and components like
+ * {@link Iterate `<Iterate>`} pick up as their initial value.
+ *
+ * Returned alongside the async iterable is a function for updating the state (to which you can pass
+ * the next state directly, or a function that calculates it from the previous state), and a function
+ * for closing the state iterable - upon which all its active iterators complete and any further
+ * updates are ignored.
+ *
+ * Unlike with {@link useAsyncIterState `useAsyncIterState`}, nothing closes the state iterable
+ * automatically - it stays open until `close` is called.
+ *
+ * By default, iterators pick up only the latest state value at the time they pull, coalescing rapid
+ * successive updates. This can be changed via the `delivery` option (see
+ * {@link AsyncIterStateDelivery `AsyncIterStateDelivery`}), for example for event-like streams in
+ * which every single value must be observed:
+ *
+ * @example
+ * ```ts
+ * import { createAsyncIterState } from 'react-async-iterators';
+ *
+ * const [logLinesIter, pushLogLine] = createAsyncIterState<string>(undefined, {
+ *   delivery: { buffer: 1000 },
+ * });
+ * ```
+ *
+ * ---
+ *
+ * @template TVal the type of state to be set and yielded by returned iterable.
+ * @template TInitVal The type of the starting value for the state iterable's `.value.current` property.
+ *
+ * @param initialValue Any optional starting value for the state iterable's `.value.current` property, defaults to `undefined`. You can pass an actual value, or a function that returns a value (which will be called once right away).
+ * @param opts An _optional_ object with options (see {@link AsyncIterStateOpts `AsyncIterStateOpts`}).
+ *
+ * @returns a stateful async iterable, a function for yielding an update and a function for closing the iterable.
+ *
+ * @see {@link useAsyncIterState `useAsyncIterState`}
+ */
+function createAsyncIterState<TVal>(): CreatedAsyncIterState<TVal, undefined>;
+
+function createAsyncIterState<TVal>(
+  initialValue: MaybeFunction<TVal>,
+  opts?: AsyncIterStateOpts
+): CreatedAsyncIterState<TVal, TVal>;
+
+function createAsyncIterState<TVal, TInitVal = undefined>(
+  initialValue: MaybeFunction<TInitVal>,
+  opts?: AsyncIterStateOpts
+): CreatedAsyncIterState<TVal, TInitVal>;
+
+function createAsyncIterState<TVal, TInitVal>(
+  initialValue?: MaybeFunction<TInitVal>,
+  opts?: AsyncIterStateOpts
+): CreatedAsyncIterState<TVal, TInitVal> {
+  const initialValueCalced = callOrReturn(initialValue)!;
+  const channel = new AsyncIterableChannel<TVal, TInitVal>(initialValueCalced, opts?.delivery);
+  return [channel.out, newVal => channel.put(newVal), () => channel.close()];
+}
+
+/**
+ * Options for {@link createAsyncIterState `createAsyncIterState`} and
+ * {@link useAsyncIterState `useAsyncIterState`}.
+ */
+type AsyncIterStateOpts = {
+  /**
+   * How values put into the state are delivered to the state iterable's iterators, defaults to
+   * `'latest'` (see {@link AsyncIterStateDelivery `AsyncIterStateDelivery`}).
+   */
+  delivery?: AsyncIterStateDelivery;
+};
+
+/**
+ * A tuple of a stateful async iterable, a function which updates the state and making the paired
+ * async iterable yield the new value, and a function which closes the async iterable.
+ * Returned from {@link createAsyncIterState `createAsyncIterState`}.
+ *
+ * @see {@link createAsyncIterState `createAsyncIterState`}
+ */
+type CreatedAsyncIterState<TVal, TInitVal> = [
+  /**
+   * A stateful async iterable which yields every updated value following a state update.
+   *
+   * Includes a `.value.current` property which shows the current up to date state value at all times.
+   *
+   * This is a shared async iterable - all iterators obtained from it share the same source values,
+   * meaning multiple iterators can be consumed (iterated) simultaneously, each one picking up the
+   * same values as others the moment they were generated through state updates.
+   */
+  values: AsyncIterableChannelSubject<TVal, TInitVal>,
+
+  /**
+   * A function which updates the state, causing the paired async iterable to yield the updated state
+   * value and immediately sets its `.value.current` property to the latest state.
+   */
+  setValue: (update: MaybeFunction<TVal, [prevState: TVal | TInitVal]>) => void,
+
+  /**
+   * A function which closes the paired async iterable, completing all its active iterators. Any
+   * subsequent state updates are ignored.
+   */
+  close: () => void,
+];
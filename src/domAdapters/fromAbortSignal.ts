@@ -0,0 +1,57 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+
+export { fromAbortSignal };
+
+/**
+ * Creates an async iterable that tracks whether the given
+ * [`AbortSignal`](https://developer.mozilla.org/en-US/docs/Web/API/AbortSignal) is aborted - it
+ * yields `true` once the signal gets aborted and then completes. If the signal is already aborted,
+ * iterators complete right away.
+ *
+ * The returned iterable is an {@link AsyncIterableSubject `AsyncIterableSubject`}, so the signal's
+ * current state is readable at any time through `.value.current`.
+ *
+ * Every iterator obtained from the returned iterable registers its own abort listener lazily, upon
+ * its first `.next()` call, and removes it as soon as it gets closed via `.return()`.
+ *
+ * @example
+ * ```tsx
+ * import { It, fromAbortSignal } from 'react-async-iterators';
+ *
+ * function UploadStatus(props: { signal: AbortSignal }) {
+ *   return (
+ *     <It value={fromAbortSignal(props.signal)}>
+ *       {({ value: isAborted }) => (isAborted ? 'Upload canceled' : 'Uploading...')}
+ *     </It>
+ *   );
+ * }
+ * ```
+ *
+ * @param signal The abort signal to track.
+ *
+ * @returns An async iterable subject of whether the signal is aborted.
+ */
+function fromAbortSignal(signal: AbortSignal): AsyncIterableSubject<boolean> {
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<boolean>(sink => {
+        if (signal.aborted) {
+          sink.complete();
+          return;
+        }
+        const listener = (): void => {
+          sink.next(true);
+          sink.complete();
+        };
+        signal.addEventListener('abort', listener);
+        return () => signal.removeEventListener('abort', listener);
+      }),
+
+    value: {
+      get current() {
+        return signal.aborted;
+      },
+    },
+  };
+}
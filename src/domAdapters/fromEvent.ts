@@ -0,0 +1,49 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { type useSharedAsyncIter } from '../useSharedAsyncIter/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { fromEvent };
+
+/**
+ * Creates an async iterable that yields every event of the given type dispatched on the given
+ * [`EventTarget`](https://developer.mozilla.org/en-US/docs/Web/API/EventTarget) (such as a DOM
+ * element, `window` or `document`).
+ *
+ * Every iterator obtained from the returned iterable registers its own event listener lazily, upon
+ * its first `.next()` call, and removes it as soon as it gets closed via `.return()` - so the
+ * iterable can be iterated by any number of consumers and composes with
+ * {@link useSharedAsyncIter `useSharedAsyncIter`} for sharing a single listener among them. Events
+ * dispatched while the consumer is busy are queued up until pulled.
+ *
+ * @example
+ * ```tsx
+ * import { It, fromEvent } from 'react-async-iterators';
+ *
+ * const windowResizes = fromEvent(window, 'resize');
+ *
+ * function WindowWidth() {
+ *   return <It value={windowResizes}>{() => window.innerWidth}</It>;
+ * }
+ * ```
+ *
+ * @template TEvent The type of the yielded events, defaults to `Event`.
+ *
+ * @param target The event target to listen on.
+ * @param type The type of events to listen for (e.g. `'click'`).
+ * @param opts _Optional_ listener options, as accepted by [`addEventListener`](https://developer.mozilla.org/en-US/docs/Web/API/EventTarget/addEventListener#options).
+ *
+ * @returns An async iterable of the dispatched events.
+ */
+function fromEvent<TEvent extends Event = Event>(
+  target: EventTarget,
+  type: string,
+  opts?: AddEventListenerOptions
+): AsyncIterable<TEvent> {
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<TEvent>(sink => {
+        const listener = (event: Event): void => sink.next(event as TEvent);
+        target.addEventListener(type, listener, opts);
+        return () => target.removeEventListener(type, listener, opts);
+      }),
+  };
+}
@@ -0,0 +1,79 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+
+export { fromMediaQuery };
+
+/**
+ * Creates an async iterable that yields whether the given
+ * [media query](https://developer.mozilla.org/en-US/docs/Web/CSS/CSS_media_queries/Using_media_queries)
+ * matches, every time that changes.
+ *
+ * The returned iterable is an {@link AsyncIterableSubject `AsyncIterableSubject`}, so its current
+ * match state is readable at any time through `.value.current` - hooks and components such as
+ * `useAsyncIter` and `<It>` read it synchronously on mount, rendering with the actual state right
+ * away rather than in a `pendingFirst` state.
+ *
+ * Every iterator obtained from the returned iterable registers its own change listener lazily, upon
+ * its first `.next()` call, and removes it as soon as it gets closed via `.return()`.
+ *
+ * Where there's no `window` to match the query against (such as during server-side rendering),
+ * `.value.current` reads as `opts.serverValue` instead (`false` by default), so it's safe to
+ * create and render with the returned iterable on the server as well. When `opts.serverValue` is
+ * given explicitly, `.value.current` keeps reading as it on the client too, up until the returned
+ * iterable starts being iterated (i.e. once a component rendering it has mounted) - so that the
+ * client's hydration render matches the server-rendered markup. The first iterator then yields the
+ * actual match state right away if it differs. Without `opts.serverValue`, the client reads the
+ * actual match state from its very first render, so server-rendered markup that was rendered with
+ * the default `false` fails to hydrate wherever the query does match.
+ *
+ * @example
+ * ```tsx
+ * import { It, fromMediaQuery } from 'react-async-iterators';
+ *
+ * const prefersDarkMode = fromMediaQuery('(prefers-color-scheme: dark)');
+ *
+ * function ThemeLabel() {
+ *   return <It value={prefersDarkMode}>{({ value: isDark }) => (isDark ? '🌙' : '☀️')}</It>;
+ * }
+ * ```
+ *
+ * @param query A media query string (e.g. `'(min-width: 768px)'`).
+ * @param opts _Optional_ options - `serverValue` is the match state to report where there's no `window` (defaults to `false`), as well as on the client until first iterated when given explicitly, for hydration to match.
+ *
+ * @returns An async iterable subject of whether the media query matches.
+ */
+function fromMediaQuery(
+  query: string,
+  opts?: {
+    serverValue?: boolean;
+  }
+): AsyncIterableSubject<boolean> {
+  let mediaQueryList: undefined | MediaQueryList;
+  const getMediaQueryList = (): MediaQueryList => (mediaQueryList ??= window.matchMedia(query));
+  let hasStartedIterating = false;
+  let lastReadCurrent: undefined | boolean;
+
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<boolean>(sink => {
+        hasStartedIterating = true;
+        const mql = getMediaQueryList();
+        if (lastReadCurrent !== undefined && lastReadCurrent !== mql.matches) {
+          sink.next(mql.matches); // The actual match state differs from what `.value.current` was last read as (e.g. by a component rendering the server value for hydration) - so it's delivered right away
+        }
+        const listener = (event: MediaQueryListEvent): void => sink.next(event.matches);
+        mql.addEventListener('change', listener);
+        return () => mql.removeEventListener('change', listener);
+      }),
+
+    value: {
+      get current() {
+        lastReadCurrent =
+          typeof window === 'undefined' || (opts?.serverValue !== undefined && !hasStartedIterating)
+            ? (opts?.serverValue ?? false)
+            : getMediaQueryList().matches;
+        return lastReadCurrent;
+      },
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+
+export { fromObserver };
+
+/**
+ * Creates an async iterable that yields every batch of entries reported by a DOM observer - such as
+ * a [`ResizeObserver`](https://developer.mozilla.org/en-US/docs/Web/API/ResizeObserver),
+ * [`IntersectionObserver`](https://developer.mozilla.org/en-US/docs/Web/API/IntersectionObserver) or
+ * [`MutationObserver`](https://developer.mozilla.org/en-US/docs/Web/API/MutationObserver) - for the
+ * given target.
+ *
+ * Every iterator obtained from the returned iterable constructs its own observer and starts
+ * observing lazily, upon its first `.next()` call, and disconnects it as soon as it gets closed via
+ * `.return()`.
+ *
+ * @example
+ * ```tsx
+ * import { useMemo } from 'react';
+ * import { useAsyncIter, fromObserver } from 'react-async-iterators';
+ *
+ * function useIsVisible(elem: Element) {
+ *   const intersections = useMemo(
+ *     () => fromObserver(IntersectionObserver, elem, { init: { threshold: 0.5 } }),
+ *     [elem]
+ *   );
+ *   const { value: entries } = useAsyncIter(intersections);
+ *   return !!entries?.at(-1)?.isIntersecting;
+ * }
+ * ```
+ *
+ * @template TEntry The type of entries the observer reports.
+ * @template TTarget The type of targets the observer can observe.
+ * @template TObserveOpts The type of options the observer's `.observe()` method accepts.
+ * @template TInit The type of options the observer's constructor accepts.
+ *
+ * @param Observer An observer class (e.g. `ResizeObserver`).
+ * @param target The target to observe.
+ * @param opts _Optional_ options - `init` is passed on to the observer's constructor (e.g. an `IntersectionObserver`'s `threshold`), while `observe` is passed on to its `.observe()` call (e.g. a `MutationObserver`'s `childList`).
+ *
+ * @returns An async iterable of the batches of entries reported by the observer.
+ */
+function fromObserver<TEntry, TTarget, TObserveOpts = never, TInit = never>(
+  Observer: new (
+    callback: (entries: TEntry[], observer: unknown) => void,
+    init?: TInit
+  ) => {
+    observe(target: TTarget, options?: TObserveOpts): void;
+    disconnect(): void;
+  },
+  target: TTarget,
+  opts?: {
+    init?: TInit;
+    observe?: TObserveOpts;
+  }
+): AsyncIterable<TEntry[]> {
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<TEntry[]>(sink => {
+        const observer = new Observer(entries => sink.next(entries), opts?.init);
+        observer.observe(target, opts?.observe);
+        return () => observer.disconnect();
+      }),
+  };
+}
@@ -0,0 +1,4 @@
+export { fromEvent } from './fromEvent.js';
+export { fromObserver } from './fromObserver.js';
+export { fromMediaQuery } from './fromMediaQuery.js';
+export { fromAbortSignal } from './fromAbortSignal.js';
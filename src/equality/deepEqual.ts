@@ -0,0 +1,64 @@
+import { type useAsyncIter } from '../useAsyncIter/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type Iterate } from '../Iterate/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type shallowEqual } from './shallowEqual.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { structurallyEqual } from './structurallyEqual.js';
+
+export { deepEqual };
+
+/**
+ * Compares two values _deeply_ (structurally) - they're considered equal if they're the same per
+ * [`Object.is`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/is),
+ * or if both are arrays, plain objects, `Map`s, `Set`s, `Date`s or `RegExp`s of the same kind whose
+ * contents are recursively deeply equal. Objects of other kinds (e.g. class instances) are compared
+ * by their own enumerable properties, provided they share the same prototype. `Set` members are
+ * matched to one another by deep equality as well (and `Map` keys by identity, as in `Map` itself).
+ *
+ * Meant to be given as the `isEqual` option of hooks and components such as
+ * {@link useAsyncIter `useAsyncIter`} and {@link Iterate `<Iterate>`}, for sources that yield fresh
+ * but structurally identical values, such as ones parsed out of JSON messages. Values with circular
+ * references are supported - pairs of objects already being compared further up the structure are
+ * not compared again.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIter, deepEqual } from 'react-async-iterators';
+ *
+ * function Dashboard(props) {
+ *   const { value: stats } = useAsyncIter(props.polledStatsIter, undefined, { isEqual: deepEqual });
+ *   return <StatsView stats={stats} />;
+ * }
+ * ```
+ *
+ * @param a A value to compare.
+ * @param b Another value to compare.
+ *
+ * @returns Whether the two values are deeply equal.
+ *
+ * @see {@link shallowEqual `shallowEqual`}
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  const pairsInComparison = new Map<object, Set<object>>();
+
+  const isContentEqual = (a: unknown, b: unknown): boolean => {
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+      return structurallyEqual(a, b, isContentEqual);
+    }
+
+    let bsInComparisonWithA = pairsInComparison.get(a);
+    if (bsInComparisonWithA?.has(b)) {
+      return true; // This pair is already being compared further up the structure (i.e. a cycle), so its equality is determined there
+    }
+    if (!bsInComparisonWithA) {
+      pairsInComparison.set(a, (bsInComparisonWithA = new Set()));
+    }
+
+    bsInComparisonWithA.add(b);
+    try {
+      return structurallyEqual(a, b, isContentEqual);
+    } finally {
+      bsInComparisonWithA.delete(b);
+    }
+  };
+
+  return isContentEqual(a, b);
+}
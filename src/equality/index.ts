@@ -0,0 +1,2 @@
+export { shallowEqual } from './shallowEqual.js';
+export { deepEqual } from './deepEqual.js';
@@ -0,0 +1,39 @@
+import { type useAsyncIter } from '../useAsyncIter/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type Iterate } from '../Iterate/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type deepEqual } from './deepEqual.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { structurallyEqual } from './structurallyEqual.js';
+
+export { shallowEqual };
+
+/**
+ * Compares two values _shallowly_ - they're considered equal if they're the same per
+ * [`Object.is`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/is),
+ * or if both are arrays, plain objects, `Map`s, `Set`s, `Date`s or `RegExp`s of the same kind whose
+ * top-level contents (array items, property values, `Map` entries, `Set` members) are all the same
+ * per `Object.is`. Objects of other kinds (e.g. class instances) are compared by their own
+ * enumerable properties, provided they share the same prototype.
+ *
+ * Meant to be given as the `isEqual` option of hooks and components such as
+ * {@link useAsyncIter `useAsyncIter`} and {@link Iterate `<Iterate>`}, for sources that yield fresh
+ * objects with the same top-level contents.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIter, shallowEqual } from 'react-async-iterators';
+ *
+ * function Cursor(props) {
+ *   const { value: pos } = useAsyncIter(props.positionsIter, { x: 0, y: 0 }, { isEqual: shallowEqual });
+ *   return <Pointer x={pos.x} y={pos.y} />;
+ * }
+ * ```
+ *
+ * @param a A value to compare.
+ * @param b Another value to compare.
+ *
+ * @returns Whether the two values are shallowly equal.
+ *
+ * @see {@link deepEqual `deepEqual`}
+ */
+function shallowEqual(a: unknown, b: unknown): boolean {
+  return structurallyEqual(a, b, Object.is);
+}
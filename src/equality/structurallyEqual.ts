@@ -0,0 +1,85 @@
+export { structurallyEqual };
+
+/**
+ * Compares two values by their structure one level deep - they're considered equal if they're the
+ * same per `Object.is`, or if both are arrays, plain objects, `Map`s, `Set`s, `Date`s or `RegExp`s
+ * of the same kind whose contents are equal per the given `isContentEqual`. Objects of other kinds
+ * (e.g. class instances) are compared by their own enumerable properties, provided they share the
+ * same prototype. `Map` keys are matched by identity (as in `Map` itself), while `Set` members are
+ * each matched to a distinct member of the other set that is equal per `isContentEqual`.
+ */
+function structurallyEqual(
+  a: unknown,
+  b: unknown,
+  isContentEqual: (a: unknown, b: unknown) => boolean
+): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  if (Array.isArray(a)) {
+    const bArr = b as unknown[];
+    return a.length === bArr.length && a.every((item, i) => isContentEqual(item, bArr[i]));
+  }
+
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), (b as Date).getTime());
+  }
+
+  if (a instanceof RegExp) {
+    return String(a) === String(b);
+  }
+
+  if (a instanceof Map) {
+    const bMap = b as Map<unknown, unknown>;
+    if (a.size !== bMap.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (!bMap.has(key) || !isContentEqual(value, bMap.get(key))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (a instanceof Set) {
+    const bSet = b as Set<unknown>;
+    if (a.size !== bSet.size) {
+      return false;
+    }
+    const unmatchedBItems = [...bSet];
+    for (const item of a) {
+      const matchIdx = bSet.has(item)
+        ? unmatchedBItems.findIndex(bItem => Object.is(item, bItem))
+        : unmatchedBItems.findIndex(bItem => isContentEqual(item, bItem));
+      if (matchIdx === -1) {
+        return false;
+      }
+      unmatchedBItems.splice(matchIdx, 1); // Each member may only be matched once, so that e.g. `{a: 1}, {a: 1}` doesn't equal `{a: 1}, {a: 2}`
+    }
+    return true;
+  }
+
+  const aKeys = Object.keys(a);
+
+  if (aKeys.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return aKeys.every(
+    key =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      isContentEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
@@ -1,34 +1,217 @@
-import { useAsyncIter, type IterationResult } from './useAsyncIter/index.js';
+import { useAsyncIter, type IterationResult, type UseAsyncIterOpts } from './useAsyncIter/index.js';
+import { useAsyncIterSuspense } from './useAsyncIterSuspense/index.js';
+import {
+  useAsyncIterWithControls,
+  type AsyncIterControls,
+} from './useAsyncIterWithControls/index.js';
+import { useAsyncIterSelector } from './useAsyncIterSelector/index.js';
 import { useAsyncIterMulti, type IterationResultSet } from './useAsyncIterMulti/index.js';
+import { useAsyncIterPaged, type AsyncIterPagedResult } from './useAsyncIterPaged/index.js';
+import { useAsyncIterMap, type IterationResultMap } from './useAsyncIterMap/index.js';
 import { useAsyncIterEffect } from './useAsyncIterEffect/index.js';
+import {
+  useAsyncIterAccumulate,
+  type UseAsyncIterAccumulateOpts,
+} from './useAsyncIterAccumulate/index.js';
 import { Iterate, type IterateProps } from './Iterate/index.js';
 import { IterateMulti, type IterateMultiProps } from './IterateMulti/index.js';
+import { IterateMap, type IterateMapProps } from './IterateMap/index.js';
+import { IterateList, type IterateListProps } from './IterateList/index.js';
 import { iterateFormatted } from './iterateFormatted/index.js';
+import {
+  useAsyncIterReducer,
+  type AsyncIterReducerResult,
+  type AsyncIterReducerOpts,
+  type AsyncIterReducerMiddleware,
+  type AsyncIterReducerMiddlewareApi,
+} from './useAsyncIterReducer/index.js';
 import { useAsyncIterState, type AsyncIterStateResult } from './useAsyncIterState/index.js';
+import {
+  createAsyncIterState,
+  type CreatedAsyncIterState,
+  type AsyncIterStateOpts,
+  type AsyncIterStateDelivery,
+} from './createAsyncIterState/index.js';
+import {
+  createAsyncIterSsrState,
+  type AsyncIterSsrState,
+  type AsyncIterSsrPrefetchOpts,
+} from './createAsyncIterSsrState/index.js';
+import {
+  AsyncIterSsrProvider,
+  type AsyncIterSsrProviderProps,
+} from './AsyncIterSsrProvider/index.js';
 import { useSharedAsyncIter } from './useSharedAsyncIter/index.js';
 import { type MaybeAsyncIterable } from './MaybeAsyncIterable/index.js';
 import { type ReactAsyncIterable } from './common/ReactAsyncIterable.js';
 import { type AsyncIterableSubject } from './AsyncIterableSubject/index.js';
+import { pipe } from './pipe/index.js';
+import {
+  map,
+  filter,
+  scan,
+  take,
+  takeWhile,
+  skip,
+  distinctUntilChanged,
+  debounce,
+  throttle,
+  bufferTime,
+  startWith,
+  catchError,
+  switchMap,
+} from './iterOperators/index.js';
+import {
+  merge,
+  combineLatest,
+  zip,
+  concat,
+  race,
+  type CombinedLatest,
+} from './iterCombinators/index.js';
+import { toRscAsyncIter, fromRscAsyncIter, type RscAsyncIter } from './rscAsyncIter/index.js';
+import {
+  AsyncIterDevtools,
+  enableAsyncIterDevtools,
+  type AsyncIterDevtoolsProps,
+  type DevtoolsIterationEntry,
+  type DevtoolsSharedSourceEntry,
+} from './AsyncIterDevtools/index.js';
+import { shallowEqual, deepEqual } from './equality/index.js';
+import { fromEvent, fromObserver, fromMediaQuery, fromAbortSignal } from './domAdapters/index.js';
+import {
+  fromWebSocket,
+  fromEventSource,
+  fromReadableStream,
+  decodeText,
+  decodeLines,
+  decodeNdjson,
+  decodeSse,
+  type SseEvent,
+} from './streamAdapters/index.js';
+import {
+  fromObservable,
+  toObservable,
+  type ObservableLike,
+  type ObserverLike,
+  type Unsubscribable,
+} from './observableInterop/index.js';
+import {
+  fromExternalStore,
+  fromStore,
+  fromSignal,
+  type StoreLike,
+  type SignalLike,
+  type StoreUnsubscribe,
+} from './storeAdapters/index.js';
+import { type RetryPolicy } from './common/RetryPolicy.js';
+import { type RenderScheduling } from './common/RenderScheduling.js';
 
 export {
   useAsyncIter,
   type IterationResult,
+  type UseAsyncIterOpts,
+  useAsyncIterSuspense,
+  useAsyncIterWithControls,
+  type AsyncIterControls,
+  useAsyncIterSelector,
   useAsyncIterMulti,
   type IterationResultSet,
+  useAsyncIterMap,
+  type IterationResultMap,
+  useAsyncIterPaged,
+  type AsyncIterPagedResult,
   useAsyncIterEffect,
+  useAsyncIterAccumulate,
+  type UseAsyncIterAccumulateOpts,
   Iterate,
   Iterate as It,
   type IterateProps,
   IterateMulti,
   IterateMulti as ItMulti,
   type IterateMultiProps,
+  IterateMap,
+  IterateMap as ItMap,
+  type IterateMapProps,
+  IterateList,
+  IterateList as ItList,
+  type IterateListProps,
   iterateFormatted,
   useAsyncIterState,
   useSharedAsyncIter,
   type AsyncIterStateResult,
+  useAsyncIterReducer,
+  type AsyncIterReducerResult,
+  type AsyncIterReducerOpts,
+  type AsyncIterReducerMiddleware,
+  type AsyncIterReducerMiddlewareApi,
+  createAsyncIterState,
+  type CreatedAsyncIterState,
+  type AsyncIterStateOpts,
+  type AsyncIterStateDelivery,
+  createAsyncIterSsrState,
+  type AsyncIterSsrState,
+  type AsyncIterSsrPrefetchOpts,
+  AsyncIterSsrProvider,
+  type AsyncIterSsrProviderProps,
   type MaybeAsyncIterable,
   type ReactAsyncIterable,
   type AsyncIterableSubject,
+  type RetryPolicy,
+  type RenderScheduling,
+  shallowEqual,
+  deepEqual,
+  fromEvent,
+  fromObserver,
+  fromMediaQuery,
+  fromAbortSignal,
+  fromWebSocket,
+  fromEventSource,
+  fromReadableStream,
+  decodeText,
+  decodeLines,
+  decodeNdjson,
+  decodeSse,
+  type SseEvent,
+  fromObservable,
+  toObservable,
+  type ObservableLike,
+  type ObserverLike,
+  type Unsubscribable,
+  fromExternalStore,
+  fromStore,
+  fromSignal,
+  type StoreLike,
+  type SignalLike,
+  type StoreUnsubscribe,
+  pipe,
+  map,
+  filter,
+  scan,
+  take,
+  takeWhile,
+  skip,
+  distinctUntilChanged,
+  debounce,
+  throttle,
+  bufferTime,
+  startWith,
+  catchError,
+  switchMap,
+  merge,
+  combineLatest,
+  type CombinedLatest,
+  zip,
+  concat,
+  race,
+  toRscAsyncIter,
+  fromRscAsyncIter,
+  type RscAsyncIter,
+  AsyncIterDevtools,
+  enableAsyncIterDevtools,
+  type AsyncIterDevtoolsProps,
+  type DevtoolsIterationEntry,
+  type DevtoolsSharedSourceEntry,
 
   /**
    * @deprecated use {@link ReactAsyncIterable `ReactAsyncIterable`} instead.
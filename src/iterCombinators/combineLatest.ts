@@ -0,0 +1,129 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { memoizeLast } from '../common/memoizeLast.js';
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+
+export { combineLatest, type CombinedLatest };
+
+/**
+ * Combines any number of async iterables into a single one which yields an array of the latest
+ * values of all of them, every time any of them yields.
+ *
+ * The first array is yielded only once every given iterable has a latest value. Given iterables that
+ * have a current value (a `.value.current` property, per the
+ * {@link AsyncIterableSubject `AsyncIterableSubject`} interface) start out with it as their latest
+ * value. If __all__ the given iterables have a current value, the resulting iterable will also have
+ * one - showing an array of all their current values (the same array object for as long as none of
+ * them changes).
+ *
+ * The resulting iterable completes once all of the given iterables have completed, and errors out as
+ * soon as any of them does (closing all the others). Closing the resulting iterable's iterator closes
+ * all the active iterators of the given ones.
+ *
+ * @example
+ * ```tsx
+ * import { combineLatest, It } from 'react-async-iterators';
+ *
+ * const [firstNameIter, setFirstName] = useAsyncIterState('John');
+ * const [lastNameIter, setLastName] = useAsyncIterState('Doe');
+ *
+ * const fullNameIter = useMemo(() => combineLatest(firstNameIter, lastNameIter), []);
+ *
+ * fullNameIter.value.current; // ['John', 'Doe']
+ *
+ * <It value={fullNameIter}>{({ value: [first, last] }) => `${first} ${last}`}</It>
+ * ```
+ *
+ * @template TSources The types of the given async iterables.
+ *
+ * @param sources Any number of async iterables to combine.
+ *
+ * @returns An async iterable yielding arrays of the latest values of all given async iterables, corresponding by order.
+ */
+function combineLatest<const TSources extends readonly AsyncIterable<unknown>[]>(
+  ...sources: TSources
+): CombinedLatest<TSources> {
+  type TVals = CombinedLatestValues<TSources>;
+
+  const sourcesWithMaybeCurrentValues = sources as readonly (AsyncIterable<unknown> & {
+    value?: AsyncIterableSubject<unknown>['value'];
+  })[];
+
+  const allHaveCurrentValues = sourcesWithMaybeCurrentValues.every(source => !!source.value);
+
+  const combineCurrentValues = memoizeLast((...currentValues: unknown[]) => currentValues);
+
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<TVals>(sink => {
+        const iterators = sources.map(source => source[Symbol.asyncIterator]());
+        const latestValues = sourcesWithMaybeCurrentValues.map(source => source.value?.current);
+        const hasLatestValue = sourcesWithMaybeCurrentValues.map(source => !!source.value);
+        let missingLatestCount = hasLatestValue.filter(has => !has).length;
+        let activeCount = iterators.length;
+
+        if (activeCount === 0) {
+          sink.complete();
+        }
+
+        for (const [i, iterator] of iterators.entries()) {
+          (async () => {
+            try {
+              for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+                latestValues[i] = value;
+                if (!hasLatestValue[i]) {
+                  hasLatestValue[i] = true;
+                  missingLatestCount--;
+                }
+                if (missingLatestCount === 0) {
+                  sink.next(latestValues.slice(0) as unknown as TVals);
+                }
+              }
+              if (--activeCount === 0) {
+                sink.complete();
+              }
+            } catch (err) {
+              sink.error(err);
+            }
+          })();
+        }
+
+        return () => {
+          for (const iterator of iterators) {
+            iterator.return?.();
+          }
+        };
+      }),
+
+    value: !allHaveCurrentValues
+      ? undefined
+      : {
+          get current() {
+            return combineCurrentValues(
+              ...sourcesWithMaybeCurrentValues.map(source => source.value!.current)
+            );
+          },
+        },
+  } as unknown as CombinedLatest<TSources>;
+}
+
+/**
+ * The type of async iterable returned from {@link combineLatest `combineLatest`} for the given
+ * source async iterables' types.
+ */
+type CombinedLatest<TSources extends readonly AsyncIterable<unknown>[]> = AsyncIterable<
+  CombinedLatestValues<TSources>
+> &
+  (TSources extends readonly { value: { readonly current: unknown } }[]
+    ? { value: { readonly current: CombinedCurrentValues<TSources> } }
+    : { value: undefined });
+
+type CombinedLatestValues<TSources extends readonly AsyncIterable<unknown>[]> = {
+  -readonly [I in keyof TSources]: DeasyncIterized<TSources[I]> | CurrentValueOf<TSources[I]>;
+};
+
+type CombinedCurrentValues<TSources extends readonly unknown[]> = {
+  -readonly [I in keyof TSources]: CurrentValueOf<TSources[I]>;
+};
+
+type CurrentValueOf<T> = T extends { value: { readonly current: infer J } } ? J : never;
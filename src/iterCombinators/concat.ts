@@ -0,0 +1,62 @@
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+
+export { concat };
+
+/**
+ * Combines any number of async iterables into a single one which yields all the values of each of
+ * them in turn - only once an iterable completes, the next one starts being iterated.
+ *
+ * The resulting iterable completes once the last of the given iterables completes, and errors out as
+ * soon as any of them does. Closing the resulting iterable's iterator closes the currently active
+ * iterator of the given ones.
+ *
+ * @example
+ * ```ts
+ * import { concat } from 'react-async-iterators';
+ *
+ * const allMessages = concat(cachedMessagesIter, liveMessagesIter);
+ * ```
+ *
+ * @template TSources The types of the given async iterables.
+ *
+ * @param sources Any number of async iterables to concatenate.
+ *
+ * @returns An async iterable yielding the values of all given async iterables, one after the other.
+ */
+function concat<const TSources extends readonly AsyncIterable<unknown>[]>(
+  ...sources: TSources
+): AsyncIterable<DeasyncIterized<TSources[number]>> {
+  type TVal = DeasyncIterized<TSources[number]>;
+
+  return {
+    [Symbol.asyncIterator]: () => {
+      let currSourceIdx = 0;
+      let iterator: undefined | AsyncIterator<unknown>;
+      let closed = false;
+
+      return {
+        next: async (): Promise<IteratorResult<TVal, undefined>> => {
+          while (!closed && currSourceIdx < sources.length) {
+            iterator ??= sources[currSourceIdx][Symbol.asyncIterator]();
+            const next = await iterator.next();
+            if (!next.done) {
+              return { done: false, value: next.value as TVal };
+            }
+            iterator = undefined;
+            currSourceIdx++;
+          }
+          closed = true;
+          return { done: true, value: undefined };
+        },
+
+        return: async () => {
+          if (!closed) {
+            closed = true;
+            await iterator?.return?.();
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,5 @@
+export { merge } from './merge.js';
+export { combineLatest, type CombinedLatest } from './combineLatest.js';
+export { zip } from './zip.js';
+export { concat } from './concat.js';
+export { race } from './race.js';
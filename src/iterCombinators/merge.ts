@@ -0,0 +1,64 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+
+export { merge };
+
+/**
+ * Combines any number of async iterables into a single one which yields every value from all of
+ * them as soon as each one is yielded.
+ *
+ * The resulting iterable completes once all of the given iterables have completed, and errors out
+ * as soon as any of them does (closing all the others). Closing the resulting iterable's iterator
+ * closes all the active iterators of the given ones.
+ *
+ * @example
+ * ```ts
+ * import { merge } from 'react-async-iterators';
+ *
+ * const allNotifications = merge(emailNotificationsIter, pushNotificationsIter);
+ * ```
+ *
+ * @template TSources The types of the given async iterables.
+ *
+ * @param sources Any number of async iterables to merge.
+ *
+ * @returns An async iterable yielding every value from all given async iterables.
+ */
+function merge<const TSources extends readonly AsyncIterable<unknown>[]>(
+  ...sources: TSources
+): AsyncIterable<DeasyncIterized<TSources[number]>> {
+  type TVal = DeasyncIterized<TSources[number]>;
+
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<TVal>(sink => {
+        const iterators = sources.map(source => source[Symbol.asyncIterator]());
+        let activeCount = iterators.length;
+
+        if (activeCount === 0) {
+          sink.complete();
+        }
+
+        for (const iterator of iterators) {
+          (async () => {
+            try {
+              for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+                sink.next(value as TVal);
+              }
+              if (--activeCount === 0) {
+                sink.complete();
+              }
+            } catch (err) {
+              sink.error(err);
+            }
+          })();
+        }
+
+        return () => {
+          for (const iterator of iterators) {
+            iterator.return?.();
+          }
+        };
+      }),
+  };
+}
@@ -0,0 +1,81 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+
+export { race };
+
+/**
+ * Combines any number of async iterables into a single one which mirrors whichever of them yields
+ * (or completes, or errors) first, closing all the others at that point.
+ *
+ * Closing the resulting iterable's iterator closes all the active iterators of the given ones.
+ *
+ * @example
+ * ```ts
+ * import { race } from 'react-async-iterators';
+ *
+ * const fastestPriceFeed = race(primaryPriceFeedIter, backupPriceFeedIter);
+ * ```
+ *
+ * @template TSources The types of the given async iterables.
+ *
+ * @param sources Any number of async iterables to race.
+ *
+ * @returns An async iterable yielding the values of the first of the given async iterables to make any progress.
+ */
+function race<const TSources extends readonly AsyncIterable<unknown>[]>(
+  ...sources: TSources
+): AsyncIterable<DeasyncIterized<TSources[number]>> {
+  type TVal = DeasyncIterized<TSources[number]>;
+
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<TVal>(sink => {
+        const iterators = sources.map(source => source[Symbol.asyncIterator]());
+        let winnerIdx: undefined | number;
+
+        if (!iterators.length) {
+          sink.complete();
+        }
+
+        const isLosing = (i: number): boolean => {
+          if (winnerIdx === undefined) {
+            winnerIdx = i;
+            for (const [j, iterator] of iterators.entries()) {
+              if (j !== i) {
+                iterator.return?.();
+              }
+            }
+          }
+          return winnerIdx !== i;
+        };
+
+        for (const [i, iterator] of iterators.entries()) {
+          (async () => {
+            try {
+              for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+                if (isLosing(i)) {
+                  return;
+                }
+                sink.next(value as TVal);
+              }
+              if (!isLosing(i)) {
+                sink.complete();
+              }
+            } catch (err) {
+              if (!isLosing(i)) {
+                sink.error(err);
+              }
+            }
+          })();
+        }
+
+        return () => {
+          for (const [i, iterator] of iterators.entries()) {
+            if (winnerIdx === undefined || winnerIdx === i) {
+              iterator.return?.();
+            }
+          }
+        };
+      }),
+  };
+}
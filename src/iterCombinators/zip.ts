@@ -0,0 +1,81 @@
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+
+export { zip };
+
+/**
+ * Combines any number of async iterables into a single one which yields arrays of their values
+ * paired up by order - the first array holds the first value of each, the second array holds the
+ * second value of each, and so on.
+ *
+ * The resulting iterable completes as soon as any of the given iterables completes (closing all the
+ * others), and errors out as soon as any of them does. Closing the resulting iterable's iterator
+ * closes all the active iterators of the given ones.
+ *
+ * @example
+ * ```ts
+ * import { zip } from 'react-async-iterators';
+ *
+ * const questionsWithAnswers = zip(questionsIter, answersIter);
+ * ```
+ *
+ * @template TSources The types of the given async iterables.
+ *
+ * @param sources Any number of async iterables to zip.
+ *
+ * @returns An async iterable yielding arrays of values from all given async iterables, corresponding by order.
+ */
+function zip<const TSources extends readonly AsyncIterable<unknown>[]>(
+  ...sources: TSources
+): AsyncIterable<{ -readonly [I in keyof TSources]: DeasyncIterized<TSources[I]> }> {
+  type TVals = { -readonly [I in keyof TSources]: DeasyncIterized<TSources[I]> };
+
+  return {
+    [Symbol.asyncIterator]: () => {
+      let iterators: undefined | AsyncIterator<unknown>[];
+      let closed = false;
+
+      const closeAll = async (): Promise<void> => {
+        closed = true;
+        await Promise.all(iterators?.map(iterator => iterator.return?.()) ?? []);
+      };
+
+      return {
+        next: async (): Promise<IteratorResult<TVals, undefined>> => {
+          if (closed) {
+            return { done: true, value: undefined };
+          }
+
+          iterators ??= sources.map(source => source[Symbol.asyncIterator]());
+
+          if (!iterators.length) {
+            closed = true;
+            return { done: true, value: undefined };
+          }
+
+          let nexts: IteratorResult<unknown>[];
+
+          try {
+            nexts = await Promise.all(iterators.map(iterator => iterator.next()));
+          } catch (err) {
+            await closeAll();
+            throw err;
+          }
+
+          if (nexts.some(next => next.done)) {
+            await closeAll();
+            return { done: true, value: undefined };
+          }
+
+          return { done: false, value: nexts.map(next => next.value) as unknown as TVals };
+        },
+
+        return: async () => {
+          if (!closed) {
+            await closeAll();
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+
+export { bufferTime };
+
+/**
+ * Creates an operator that collects the values of the source async iterable into arrays, yielding
+ * each collected array every `ms` milliseconds. Intervals in which no values were collected are
+ * skipped rather than yielding empty arrays.
+ *
+ * If the source completes while some values are collected, they are yielded right away before
+ * completing.
+ *
+ * @example
+ * ```ts
+ * import { pipe, bufferTime } from 'react-async-iterators';
+ *
+ * const logLineBatches = pipe(logLinesIter, bufferTime(100));
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ *
+ * @param ms The interval duration in milliseconds.
+ *
+ * @returns An operator function that takes a source async iterable and returns an async iterable of value arrays.
+ */
+function bufferTime<T>(ms: number): (source: AsyncIterable<T>) => AsyncIterable<T[]> {
+  return source => ({
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<T[]>(sink => {
+        const iterator = source[Symbol.asyncIterator]();
+        let buffer: T[] = [];
+
+        const flush = (): void => {
+          if (buffer.length) {
+            const collected = buffer;
+            buffer = [];
+            sink.next(collected);
+          }
+        };
+
+        const intervalId = setInterval(flush, ms);
+
+        (async () => {
+          try {
+            for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+              buffer.push(value);
+            }
+            clearInterval(intervalId);
+            flush();
+            sink.complete();
+          } catch (err) {
+            clearInterval(intervalId);
+            sink.error(err);
+          }
+        })();
+
+        return () => {
+          clearInterval(intervalId);
+          iterator.return?.();
+        };
+      }),
+  });
+}
@@ -0,0 +1,61 @@
+export { catchError };
+
+/**
+ * Creates an operator that handles an error the source async iterable might end with, by continuing
+ * with a replacement async iterable returned from `handler` instead of propagating the error.
+ *
+ * `handler` may also rethrow the error (or throw a different one) to propagate it after all.
+ *
+ * @example
+ * ```ts
+ * import { pipe, catchError } from 'react-async-iterators';
+ *
+ * const pricesOrFallback = pipe(
+ *   livePricesIter,
+ *   catchError(err => {
+ *     console.error('Live prices failed', err);
+ *     return cachedPricesIter;
+ *   })
+ * );
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ * @template TAlt The type of values yielded by the replacement async iterable.
+ *
+ * @param handler A function that gets the error and returns an async iterable to continue with.
+ *
+ * @returns An operator function that takes a source async iterable and returns an async iterable that recovers from errors.
+ */
+function catchError<T, TAlt = T>(
+  handler: (error: unknown) => AsyncIterable<TAlt>
+): (source: AsyncIterable<T>) => AsyncIterable<T | TAlt> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: undefined | AsyncIterator<T | TAlt>;
+      let isReplaced = false;
+
+      return {
+        next: async () => {
+          iterator ??= source[Symbol.asyncIterator]();
+
+          if (isReplaced) {
+            return iterator.next();
+          }
+
+          try {
+            return await iterator.next();
+          } catch (err) {
+            isReplaced = true;
+            iterator = handler(err)[Symbol.asyncIterator]();
+            return iterator.next();
+          }
+        },
+
+        return: async () => {
+          await iterator?.return?.();
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+
+export { debounce };
+
+/**
+ * Creates an operator that yields a value from the source async iterable only after `ms`
+ * milliseconds have passed without it yielding another value, dropping any values that are
+ * superseded within that time.
+ *
+ * If the source completes while a value is pending, that value is yielded right away before
+ * completing. If it errors, any pending value is dropped and the error is propagated.
+ *
+ * @example
+ * ```ts
+ * import { pipe, debounce } from 'react-async-iterators';
+ *
+ * const settledSearchQuery = pipe(searchInputIter, debounce(300));
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ *
+ * @param ms The quiet period duration in milliseconds.
+ *
+ * @returns An operator function that takes a source async iterable and returns a debounced async iterable.
+ */
+function debounce<T>(ms: number): (source: AsyncIterable<T>) => AsyncIterable<T> {
+  return source => ({
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<T>(sink => {
+        const iterator = source[Symbol.asyncIterator]();
+        let pending: undefined | { value: T };
+        let timeoutId: undefined | ReturnType<typeof setTimeout>;
+
+        (async () => {
+          try {
+            for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+              pending = { value };
+              clearTimeout(timeoutId);
+              timeoutId = setTimeout(() => {
+                sink.next(pending!.value);
+                pending = undefined;
+              }, ms);
+            }
+            clearTimeout(timeoutId);
+            if (pending) {
+              sink.next(pending.value);
+            }
+            sink.complete();
+          } catch (err) {
+            clearTimeout(timeoutId);
+            sink.error(err);
+          }
+        })();
+
+        return () => {
+          clearTimeout(timeoutId);
+          iterator.return?.();
+        };
+      }),
+  });
+}
@@ -0,0 +1,56 @@
+export { distinctUntilChanged };
+
+/**
+ * Creates an operator that yields values of the source async iterable only when they're different
+ * from the last yielded value, as determined by `isEqual` (which is
+ * [`Object.is`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/is)
+ * by default).
+ *
+ * @example
+ * ```ts
+ * import { pipe, map, distinctUntilChanged } from 'react-async-iterators';
+ *
+ * const userStatusChanges = pipe(
+ *   userIter,
+ *   map(user => user.status),
+ *   distinctUntilChanged()
+ * );
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ *
+ * @param isEqual An _optional_ function that compares the last yielded value with a new one, returning whether they are considered equal.
+ *
+ * @returns An operator function that takes a source async iterable and returns an async iterable without consecutive duplicates.
+ */
+function distinctUntilChanged<T>(
+  isEqual: (prev: T, next: T) => boolean = Object.is
+): (source: AsyncIterable<T>) => AsyncIterable<T> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: AsyncIterator<T>;
+      let last: undefined | { value: T };
+
+      return {
+        next: async () => {
+          iterator ??= source[Symbol.asyncIterator]();
+          while (true) {
+            const next = await iterator.next();
+            if (next.done) {
+              return next;
+            }
+            if (!last || !isEqual(last.value, next.value)) {
+              last = { value: next.value };
+              return next;
+            }
+          }
+        },
+
+        return: async () => {
+          await iterator?.return?.();
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
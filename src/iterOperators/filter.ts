@@ -0,0 +1,53 @@
+export { filter };
+
+/**
+ * Creates an operator that yields only the values of the source async iterable that satisfy
+ * `predicate`.
+ *
+ * @example
+ * ```ts
+ * import { pipe, filter } from 'react-async-iterators';
+ *
+ * const evenNums = pipe(numsIter, filter(num => num % 2 === 0));
+ * ```
+ *
+ * @template TIn The type of values yielded by the source async iterable.
+ * @template TOut The type of values passing the filter, if `predicate` is a type guard.
+ *
+ * @param predicate A function that decides whether each value should be yielded, getting it along with its zero-based index (counting all source values).
+ *
+ * @returns An operator function that takes a source async iterable and returns a filtered async iterable.
+ */
+function filter<TIn, TOut extends TIn>(
+  predicate: (value: TIn, i: number) => value is TOut
+): (source: AsyncIterable<TIn>) => AsyncIterable<TOut>;
+function filter<TIn>(
+  predicate: (value: TIn, i: number) => boolean
+): (source: AsyncIterable<TIn>) => AsyncIterable<TIn>;
+function filter<TIn>(
+  predicate: (value: TIn, i: number) => boolean
+): (source: AsyncIterable<TIn>) => AsyncIterable<TIn> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: AsyncIterator<TIn>;
+      let iterationIdx = 0;
+
+      return {
+        next: async () => {
+          iterator ??= source[Symbol.asyncIterator]();
+          while (true) {
+            const next = await iterator.next();
+            if (next.done || predicate(next.value, iterationIdx++)) {
+              return next;
+            }
+          }
+        },
+
+        return: async () => {
+          await iterator?.return?.();
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,13 @@
+export { map } from './map.js';
+export { filter } from './filter.js';
+export { scan } from './scan.js';
+export { take } from './take.js';
+export { takeWhile } from './takeWhile.js';
+export { skip } from './skip.js';
+export { distinctUntilChanged } from './distinctUntilChanged.js';
+export { debounce } from './debounce.js';
+export { throttle } from './throttle.js';
+export { bufferTime } from './bufferTime.js';
+export { startWith } from './startWith.js';
+export { catchError } from './catchError.js';
+export { switchMap } from './switchMap.js';
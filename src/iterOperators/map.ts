@@ -0,0 +1,51 @@
+import { asyncIterSyncMap } from '../common/asyncIterSyncMap.js';
+import { memoizeLast } from '../common/memoizeLast.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+
+export { map };
+
+/**
+ * Creates an operator that transforms every value of the source async iterable with `mapFn`.
+ *
+ * If the source async iterable has a current value (a `.value.current` property, per the
+ * {@link AsyncIterableSubject `AsyncIterableSubject`} interface), the resulting iterable will also
+ * have one, showing the source's current value transformed with `mapFn`.
+ *
+ * @example
+ * ```ts
+ * import { pipe, map } from 'react-async-iterators';
+ *
+ * const userNames = pipe(usersIter, map(user => user.name));
+ * ```
+ *
+ * @template TIn The type of values yielded by the source async iterable.
+ * @template TOut The type of values resulting after transforming.
+ *
+ * @param mapFn A function that transforms each value, getting it along with its zero-based index.
+ *
+ * @returns An operator function that takes a source async iterable and returns a transformed async iterable.
+ */
+function map<TIn, TOut>(
+  mapFn: (value: TIn, i: number) => TOut
+): (source: AsyncIterable<TIn>) => AsyncIterable<TOut> {
+  return source => {
+    const sourceWithMaybeCurrentValue = source as typeof source & {
+      value?: AsyncIterableSubject<TIn>['value'];
+    };
+
+    if (!sourceWithMaybeCurrentValue.value) {
+      return asyncIterSyncMap(source, mapFn);
+    }
+
+    const mapCurrent = memoizeLast((current: TIn) => mapFn(current, 0));
+
+    return {
+      [Symbol.asyncIterator]: () => asyncIterSyncMap(source, mapFn)[Symbol.asyncIterator](),
+      value: {
+        get current() {
+          return mapCurrent(sourceWithMaybeCurrentValue.value!.current);
+        },
+      },
+    } as AsyncIterableSubject<TOut>;
+  };
+}
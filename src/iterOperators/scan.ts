@@ -0,0 +1,57 @@
+import { callOrReturn } from '../common/callOrReturn.js';
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+
+export { scan };
+
+/**
+ * Creates an operator that accumulates the values of the source async iterable with `reducer`,
+ * yielding every intermediate accumulated result - much like an `Array.prototype.reduce` that
+ * reports each of its steps.
+ *
+ * @example
+ * ```ts
+ * import { pipe, scan } from 'react-async-iterators';
+ *
+ * const chatHistory = pipe(
+ *   incomingMessagesIter,
+ *   scan((allMessages, message) => [...allMessages, message], [])
+ * );
+ * ```
+ *
+ * @template TIn The type of values yielded by the source async iterable.
+ * @template TAcc The type of the accumulated result.
+ *
+ * @param reducer A function that combines the accumulated result so far with the next value, getting also the value's zero-based index.
+ * @param seed The starting accumulated result. You can pass an actual value, or a function that returns a value (which will be called for every new iterator).
+ *
+ * @returns An operator function that takes a source async iterable and returns an async iterable of accumulated results.
+ */
+function scan<TIn, TAcc>(
+  reducer: (acc: TAcc, value: TIn, i: number) => TAcc,
+  seed: MaybeFunction<TAcc>
+): (source: AsyncIterable<TIn>) => AsyncIterable<TAcc> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: AsyncIterator<TIn>;
+      let iterationIdx = 0;
+      let acc = callOrReturn(seed);
+
+      return {
+        next: async () => {
+          iterator ??= source[Symbol.asyncIterator]();
+          const next = await iterator.next();
+          if (next.done) {
+            return next;
+          }
+          acc = reducer(acc, next.value, iterationIdx++);
+          return { done: false, value: acc };
+        },
+
+        return: async () => {
+          await iterator?.return?.();
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,45 @@
+export { skip };
+
+/**
+ * Creates an operator that skips the first `count` values of the source async iterable and yields
+ * all the rest.
+ *
+ * @example
+ * ```ts
+ * import { pipe, skip } from 'react-async-iterators';
+ *
+ * const updatesAfterInitial = pipe(stateIter, skip(1));
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ *
+ * @param count The number of values to skip.
+ *
+ * @returns An operator function that takes a source async iterable and returns an async iterable without its first `count` values.
+ */
+function skip<T>(count: number): (source: AsyncIterable<T>) => AsyncIterable<T> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: AsyncIterator<T>;
+      let remainingToSkip = count;
+
+      return {
+        next: async () => {
+          iterator ??= source[Symbol.asyncIterator]();
+          while (true) {
+            const next = await iterator.next();
+            if (next.done || remainingToSkip <= 0) {
+              return next;
+            }
+            remainingToSkip--;
+          }
+        },
+
+        return: async () => {
+          await iterator?.return?.();
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
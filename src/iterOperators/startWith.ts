@@ -0,0 +1,54 @@
+export { startWith };
+
+/**
+ * Creates an operator that yields the given `values` first, and then continues with all the values
+ * of the source async iterable.
+ *
+ * The source async iterable only starts being iterated after all the given `values` were pulled.
+ *
+ * @example
+ * ```ts
+ * import { pipe, startWith } from 'react-async-iterators';
+ *
+ * const searchResults = pipe(fetchedResultsIter, startWith([]));
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ * @template TStart The type of the values to start with.
+ *
+ * @param values The values to yield before any of the source's values.
+ *
+ * @returns An operator function that takes a source async iterable and returns an async iterable prefixed with `values`.
+ */
+function startWith<T, const TStart extends readonly unknown[]>(
+  ...values: TStart
+): (source: AsyncIterable<T>) => AsyncIterable<T | TStart[number]> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: undefined | AsyncIterator<T>;
+      let startValuesIdx = 0;
+      let closed = false;
+
+      return {
+        next: async () => {
+          if (closed) {
+            return { done: true, value: undefined };
+          }
+          if (startValuesIdx < values.length) {
+            return { done: false, value: values[startValuesIdx++] };
+          }
+          iterator ??= source[Symbol.asyncIterator]();
+          return iterator.next();
+        },
+
+        return: async () => {
+          if (!closed) {
+            closed = true;
+            await iterator?.return?.();
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+
+export { switchMap };
+
+/**
+ * Creates an operator that maps each value of the source async iterable into an inner async iterable
+ * and yields the values of the most recent inner iterable only - whenever the source yields a new
+ * value, the currently active inner iterable's iterator is closed and switched to a new one.
+ *
+ * The resulting iterable completes once both the source and the last inner iterable have completed,
+ * and errors out as soon as either of them does. Closing the resulting iterable's iterator closes
+ * both the source's iterator and the active inner one.
+ *
+ * @example
+ * ```ts
+ * import { pipe, debounce, switchMap } from 'react-async-iterators';
+ *
+ * const searchResultsIter = pipe(
+ *   searchQueryIter,
+ *   debounce(300),
+ *   switchMap(query => fetchSearchResultsIter(query))
+ * );
+ * ```
+ *
+ * @template TIn The type of values yielded by the source async iterable.
+ * @template TOut The type of values yielded by the inner async iterables.
+ *
+ * @param project A function that maps each source value (along with its index) into an inner async iterable.
+ *
+ * @returns An operator function that takes a source async iterable and returns an async iterable of the latest inner async iterable's values.
+ */
+function switchMap<TIn, TOut>(
+  project: (value: TIn, i: number) => AsyncIterable<TOut>
+): (source: AsyncIterable<TIn>) => AsyncIterable<TOut> {
+  return source => ({
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<TOut>(sink => {
+        const iterator = source[Symbol.asyncIterator]();
+        let innerIterator: undefined | AsyncIterator<TOut>;
+        let isSourceDone = false;
+        let i = 0;
+
+        const iterateInner = async (currInnerIterator: AsyncIterator<TOut>): Promise<void> => {
+          try {
+            for await (const value of { [Symbol.asyncIterator]: () => currInnerIterator }) {
+              if (currInnerIterator !== innerIterator) {
+                return;
+              }
+              sink.next(value);
+            }
+            if (currInnerIterator === innerIterator) {
+              innerIterator = undefined;
+              if (isSourceDone) {
+                sink.complete();
+              }
+            }
+          } catch (err) {
+            if (currInnerIterator === innerIterator) {
+              sink.error(err);
+            }
+          }
+        };
+
+        (async () => {
+          try {
+            for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+              innerIterator?.return?.();
+              innerIterator = project(value, i++)[Symbol.asyncIterator]();
+              iterateInner(innerIterator);
+            }
+            isSourceDone = true;
+            if (!innerIterator) {
+              sink.complete();
+            }
+          } catch (err) {
+            sink.error(err);
+          }
+        })();
+
+        return () => {
+          iterator.return?.();
+          innerIterator?.return?.();
+          innerIterator = undefined;
+        };
+      }),
+  });
+}
@@ -0,0 +1,60 @@
+export { take };
+
+/**
+ * Creates an operator that yields only the first `count` values of the source async iterable, and
+ * then closes it and completes.
+ *
+ * @example
+ * ```ts
+ * import { pipe, take } from 'react-async-iterators';
+ *
+ * const firstThreeResults = pipe(resultsIter, take(3));
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ *
+ * @param count The number of values to yield.
+ *
+ * @returns An operator function that takes a source async iterable and returns a limited async iterable.
+ */
+function take<T>(count: number): (source: AsyncIterable<T>) => AsyncIterable<T> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: undefined | AsyncIterator<T>;
+      let remainingCount = count;
+      let closed = false;
+
+      return {
+        next: async () => {
+          if (closed || remainingCount <= 0) {
+            closed = true;
+            return { done: true, value: undefined };
+          }
+
+          iterator ??= source[Symbol.asyncIterator]();
+          const next = await iterator.next();
+
+          if (next.done) {
+            closed = true;
+            return next;
+          }
+
+          if (--remainingCount === 0) {
+            closed = true;
+            await iterator.return?.();
+          }
+
+          return next;
+        },
+
+        return: async () => {
+          if (!closed) {
+            closed = true;
+            await iterator?.return?.();
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,63 @@
+export { takeWhile };
+
+/**
+ * Creates an operator that yields the values of the source async iterable for as long as they
+ * satisfy `predicate`. Upon the first value that doesn't, the source is closed and the resulting
+ * iterable completes (without yielding that value).
+ *
+ * @example
+ * ```ts
+ * import { pipe, takeWhile } from 'react-async-iterators';
+ *
+ * const progressUntilDone = pipe(progressIter, takeWhile(progress => progress < 100));
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ *
+ * @param predicate A function that decides whether to keep on yielding, getting each value along with its zero-based index.
+ *
+ * @returns An operator function that takes a source async iterable and returns a limited async iterable.
+ */
+function takeWhile<T>(
+  predicate: (value: T, i: number) => boolean
+): (source: AsyncIterable<T>) => AsyncIterable<T> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      let iterator: undefined | AsyncIterator<T>;
+      let iterationIdx = 0;
+      let closed = false;
+
+      return {
+        next: async () => {
+          if (closed) {
+            return { done: true, value: undefined };
+          }
+
+          iterator ??= source[Symbol.asyncIterator]();
+          const next = await iterator.next();
+
+          if (next.done) {
+            closed = true;
+            return next;
+          }
+
+          if (!predicate(next.value, iterationIdx++)) {
+            closed = true;
+            await iterator.return?.();
+            return { done: true, value: undefined };
+          }
+
+          return next;
+        },
+
+        return: async () => {
+          if (!closed) {
+            closed = true;
+            await iterator?.return?.();
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
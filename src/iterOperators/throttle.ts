@@ -0,0 +1,75 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+
+export { throttle };
+
+/**
+ * Creates an operator that yields at most one value from the source async iterable per every `ms`
+ * milliseconds.
+ *
+ * A value that arrives while no throttling window is active is yielded immediately and opens a
+ * window of `ms` milliseconds. Values arriving during the window are held back, and once the window
+ * ends only the latest of them is yielded (which opens a new window in turn).
+ *
+ * If the source completes while a value is held back, that value is yielded right away before
+ * completing.
+ *
+ * @example
+ * ```ts
+ * import { pipe, throttle } from 'react-async-iterators';
+ *
+ * const pointerPositions = pipe(pointerMovesIter, throttle(50));
+ * ```
+ *
+ * @template T The type of values yielded by the source async iterable.
+ *
+ * @param ms The throttling window duration in milliseconds.
+ *
+ * @returns An operator function that takes a source async iterable and returns a throttled async iterable.
+ */
+function throttle<T>(ms: number): (source: AsyncIterable<T>) => AsyncIterable<T> {
+  return source => ({
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<T>(sink => {
+        const iterator = source[Symbol.asyncIterator]();
+        let heldBack: undefined | { value: T };
+        let timeoutId: undefined | ReturnType<typeof setTimeout>;
+
+        const openWindow = (): void => {
+          timeoutId = setTimeout(() => {
+            timeoutId = undefined;
+            if (heldBack) {
+              sink.next(heldBack.value);
+              heldBack = undefined;
+              openWindow();
+            }
+          }, ms);
+        };
+
+        (async () => {
+          try {
+            for await (const value of { [Symbol.asyncIterator]: () => iterator }) {
+              if (timeoutId === undefined) {
+                sink.next(value);
+                openWindow();
+              } else {
+                heldBack = { value };
+              }
+            }
+            clearTimeout(timeoutId);
+            if (heldBack) {
+              sink.next(heldBack.value);
+            }
+            sink.complete();
+          } catch (err) {
+            clearTimeout(timeoutId);
+            sink.error(err);
+          }
+        })();
+
+        return () => {
+          clearTimeout(timeoutId);
+          iterator.return?.();
+        };
+      }),
+  });
+}
@@ -0,0 +1,26 @@
+export { type ObservableLike, type ObserverLike, type Unsubscribable };
+
+/**
+ * The minimal shape of an observable, as implemented by RxJS's `Observable` (and its `Subject`s and
+ * `BehaviorSubject`s), as well as most other libraries following the
+ * [TC39 Observable proposal](https://github.com/tc39/proposal-observable).
+ */
+type ObservableLike<T> = {
+  subscribe(observerOrNext: Partial<ObserverLike<T>> | ((value: T) => void)): Unsubscribable;
+};
+
+/**
+ * An object receiving an observable's notifications.
+ */
+type ObserverLike<T> = {
+  next(value: T): void;
+  error(err: unknown): void;
+  complete(): void;
+};
+
+/**
+ * A subscription to an observable, which can be ended by calling its `unsubscribe` method.
+ */
+type Unsubscribable = {
+  unsubscribe(): void;
+};
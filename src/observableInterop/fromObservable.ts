@@ -0,0 +1,100 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { observableSymbol } from '../common/observableSymbol.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { type ObservableLike } from './ObservableLike.js';
+
+export { fromObservable };
+
+/**
+ * Converts an observable (such as an RxJS `Observable`, `Subject` or `BehaviorSubject`) into an
+ * async iterable of its emitted values.
+ *
+ * Every iterator obtained from the returned iterable subscribes to the observable lazily, upon its
+ * first `.next()` call, and unsubscribes as soon as it gets closed via `.return()`. Values emitted
+ * faster than they're pulled are queued up, and the observable's error or completion notification
+ * ends the iteration accordingly.
+ *
+ * If the observable has a synchronous current value (i.e. has a `getValue()` method, like an RxJS
+ * `BehaviorSubject`), the returned iterable is an {@link AsyncIterableSubject `AsyncIterableSubject`}
+ * whose `.value.current` reads it - so hooks and components such as `useAsyncIter` and `<It>` render
+ * it right away on mount rather than in a `pendingFirst` state. In that case, the current value such
+ * an observable replays to every new subscriber is not yielded again by an iterator if it's the
+ * same one that was last read through `.value.current`.
+ *
+ * Observables that expose themselves through the `Symbol.observable` interop point are also
+ * accepted as-is by `useAsyncIter` and `<It>`, which convert them via this same function.
+ *
+ * @example
+ * ```tsx
+ * import { BehaviorSubject } from 'rxjs';
+ * import { It, fromObservable } from 'react-async-iterators';
+ *
+ * const cartSubject = new BehaviorSubject<CartItem[]>([]);
+ * const cartIter = fromObservable(cartSubject);
+ *
+ * cartIter.value.current; // `[]`
+ *
+ * function CartBadge() {
+ *   return <It value={cartIter}>{({ value: items }) => items.length}</It>;
+ * }
+ * ```
+ *
+ * @template T The type of values emitted by the observable.
+ *
+ * @param observable The observable to convert.
+ *
+ * @returns An async iterable of the observable's values, which is also an `AsyncIterableSubject` if the observable has a `getValue()` method.
+ */
+function fromObservable<T>(
+  observable: ObservableLike<T> & { getValue(): T }
+): AsyncIterableSubject<T>;
+function fromObservable<T>(observable: ObservableLike<T>): AsyncIterable<T>;
+function fromObservable<T>(
+  observable: ObservableLike<T> & { getValue?(): T }
+): AsyncIterable<T> | AsyncIterableSubject<T> {
+  let lastReadCurrent: undefined | { value: T };
+
+  const iterable: AsyncIterable<T> = {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<T>(sink => {
+        const interopObservable: ObservableLike<T> =
+          typeof (observable as any)[observableSymbol] === 'function'
+            ? (observable as any)[observableSymbol]()
+            : observable;
+
+        let isSubscribing = true;
+
+        const subscription = interopObservable.subscribe({
+          next: value => {
+            if (isSubscribing && lastReadCurrent && Object.is(lastReadCurrent.value, value)) {
+              isSubscribing = false;
+              return; // Skipping the current value replayed upon subscribing (as `BehaviorSubject`s do), given it's the same one that was already read through `.value.current` (e.g. by a component rendering it, before it got to start iterating)
+            }
+            isSubscribing = false;
+            sink.next(value);
+          },
+          error: err => sink.error(err),
+          complete: () => sink.complete(),
+        });
+
+        isSubscribing = false;
+
+        return () => subscription.unsubscribe();
+      }),
+  };
+
+  if (typeof observable.getValue !== 'function') {
+    return iterable;
+  }
+
+  return {
+    ...iterable,
+    value: {
+      get current() {
+        const value = observable.getValue!();
+        lastReadCurrent = { value };
+        return value;
+      },
+    },
+  };
+}
@@ -0,0 +1,3 @@
+export { fromObservable } from './fromObservable.js';
+export { toObservable } from './toObservable.js';
+export { type ObservableLike, type ObserverLike, type Unsubscribable } from './ObservableLike.js';
@@ -0,0 +1,79 @@
+import { observableSymbol } from '../common/observableSymbol.js';
+import { type ObservableLike, type ObserverLike, type Unsubscribable } from './ObservableLike.js';
+
+export { toObservable };
+
+/**
+ * Converts an async iterable into an observable of its values, for use with RxJS and other
+ * observable-based code.
+ *
+ * Every subscription to the returned observable iterates the source separately, from a fresh
+ * iterator. Unsubscribing closes that iterator (via `.return()`), and the iteration's completion or
+ * error is delivered to the subscriber's `complete` or `error` callbacks respectively.
+ *
+ * The returned observable exposes itself through the `Symbol.observable` interop point, so it can
+ * be passed straight to RxJS's `from()` to get a full-fledged RxJS `Observable`.
+ *
+ * @example
+ * ```ts
+ * import { from, debounceTime } from 'rxjs';
+ * import { toObservable } from 'react-async-iterators';
+ *
+ * const subscription = from(toObservable(searchQueryIter))
+ *   .pipe(debounceTime(300))
+ *   .subscribe(query => console.log(query));
+ * ```
+ *
+ * @template T The type of values yielded by the async iterable.
+ *
+ * @param source The async iterable to convert.
+ *
+ * @returns An observable of the async iterable's values.
+ */
+function toObservable<T>(source: AsyncIterable<T>): ObservableLike<T> {
+  const observable: ObservableLike<T> = {
+    subscribe(observerOrNext: Partial<ObserverLike<T>> | ((value: T) => void)): Unsubscribable {
+      const observer =
+        typeof observerOrNext === 'function' ? { next: observerOrNext } : observerOrNext;
+      const iterator = source[Symbol.asyncIterator]();
+      let closed = false;
+
+      (async () => {
+        try {
+          while (true) {
+            const next = await iterator.next();
+            if (closed) {
+              return;
+            }
+            if (next.done) {
+              closed = true;
+              observer.complete?.();
+              return;
+            }
+            observer.next?.(next.value);
+          }
+        } catch (err) {
+          if (!closed) {
+            closed = true;
+            observer.error?.(err);
+          }
+        }
+      })();
+
+      return {
+        unsubscribe: () => {
+          if (!closed) {
+            closed = true;
+            iterator.return?.();
+          }
+        },
+      };
+    },
+
+    [observableSymbol](): ObservableLike<T> {
+      return observable;
+    },
+  };
+
+  return observable;
+}
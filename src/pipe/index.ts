@@ -1,5 +1,29 @@
+import { type map, type filter } from '../iterOperators/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
 export { pipe };
 
+/**
+ * Passes a starting value through a sequence of functions, each getting the result of the previous
+ * one, and returns the final result. Meant for chaining async iterable operators (like
+ * {@link map `map`}, {@link filter `filter`} and others) in a readable top-to-bottom order.
+ *
+ * @example
+ * ```ts
+ * import { pipe, filter, map, take } from 'react-async-iterators';
+ *
+ * const firstFiveActiveUserNames = pipe(
+ *   usersIter,
+ *   filter(user => user.isActive),
+ *   map(user => user.name),
+ *   take(5)
+ * );
+ * ```
+ *
+ * @param initVal The starting value.
+ * @param funcs Up to 10 functions to pass the value through, in order.
+ *
+ * @returns The result of the last function, or `initVal` itself if no functions were given.
+ */
 const pipe: {
   <const TInitVal>(initVal: TInitVal): TInitVal;
 
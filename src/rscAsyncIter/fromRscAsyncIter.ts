@@ -0,0 +1,78 @@
+import { type toRscAsyncIter, type RscAsyncIter } from './toRscAsyncIter.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type useSharedAsyncIter } from '../useSharedAsyncIter/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { fromRscAsyncIter };
+
+const reconstructedIters = new WeakMap<RscAsyncIter<unknown>, AsyncIterable<unknown>>();
+
+/**
+ * Reconstructs an async iterable that was passed from a
+ * [React Server Component](https://react.dev/reference/rsc/server-components) via
+ * {@link toRscAsyncIter `toRscAsyncIter`}, to be consumed on the client, e.g. with `useAsyncIter` or
+ * `<It>`.
+ *
+ * Calling this multiple times with the same given prop returns the same async iterable object, so
+ * it can be safely called inline during render without restarting the iteration on each render.
+ *
+ * The streamed values are consumed as they're yielded, without being retained any further - so the
+ * returned async iterable may only be iterated by a single iterator at a time, where each subsequent
+ * iterator picks up from where the previous one was closed. To consume it from multiple places at
+ * once, share it via {@link useSharedAsyncIter `useSharedAsyncIter`}. Closing an iterator only stops
+ * it from yielding further values - it does not affect the iteration happening on the server.
+ *
+ * @template T The type of values yielded by the original async iterable.
+ *
+ * @param rscIter The stream produced by {@link toRscAsyncIter `toRscAsyncIter`}, as received on the client.
+ *
+ * @returns An async iterable yielding the values streamed from the server.
+ *
+ * @see {@link toRscAsyncIter `toRscAsyncIter`}
+ */
+function fromRscAsyncIter<T>(rscIter: RscAsyncIter<T>): AsyncIterable<T> {
+  let reconstructed = reconstructedIters.get(rscIter) as undefined | AsyncIterable<T>;
+
+  if (!reconstructed) {
+    reconstructed = {
+      [Symbol.asyncIterator]: () => {
+        const reader = rscIter.getReader();
+        let isClosed = false;
+
+        return {
+          next: async (): Promise<IteratorResult<T, undefined>> => {
+            if (isClosed) {
+              return { done: true, value: undefined };
+            }
+            let next;
+            try {
+              next = await reader.read();
+            } catch (err) {
+              if (isClosed) {
+                return { done: true, value: undefined }; // A read still pending when the iterator gets closed is rejected by releasing the reader's lock
+              }
+              isClosed = true;
+              reader.releaseLock();
+              throw err;
+            }
+            if (next.done) {
+              isClosed = true;
+              reader.releaseLock();
+              return { done: true, value: undefined };
+            }
+            return { done: false, value: next.value };
+          },
+
+          return: async () => {
+            if (!isClosed) {
+              isClosed = true;
+              reader.releaseLock();
+            }
+            return { done: true, value: undefined };
+          },
+        };
+      },
+    };
+    reconstructedIters.set(rscIter, reconstructed);
+  }
+
+  return reconstructed;
+}
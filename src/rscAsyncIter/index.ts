@@ -0,0 +1,2 @@
+export { toRscAsyncIter, type RscAsyncIter } from './toRscAsyncIter.js';
+export { fromRscAsyncIter } from './fromRscAsyncIter.js';
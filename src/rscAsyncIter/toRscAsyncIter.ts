@@ -0,0 +1,83 @@
+import { type fromRscAsyncIter } from './fromRscAsyncIter.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { toRscAsyncIter, type RscAsyncIter };
+
+/**
+ * Converts an async iterable into a form that can be passed from a
+ * [React Server Component](https://react.dev/reference/rsc/server-components) as a prop to a client
+ * component, having its values streamed over to the client as part of the RSC payload. On the client,
+ * use {@link fromRscAsyncIter `fromRscAsyncIter`} to reconstruct it back into an async iterable.
+ *
+ * @example
+ * ```tsx
+ * // In a Server Component:
+ *
+ * import { toRscAsyncIter } from 'react-async-iterators';
+ *
+ * async function LiveScorePage() {
+ *   const scoreUpdates = watchScoreUpdatesFromDb(); // Some long-running async generator
+ *   return <LiveScore scoreUpdates={toRscAsyncIter(scoreUpdates)} />;
+ * }
+ *
+ * // In a Client Component:
+ *
+ * 'use client';
+ * import { fromRscAsyncIter, It } from 'react-async-iterators';
+ *
+ * function LiveScore(props) {
+ *   return (
+ *     <It value={fromRscAsyncIter(props.scoreUpdates)}>
+ *       {({ value: score }) => <Score score={score} />}
+ *     </It>
+ *   );
+ * }
+ * ```
+ *
+ * ---
+ *
+ * The async iterable is represented as a `ReadableStream`, which RSC is able to serialize and stream
+ * over to the client as its values come in. An error the async iterable ends with errors the stream
+ * with it (subject to how RSC serializes errors).
+ *
+ * The async iterable is iterated lazily - a value is pulled from it only as RSC reads the next one
+ * off the stream, and if the request is aborted (e.g. the client disconnects) or the stream is
+ * otherwise canceled, the iteration is closed (its iterator's `return()` gets called). Yielded values
+ * need to be serializable by RSC.
+ *
+ * ---
+ *
+ * @template T The type of values yielded by the given async iterable.
+ *
+ * @param source The async iterable to convert.
+ *
+ * @returns A stream representing the async iterable, to be passed as a prop to a client component.
+ *
+ * @see {@link fromRscAsyncIter `fromRscAsyncIter`}
+ */
+function toRscAsyncIter<T>(source: AsyncIterable<T>): RscAsyncIter<T> {
+  let iterator: undefined | AsyncIterator<T>;
+
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        iterator ??= source[Symbol.asyncIterator]();
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(next.value);
+        }
+      },
+      async cancel() {
+        await iterator?.return?.();
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+/**
+ * A serializable representation of an async iterable, as a `ReadableStream` of its values, as
+ * produced by {@link toRscAsyncIter `toRscAsyncIter`}.
+ */
+type RscAsyncIter<T> = ReadableStream<T>;
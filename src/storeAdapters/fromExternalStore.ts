@@ -0,0 +1,121 @@
+import { AsyncIterableChannel } from '../common/AsyncIterableChannel.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
+import { type fromStore } from './fromStore.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type fromSignal } from './fromSignal.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { fromExternalStore, type StoreUnsubscribe };
+
+/**
+ * Creates an async iterable subject out of an external store, given the same pair of functions that
+ * React's [`useSyncExternalStore`](https://react.dev/reference/react/useSyncExternalStore) takes -
+ * one for subscribing to the store's changes, and one for reading its current snapshot.
+ *
+ * The returned iterable's `.value.current` reads the store's snapshot live, so hooks and components
+ * such as `useAsyncIter` and `<It>` render it right away on mount rather than in a `pendingFirst`
+ * state. Its iterators then yield every changed snapshot - rapid successive changes are coalesced
+ * into the latest one, but the latest one is never missed, even if changed while an iterator isn't
+ * currently pulling. Snapshots considered equal to the previous one (by `Object.is`, unless
+ * customized via `opts.isEqual`) are skipped.
+ *
+ * Every iterator subscribes to the store lazily, upon its first `.next()` call. Closing it via
+ * `.return()` unsubscribes from the store and resolves any pending pull as completed, exactly like
+ * closing an iterator of a state iterable made by `useAsyncIterState` or `createAsyncIterState`.
+ *
+ * For stores with a `subscribe`/`getState` contract (e.g. Redux or Zustand) see
+ * {@link fromStore `fromStore`}, and for signals see {@link fromSignal `fromSignal`}.
+ *
+ * @example
+ * ```tsx
+ * import { It, fromExternalStore } from 'react-async-iterators';
+ *
+ * const onlineStatusIter = fromExternalStore(
+ *   onChange => {
+ *     window.addEventListener('online', onChange);
+ *     window.addEventListener('offline', onChange);
+ *     return () => {
+ *       window.removeEventListener('online', onChange);
+ *       window.removeEventListener('offline', onChange);
+ *     };
+ *   },
+ *   () => navigator.onLine
+ * );
+ *
+ * function OnlineIndicator() {
+ *   return <It value={onlineStatusIter}>{({ value: isOnline }) => (isOnline ? '🟢' : '🔴')}</It>;
+ * }
+ * ```
+ *
+ * @template T The type of the store's snapshots.
+ *
+ * @param subscribe A function that subscribes a given callback to the store's changes, returning a function (or an object with an `unsubscribe` method) for unsubscribing it.
+ * @param getSnapshot A function that returns the store's current snapshot.
+ * @param opts _Optional_ options - `isEqual` determines which consecutive snapshots are considered equal and skipped (pass `false` to yield on every store change notification).
+ *
+ * @returns An async iterable subject of the store's snapshots.
+ */
+function fromExternalStore<T>(
+  subscribe: (onStoreChange: () => void) => StoreUnsubscribe,
+  getSnapshot: () => T,
+  opts?: { isEqual?: IsEqualOpt }
+): AsyncIterableSubject<T> {
+  const isEqual = opts?.isEqual ?? Object.is;
+  let lastReadCurrent: undefined | { snapshot: T };
+
+  return {
+    value: {
+      get current() {
+        const snapshot = getSnapshot();
+        lastReadCurrent = { snapshot };
+        return snapshot;
+      },
+    },
+
+    [Symbol.asyncIterator]: () => {
+      const channel = new AsyncIterableChannel<T, T>(undefined as T, { buffer: 1 });
+      const iterator = channel.out[Symbol.asyncIterator]();
+      let unsubscribe: undefined | (() => void);
+      let isClosed = false;
+
+      return {
+        next: () => {
+          if (!unsubscribe && !isClosed) {
+            let lastSnapshot = getSnapshot();
+
+            if (lastReadCurrent && !(isEqual && isEqual(lastReadCurrent.snapshot, lastSnapshot))) {
+              channel.put(() => lastSnapshot); // The store changed since its current snapshot was last read (e.g. by a component rendering it, before it got to start iterating) - so the change is delivered right away rather than missed
+            }
+
+            const unsubscribeResult = subscribe(() => {
+              const snapshot = getSnapshot();
+              if (!(isEqual && isEqual(lastSnapshot, snapshot))) {
+                lastSnapshot = snapshot;
+                channel.put(() => snapshot); // Wrapping in a function since the snapshot may itself be a function, which `put` would otherwise treat as an updater
+              }
+            });
+            unsubscribe =
+              typeof unsubscribeResult === 'function'
+                ? unsubscribeResult
+                : () => unsubscribeResult.unsubscribe();
+          }
+          return iterator.next() as Promise<IteratorResult<T, undefined>>;
+        },
+
+        return: async () => {
+          if (!isClosed) {
+            isClosed = true;
+            unsubscribe?.();
+            channel.close();
+          }
+          return iterator.return() as Promise<IteratorReturnResult<undefined>>;
+        },
+      };
+    },
+  };
+}
+
+/**
+ * What a store's `subscribe` function returns - either a function for unsubscribing, or an object
+ * with an `unsubscribe` method.
+ */
+type StoreUnsubscribe = (() => void) | { unsubscribe(): void };
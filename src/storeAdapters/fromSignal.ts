@@ -0,0 +1,104 @@
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
+import { fromExternalStore, type StoreUnsubscribe } from './fromExternalStore.js';
+
+export { fromSignal, type SignalLike };
+
+/**
+ * Creates an async iterable subject out of a signal, being either:
+ *
+ * - A subscribable signal with a `value` property and a `subscribe` method, such as
+ * [Preact signals](https://preactjs.com/guide/v10/signals) (including computed ones).
+ *
+ * - A [TC39-style signal](https://github.com/tc39/proposal-signals) (a `Signal.State` or
+ * `Signal.Computed`) with a `get()` method, which is watched through a `Signal.subtle.Watcher` -
+ * so a global `Signal` implementation (e.g. the proposal's polyfill) must be available.
+ *
+ * The returned iterable's `.value.current` reads the signal's value live (without being tracked as
+ * a dependency by any surrounding effect or computed signal), and its iterators yield every change of
+ * it. Subscriptions are made lazily per iterator and ended as soon as the iterator is closed - see
+ * {@link fromExternalStore `fromExternalStore`} for the full details.
+ *
+ * @example
+ * ```tsx
+ * import { signal, computed } from '@preact/signals-core';
+ * import { It, fromSignal } from 'react-async-iterators';
+ *
+ * const count = signal(0);
+ * const countIter = fromSignal(computed(() => count.value * 2));
+ *
+ * function DoubleCount() {
+ *   return <It value={countIter}>{({ value }) => value}</It>;
+ * }
+ * ```
+ *
+ * @template T The type of the signal's value.
+ *
+ * @param signal The signal to read from.
+ * @param opts _Optional_ options - `isEqual` determines which consecutive values are considered equal and skipped.
+ *
+ * @returns An async iterable subject of the signal's value.
+ */
+function fromSignal<T>(
+  signal: SignalLike<T>,
+  opts?: { isEqual?: IsEqualOpt }
+): AsyncIterableSubject<T> {
+  if ('subscribe' in signal) {
+    return fromExternalStore(
+      onChange => signal.subscribe(() => onChange()),
+      () => (signal.peek ? signal.peek() : signal.value),
+      opts
+    );
+  }
+
+  return fromExternalStore(
+    onChange => {
+      const Watcher = (globalThis as any).Signal?.subtle?.Watcher;
+
+      if (!Watcher) {
+        throw new Error(
+          '`fromSignal` requires a global `Signal.subtle.Watcher` implementation for TC39-style signals'
+        );
+      }
+
+      let isWatching = true;
+
+      const watcher = new Watcher(() => {
+        queueMicrotask(() => {
+          if (isWatching) {
+            onChange();
+            watcher.watch(); // Re-arming the watcher's notifications, which per the proposal are only delivered once until then
+          }
+        });
+      });
+
+      watcher.watch(signal);
+
+      return () => {
+        isWatching = false;
+        watcher.unwatch(signal);
+      };
+    },
+    () => readUntracked(signal),
+    opts
+  );
+}
+
+function readUntracked<T>(signal: { get(): T }): T {
+  const untrack = (globalThis as any).Signal?.subtle?.untrack;
+  return untrack ? untrack(() => signal.get()) : signal.get();
+}
+
+/**
+ * The shape of a signal accepted by {@link fromSignal `fromSignal`} - either a subscribable signal
+ * (like Preact signals) or a TC39-style signal.
+ */
+type SignalLike<T> =
+  | {
+      readonly value: T;
+      peek?(): T;
+      subscribe(fn: (value: T) => void): StoreUnsubscribe;
+    }
+  | {
+      get(): T;
+    };
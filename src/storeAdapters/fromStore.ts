@@ -0,0 +1,65 @@
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
+import { fromExternalStore, type StoreUnsubscribe } from './fromExternalStore.js';
+
+export { fromStore, type StoreLike };
+
+/**
+ * Creates an async iterable subject out of a store with a `subscribe`/`getState` contract, such as
+ * a [Redux](https://redux.js.org) store or a [Zustand](https://zustand.docs.pmnd.rs) store, optionally
+ * narrowed down to a selected part of its state.
+ *
+ * The returned iterable's `.value.current` reads the store's (selected) state live, and its
+ * iterators yield every change of it, skipping changes that leave the selected state equal to the
+ * previous one (by `Object.is`, unless customized via `opts.isEqual`). Subscriptions to the store are
+ * made lazily per iterator and ended as soon as the iterator is closed - see
+ * {@link fromExternalStore `fromExternalStore`} for the full details.
+ *
+ * @example
+ * ```tsx
+ * import { It, fromStore, shallowEqual } from 'react-async-iterators';
+ * import { store } from './store.js';
+ *
+ * const cartItemsIter = fromStore(store, state => state.cart.items);
+ *
+ * const userInfoIter = fromStore(
+ *   store,
+ *   state => ({ name: state.user.name, avatar: state.user.avatar }),
+ *   { isEqual: shallowEqual }
+ * );
+ *
+ * function CartBadge() {
+ *   return <It value={cartItemsIter}>{({ value: items }) => items.length}</It>;
+ * }
+ * ```
+ *
+ * @template TState The type of the store's state.
+ * @template TSelected The type of the selected part of the state, defaults to the entire state.
+ *
+ * @param store The store to read from.
+ * @param selector _Optional_ A function selecting the part of the state to yield, defaults to the entire state.
+ * @param opts _Optional_ options - `isEqual` determines which consecutive selected states are considered equal and skipped.
+ *
+ * @returns An async iterable subject of the store's (selected) state.
+ */
+function fromStore<TState, TSelected = TState>(
+  store: StoreLike<TState>,
+  selector?: (state: TState) => TSelected,
+  opts?: { isEqual?: IsEqualOpt }
+): AsyncIterableSubject<TSelected> {
+  const select = selector ?? ((state: TState) => state as unknown as TSelected);
+
+  return fromExternalStore(
+    onStoreChange => store.subscribe(() => onStoreChange()),
+    () => select(store.getState()),
+    opts
+  );
+}
+
+/**
+ * The minimal shape of a store accepted by {@link fromStore `fromStore`}.
+ */
+type StoreLike<TState> = {
+  getState(): TState;
+  subscribe(listener: () => void): StoreUnsubscribe;
+};
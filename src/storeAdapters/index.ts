@@ -0,0 +1,3 @@
+export { fromExternalStore, type StoreUnsubscribe } from './fromExternalStore.js';
+export { fromStore, type StoreLike } from './fromStore.js';
+export { fromSignal, type SignalLike } from './fromSignal.js';
@@ -0,0 +1,27 @@
+import { transformChunks } from './transformChunks.js';
+import { lineSplitter } from './lineSplitter.js';
+
+export { decodeLines };
+
+/**
+ * Creates an operator that re-chunks a source async iterable of text into individual lines, with
+ * line breaks (either `\n`, `\r\n` or `\r`) removed.
+ *
+ * Lines split across several source chunks are joined together, and lines sharing a single chunk
+ * are yielded one by one. Any trailing text that isn't followed by a line break is yielded as a
+ * last line once the source completes. Closing the resulting iterator closes the source as well.
+ *
+ * @example
+ * ```ts
+ * import { pipe, fromReadableStream, decodeText, decodeLines } from 'react-async-iterators';
+ *
+ * const res = await fetch('/api/build/123/output');
+ *
+ * const outputLinesIter = pipe(fromReadableStream(res.body!), decodeText(), decodeLines());
+ * ```
+ *
+ * @returns An operator function that takes a source async iterable of text chunks and returns an async iterable of lines.
+ */
+function decodeLines(): (source: AsyncIterable<string>) => AsyncIterable<string> {
+  return transformChunks(lineSplitter);
+}
@@ -0,0 +1,41 @@
+import { transformChunks } from './transformChunks.js';
+import { lineSplitter } from './lineSplitter.js';
+
+export { decodeNdjson };
+
+/**
+ * Creates an operator that parses a source async iterable of text as
+ * [newline-delimited JSON](https://github.com/ndjson/ndjson-spec), yielding the value parsed from
+ * every line. Blank lines are skipped.
+ *
+ * A line which fails to parse errors out the resulting iterable with the `SyntaxError` thrown by
+ * `JSON.parse`. Closing the resulting iterator closes the source as well.
+ *
+ * @example
+ * ```ts
+ * import { pipe, fromReadableStream, decodeText, decodeNdjson } from 'react-async-iterators';
+ *
+ * const res = await fetch('/api/logs/stream');
+ *
+ * const logEntriesIter = pipe(
+ *   fromReadableStream(res.body!),
+ *   decodeText(),
+ *   decodeNdjson<{ level: string; message: string }>()
+ * );
+ * ```
+ *
+ * @template T The type of the parsed values (not validated in any way).
+ *
+ * @returns An operator function that takes a source async iterable of text chunks and returns an async iterable of the parsed values.
+ */
+function decodeNdjson<T = unknown>(): (source: AsyncIterable<string>) => AsyncIterable<T> {
+  return transformChunks(() => {
+    const splitter = lineSplitter();
+    const parseLines = (lines: string[]): T[] =>
+      lines.filter(line => line.trim()).map(line => JSON.parse(line));
+    return {
+      push: chunk => parseLines(splitter.push(chunk)),
+      flush: () => parseLines(splitter.flush()),
+    };
+  });
+}
@@ -0,0 +1,115 @@
+import { transformChunks } from './transformChunks.js';
+import { lineSplitter } from './lineSplitter.js';
+import { type fromEventSource } from './fromEventSource.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { decodeSse, type SseEvent };
+
+/**
+ * Creates an operator that parses a source async iterable of text in the
+ * [server-sent events format](https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation),
+ * yielding every dispatched event as an {@link SseEvent `SseEvent`}.
+ *
+ * This is useful for consuming server-sent events from a `fetch` response, where `EventSource`
+ * can't be used (e.g. with a `POST` method or custom headers). Unlike with `EventSource`, no
+ * reconnection is ever attempted - for that, see {@link fromEventSource `fromEventSource`}.
+ *
+ * Following the format, `data` fields spanning multiple lines are joined with `\n`, comment lines
+ * (starting with `:`) are ignored, and events with no `data` are not dispatched. An event that's
+ * still incomplete when the source completes is discarded. Closing the resulting iterator closes
+ * the source as well.
+ *
+ * @example
+ * ```ts
+ * import { pipe, fromReadableStream, decodeText, decodeSse } from 'react-async-iterators';
+ *
+ * const res = await fetch('/api/chat', { method: 'POST', body: JSON.stringify({ message }) });
+ *
+ * const chatEventsIter = pipe(fromReadableStream(res.body!), decodeText(), decodeSse());
+ * ```
+ *
+ * @returns An operator function that takes a source async iterable of text chunks and returns an async iterable of events.
+ */
+function decodeSse(): (source: AsyncIterable<string>) => AsyncIterable<SseEvent> {
+  return transformChunks(() => {
+    const splitter = lineSplitter();
+    let eventType = '';
+    let dataLines: string[] = [];
+    let lastEventId = '';
+    let retry: undefined | number;
+
+    const processLines = (lines: string[]): SseEvent[] => {
+      const events: SseEvent[] = [];
+
+      for (const line of lines) {
+        if (line === '') {
+          if (dataLines.length) {
+            events.push({
+              event: eventType || 'message',
+              data: dataLines.join('\n'),
+              id: lastEventId,
+              retry,
+            });
+          }
+          eventType = '';
+          dataLines = [];
+          retry = undefined;
+          continue;
+        }
+
+        if (line.startsWith(':')) {
+          continue;
+        }
+
+        const colonIdx = line.indexOf(':');
+        const field = colonIdx === -1 ? line : line.slice(0, colonIdx);
+        let value = colonIdx === -1 ? '' : line.slice(colonIdx + 1);
+        if (value.startsWith(' ')) {
+          value = value.slice(1);
+        }
+
+        switch (field) {
+          case 'event':
+            eventType = value;
+            break;
+          case 'data':
+            dataLines.push(value);
+            break;
+          case 'id':
+            if (!value.includes('\0')) {
+              lastEventId = value;
+            }
+            break;
+          case 'retry':
+            if (/^\d+$/.test(value)) {
+              retry = parseInt(value, 10);
+            }
+            break;
+        }
+      }
+
+      return events;
+    };
+
+    return {
+      push: chunk => processLines(splitter.push(chunk)),
+      flush: () => {
+        splitter.flush(); // Per the format, a trailing event that wasn't terminated by a blank line is never dispatched
+        return [];
+      },
+    };
+  });
+}
+
+/**
+ * A single event parsed by {@link decodeSse `decodeSse`}.
+ */
+type SseEvent = {
+  /** The event's type, as given by its `event` field, defaults to `'message'`. */
+  event: string;
+  /** The event's data, with the values of multiple `data` fields joined with `\n`. */
+  data: string;
+  /** The last event ID seen in the stream so far (as per the format, it carries over to following events), or an empty string if none was seen. */
+  id: string;
+  /** The reconnection time in milliseconds requested by the event's `retry` field, if it had one. */
+  retry?: number;
+};
@@ -0,0 +1,38 @@
+import { transformChunks } from './transformChunks.js';
+import { type fromReadableStream } from './fromReadableStream.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { decodeText };
+
+/**
+ * Creates an operator that decodes chunks of bytes (as read from a byte stream, e.g. via
+ * {@link fromReadableStream `fromReadableStream`}) into text chunks, using a
+ * [`TextDecoder`](https://developer.mozilla.org/en-US/docs/Web/API/TextDecoder).
+ *
+ * Multi-byte characters split across chunks are decoded correctly. Chunks that decode into no
+ * complete characters at all are skipped. Closing the resulting iterator closes the source as well.
+ *
+ * @example
+ * ```ts
+ * import { pipe, fromReadableStream, decodeText } from 'react-async-iterators';
+ *
+ * const res = await fetch('/api/completion', { method: 'POST', body: prompt });
+ *
+ * const completionChunksIter = pipe(fromReadableStream(res.body!), decodeText());
+ * ```
+ *
+ * @param encoding _Optional_ The encoding to decode with, defaults to `'utf-8'`.
+ *
+ * @returns An operator function that takes a source async iterable of bytes and returns an async iterable of text chunks.
+ */
+function decodeText(
+  encoding?: string
+): (source: AsyncIterable<AllowSharedBufferSource>) => AsyncIterable<string> {
+  return transformChunks(() => {
+    const decoder = new TextDecoder(encoding);
+    const nonEmpty = (text: string): string[] => (text ? [text] : []);
+    return {
+      push: chunk => nonEmpty(decoder.decode(chunk, { stream: true })),
+      flush: () => nonEmpty(decoder.decode()),
+    };
+  });
+}
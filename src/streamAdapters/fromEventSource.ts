@@ -0,0 +1,81 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+import { type decodeSse } from './decodeSse.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { fromEventSource };
+
+/**
+ * Creates an async iterable that yields every event received over a
+ * [server-sent events](https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events)
+ * connection, through an [`EventSource`](https://developer.mozilla.org/en-US/docs/Web/API/EventSource).
+ *
+ * When given a URL, every iterator obtained from the returned iterable opens its own connection
+ * lazily, upon its first `.next()` call. When given an existing `EventSource` instance instead, it
+ * is listened to as-is.
+ *
+ * By default only unnamed events (of the `'message'` type) are yielded - events with other names
+ * can be included via `opts.eventTypes`. The yielded items are the received
+ * [`MessageEvent`](https://developer.mozilla.org/en-US/docs/Web/API/MessageEvent)s themselves, so
+ * each one's `type`, `data` and `lastEventId` are all available.
+ *
+ * Since `EventSource` reconnects on its own after transient failures, the iteration errors out only
+ * once the connection fails for good. Closing the iterator via `.return()` removes all its
+ * listeners and closes the connection.
+ *
+ * For server-sent events requested via `fetch` (e.g. with a `POST` method or custom headers),
+ * see {@link decodeSse `decodeSse`} instead.
+ *
+ * @example
+ * ```tsx
+ * import { It, pipe, map, fromEventSource } from 'react-async-iterators';
+ *
+ * const notificationsIter = pipe(
+ *   fromEventSource('/api/notifications', { eventTypes: ['notification'] }),
+ *   map(event => JSON.parse(event.data))
+ * );
+ * ```
+ *
+ * @param sourceOrUrl Either a URL to connect to, or an existing `EventSource` instance.
+ * @param opts _Optional_ options - `eventTypes` are the names of events to yield (defaults to `['message']`), while `withCredentials` is passed on to the `EventSource` constructor (when given a URL).
+ *
+ * @returns An async iterable of the received events.
+ */
+function fromEventSource(
+  sourceOrUrl: EventSource | string | URL,
+  opts?: {
+    eventTypes?: string[];
+    withCredentials?: boolean;
+  }
+): AsyncIterable<MessageEvent<string>> {
+  const eventTypes = opts?.eventTypes ?? ['message'];
+
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<MessageEvent<string>>(sink => {
+        const source =
+          typeof sourceOrUrl === 'string' || sourceOrUrl instanceof URL
+            ? new EventSource(sourceOrUrl, { withCredentials: opts?.withCredentials })
+            : sourceOrUrl;
+
+        const handleEvent = (event: Event): void => sink.next(event as MessageEvent<string>);
+
+        const handleError = (): void => {
+          if (source.readyState === source.CLOSED) {
+            sink.error(new Error('EventSource connection failed'));
+          }
+        };
+
+        for (const type of eventTypes) {
+          source.addEventListener(type, handleEvent);
+        }
+        source.addEventListener('error', handleError);
+
+        return () => {
+          for (const type of eventTypes) {
+            source.removeEventListener(type, handleEvent);
+          }
+          source.removeEventListener('error', handleError);
+          source.close();
+        };
+      }),
+  };
+}
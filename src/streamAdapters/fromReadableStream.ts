@@ -0,0 +1,85 @@
+import { type decodeText } from './decodeText.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type decodeLines } from './decodeLines.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type decodeNdjson } from './decodeNdjson.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type decodeSse } from './decodeSse.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { fromReadableStream };
+
+/**
+ * Creates an async iterable that yields every chunk read from the given
+ * [`ReadableStream`](https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream), such as the
+ * body of a `fetch` response.
+ *
+ * The stream gets locked to a reader upon the first `.next()` call. Closing the iterator via
+ * `.return()` cancels the stream (which, for a `fetch` response body, aborts the download) and
+ * releases the lock, unless `opts.preventCancel` is given - in which case only the lock is released.
+ *
+ * Chunks of bytes can be decoded into text via {@link decodeText `decodeText`}, and then further
+ * into lines, JSON values or server-sent events via {@link decodeLines `decodeLines`},
+ * {@link decodeNdjson `decodeNdjson`} or {@link decodeSse `decodeSse`}.
+ *
+ * @example
+ * ```ts
+ * import { pipe, fromReadableStream, decodeText, decodeNdjson } from 'react-async-iterators';
+ *
+ * const res = await fetch('/api/logs/stream');
+ *
+ * const logEntriesIter = pipe(fromReadableStream(res.body!), decodeText(), decodeNdjson());
+ * ```
+ *
+ * @template T The type of chunks in the stream.
+ *
+ * @param stream The stream to read from.
+ * @param opts _Optional_ options - `preventCancel` keeps the stream from being canceled when the iterator is closed.
+ *
+ * @returns An async iterable of the stream's chunks.
+ */
+function fromReadableStream<T>(
+  stream: ReadableStream<T>,
+  opts?: { preventCancel?: boolean }
+): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator]: () => {
+      let reader: undefined | ReadableStreamDefaultReader<T>;
+      let closed = false;
+
+      return {
+        next: async () => {
+          if (closed) {
+            return { done: true, value: undefined };
+          }
+
+          reader ??= stream.getReader();
+
+          try {
+            const result = await reader.read();
+            if (!result.done) {
+              return { done: false, value: result.value };
+            }
+          } catch (err) {
+            closed = true;
+            reader.releaseLock();
+            throw err;
+          }
+
+          closed = true;
+          reader.releaseLock();
+          return { done: true, value: undefined };
+        },
+
+        return: async () => {
+          if (!closed) {
+            closed = true;
+            if (reader) {
+              if (!opts?.preventCancel) {
+                await reader.cancel();
+              }
+              reader.releaseLock();
+            }
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  };
+}
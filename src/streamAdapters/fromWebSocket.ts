@@ -0,0 +1,86 @@
+import { pushAsyncIterator } from '../common/pushAsyncIterator.js';
+
+export { fromWebSocket };
+
+/**
+ * Creates an async iterable that yields the data of every message received over a
+ * [`WebSocket`](https://developer.mozilla.org/en-US/docs/Web/API/WebSocket) connection.
+ *
+ * When given a URL, every iterator obtained from the returned iterable opens its own connection
+ * lazily, upon its first `.next()` call. When given an existing `WebSocket` instance instead, it
+ * is listened to as-is (useful when messages should also be sent over it).
+ *
+ * The iteration completes once the connection is closed cleanly, or errors out if it's closed
+ * otherwise (e.g. due to a network failure). Closing the iterator via `.return()` removes all its
+ * listeners and closes the connection, if still open.
+ *
+ * @example
+ * ```tsx
+ * import { It, pipe, map, fromWebSocket } from 'react-async-iterators';
+ *
+ * const tickerIter = pipe(
+ *   fromWebSocket<string>('wss://example.com/ticker'),
+ *   map(msg => JSON.parse(msg))
+ * );
+ *
+ * function Ticker() {
+ *   return <It value={tickerIter}>{({ value: tick }) => tick?.price}</It>;
+ * }
+ * ```
+ *
+ * @template TData The type of the received messages' data, defaults to any of the types a `WebSocket` may deliver.
+ *
+ * @param socketOrUrl Either a URL to connect to, or an existing `WebSocket` instance.
+ * @param opts _Optional_ options - `protocols` are passed on to the `WebSocket` constructor (when given a URL), while `binaryType` determines how binary messages are delivered (see [`WebSocket.binaryType`](https://developer.mozilla.org/en-US/docs/Web/API/WebSocket/binaryType)).
+ *
+ * @returns An async iterable of the received messages' data.
+ */
+function fromWebSocket<TData = string | ArrayBuffer | Blob>(
+  socketOrUrl: WebSocket | string | URL,
+  opts?: {
+    protocols?: string | string[];
+    binaryType?: BinaryType;
+  }
+): AsyncIterable<TData> {
+  return {
+    [Symbol.asyncIterator]: () =>
+      pushAsyncIterator<TData>(sink => {
+        const socket =
+          typeof socketOrUrl === 'string' || socketOrUrl instanceof URL
+            ? new WebSocket(socketOrUrl, opts?.protocols)
+            : socketOrUrl;
+
+        if (opts?.binaryType) {
+          socket.binaryType = opts.binaryType;
+        }
+
+        if (socket.readyState === socket.CLOSED) {
+          sink.complete();
+          return;
+        }
+
+        const handleMessage = (event: MessageEvent): void => sink.next(event.data);
+
+        const handleClose = (event: CloseEvent): void => {
+          if (event.wasClean) {
+            sink.complete();
+          } else {
+            sink.error(
+              new Error(`WebSocket connection closed abnormally (close code ${event.code})`)
+            );
+          }
+        };
+
+        socket.addEventListener('message', handleMessage);
+        socket.addEventListener('close', handleClose);
+
+        return () => {
+          socket.removeEventListener('message', handleMessage);
+          socket.removeEventListener('close', handleClose);
+          if (socket.readyState === socket.CONNECTING || socket.readyState === socket.OPEN) {
+            socket.close();
+          }
+        };
+      }),
+  };
+}
@@ -0,0 +1,7 @@
+export { fromWebSocket } from './fromWebSocket.js';
+export { fromEventSource } from './fromEventSource.js';
+export { fromReadableStream } from './fromReadableStream.js';
+export { decodeText } from './decodeText.js';
+export { decodeLines } from './decodeLines.js';
+export { decodeNdjson } from './decodeNdjson.js';
+export { decodeSse, type SseEvent } from './decodeSse.js';
@@ -0,0 +1,32 @@
+import { type ChunkTransformer } from './transformChunks.js';
+
+export { lineSplitter };
+
+/**
+ * Creates a transformer that splits text chunks into lines, recognizing `\n`, `\r\n` and `\r` as
+ * line breaks - including ones split across two chunks. Whatever follows the last line break is
+ * emitted as a final line only when flushed, if not empty.
+ */
+function lineSplitter(): ChunkTransformer<string, string> {
+  let buffer = '';
+  let skipLeadingLf = false; // Set when a chunk ended with a `\r`, which might be followed by a `\n` in the next chunk as part of the same `\r\n` line break
+
+  return {
+    push(chunk) {
+      if (skipLeadingLf && chunk.startsWith('\n')) {
+        chunk = chunk.slice(1);
+      }
+      skipLeadingLf = chunk.endsWith('\r');
+
+      const parts = (buffer + chunk).split(/\r\n|\r|\n/);
+      buffer = parts.pop()!;
+      return parts;
+    },
+
+    flush() {
+      const rest = buffer;
+      buffer = '';
+      return rest ? [rest] : [];
+    },
+  };
+}
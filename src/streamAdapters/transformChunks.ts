@@ -0,0 +1,74 @@
+export { transformChunks, type ChunkTransformer };
+
+/**
+ * Creates an operator that maps every chunk of the source async iterable into zero or more output
+ * values through the given stateful transformer. Once the source completes, the transformer is
+ * flushed of any values it still holds. Closing the resulting iterator closes the source as well, as
+ * does the transformer throwing, in which case the error is then propagated through the resulting
+ * iterator.
+ */
+function transformChunks<TIn, TOut>(
+  createTransformer: () => ChunkTransformer<TIn, TOut>
+): (source: AsyncIterable<TIn>) => AsyncIterable<TOut> {
+  return source => ({
+    [Symbol.asyncIterator]: () => {
+      const transformer = createTransformer();
+      const pending: TOut[] = [];
+      let iterator: undefined | AsyncIterator<TIn>;
+      let sourceDone = false;
+      let closed = false;
+
+      return {
+        next: async () => {
+          while (!pending.length) {
+            if (closed || sourceDone) {
+              closed = true;
+              return { done: true, value: undefined };
+            }
+
+            iterator ??= source[Symbol.asyncIterator]();
+            const next = await iterator.next();
+
+            if (closed) {
+              return { done: true, value: undefined };
+            }
+
+            try {
+              if (next.done) {
+                sourceDone = true;
+                pending.push(...transformer.flush());
+              } else {
+                pending.push(...transformer.push(next.value));
+              }
+            } catch (err) {
+              closed = true;
+              pending.length = 0;
+              if (!sourceDone) {
+                await iterator.return?.();
+              }
+              throw err;
+            }
+          }
+
+          return { done: false, value: pending.shift()! };
+        },
+
+        return: async () => {
+          if (!closed) {
+            closed = true;
+            pending.length = 0;
+            if (!sourceDone) {
+              await iterator?.return?.();
+            }
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  });
+}
+
+type ChunkTransformer<TIn, TOut> = {
+  push(chunk: TIn): TOut[];
+  flush(): TOut[];
+};
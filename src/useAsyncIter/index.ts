@@ -1,7 +1,9 @@
-import { useMemo, useEffect } from 'react';
+import { useMemo, useEffect, useContext, useRef, useReducer } from 'react';
 import { useLatest } from '../common/hooks/useLatest.js';
 import { isAsyncIter } from '../common/isAsyncIter.js';
-import { useSimpleRerender } from '../common/hooks/useSimpleRerender.js';
+import { useStateStore } from '../common/hooks/useStateStore.js';
+import { useSyncExternalStoreCompat } from '../common/hooks/useSyncExternalStoreCompat.js';
+import { useScheduledRerender } from '../common/hooks/useScheduledRerender.js';
 import { useRefWithInitialValue } from '../common/hooks/useRefWithInitialValue.js';
 import { type MaybeFunction } from '../common/MaybeFunction.js';
 import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
@@ -9,13 +11,50 @@ import {
   reactAsyncIterSpecialInfoSymbol,
   type ReactAsyncIterSpecialInfo,
 } from '../common/ReactAsyncIterable.js';
-import { iterateAsyncIterWithCallbacks } from '../common/iterateAsyncIterWithCallbacks.js';
+import {
+  iterateAsyncIterWithCallbacks,
+  type EndIterationFn,
+} from '../common/iterateAsyncIterWithCallbacks.js';
 import { callOrReturn } from '../common/callOrReturn.js';
 import { asyncIterSyncMap } from '../common/asyncIterSyncMap.js';
+import { type RetryPolicy } from '../common/RetryPolicy.js';
+import { isUrgentIterationChange, type RenderScheduling } from '../common/RenderScheduling.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
+import { initialIterationMetadata } from '../common/iterationMetadata.js';
+import { asyncIterFromObservableInterop } from '../common/asyncIterFromObservableInterop.js';
+import {
+  type ObservableLike,
+  type fromObservable, // eslint-disable-line @typescript-eslint/no-unused-vars
+} from '../observableInterop/index.js';
+import { AsyncIterSsrContext } from '../common/AsyncIterSsrContext.js';
+import { devtoolsRegistry } from '../common/devtoolsRegistry.js';
+import { inferComponentOwnerName } from '../common/inferComponentOwnerName.js';
+import {
+  throwIfIterationErrored,
+  type ThrowOnErrorOpt,
+} from '../common/throwIfIterationErrored.js';
+import {
+  readFirstYieldOrSuspend,
+  takeSuspendedIteration,
+} from '../common/suspenseFirstYieldCache.js';
 import { type Iterate } from '../Iterate/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
 import { type iterateFormatted } from '../iterateFormatted/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type useAsyncIterSuspense } from '../useAsyncIterSuspense/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type useAsyncIterWithControls } from '../useAsyncIterWithControls/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type AsyncIterSsrProvider } from '../AsyncIterSsrProvider/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type shallowEqual, type deepEqual } from '../equality/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import {
+  type createAsyncIterSsrState, // eslint-disable-line @typescript-eslint/no-unused-vars
+  type AsyncIterSsrState, // eslint-disable-line @typescript-eslint/no-unused-vars
+} from '../createAsyncIterSsrState/index.js';
 
-export { useAsyncIter, type IterationResult };
+export {
+  useAsyncIter,
+  useAsyncIterWithControlsInternal,
+  type IterationResult,
+  type UseAsyncIterOpts,
+  type AsyncIterControls,
+};
 
 /**
  * `useAsyncIter` hooks up a single async iterable value to your component and its lifecycle.
@@ -43,6 +82,10 @@ export { useAsyncIter, type IterationResult };
  * `input` may also be given a plain (non async iterable) value, in which case it will simply be used
  * to render once and immediately, thus enabling components that can handle _"static"_ as well as
  * _"changing"_ values and props seamlessly.
+ * Observables exposing the `Symbol.observable` interop point (such as RxJS `Observable`s and
+ * `BehaviorSubject`s) are accepted as `input` too, being converted via
+ * {@link fromObservable `fromObservable`} - including the synchronous current value of a
+ * `BehaviorSubject`.
  *
  * The hook initializes and maintains its iteration process with its given async iterable `input`
  * across component updates as long as `input` keeps getting passed the same object reference every
@@ -61,6 +104,13 @@ export { useAsyncIter, type IterationResult };
  * {@link IterationResult `IterationResult`}).
  * In case `input` is given a plain value, it will be delivered as-is within the returned
  * result object's `value` property.
+ *
+ * The iteration state is tracked as an external store via
+ * [`useSyncExternalStore`](https://react.dev/reference/react/useSyncExternalStore), so results are
+ * tear-free under concurrent rendering - if a new value arrives while a concurrent render is in
+ * progress (e.g. one caused by a [`startTransition`](https://react.dev/reference/react/startTransition)),
+ * React re-renders synchronously with it rather than committing a mix of stale and fresh values
+ * across components consuming the same source.
  * 
  * ---
  *
@@ -69,6 +119,7 @@ export { useAsyncIter, type IterationResult };
  *
  * @param input Any async iterable or plain value.
  * @param initialVal Any optional starting value for the hook to return prior to the ___first yield___ of the ___first given___ async iterable, defaults to `undefined`. You can pass an actual value, or a function that returns a value (which the hook will call once during mounting).
+ * @param opts An _optional_ object with options (see {@link UseAsyncIterOpts `UseAsyncIterOpts`}).
  *
  * @returns An object with properties reflecting the current state of the iterated async iterable or plain value provided via `input` (see {@link IterationResult `IterationResult`}).
  *
@@ -105,12 +156,23 @@ export { useAsyncIter, type IterationResult };
  * ```
  */
 const useAsyncIter: {
-  <TVal>(input: TVal, initialVal?: undefined): IterationResult<TVal>;
-  <TVal, TInitVal>(
+  <TVal, TOpts extends UseAsyncIterOpts = UseAsyncIterOpts>(
+    input: TVal,
+    initialVal?: undefined,
+    opts?: TOpts
+  ): IterationResult<TVal, undefined, TOpts>;
+  <TVal, TInitVal, TOpts extends UseAsyncIterOpts = UseAsyncIterOpts>(
     input: TVal,
-    initialVal: MaybeFunction<TInitVal>
-  ): IterationResult<TVal, TInitVal>;
+    initialVal: MaybeFunction<TInitVal>,
+    opts?: TOpts
+  ): IterationResult<TVal, TInitVal, TOpts>;
 } = (
+  input: Parameters<typeof useAsyncIterWithControlsInternal>[0],
+  initialVal: MaybeFunction<unknown>,
+  opts?: UseAsyncIterOpts
+) => useAsyncIterWithControlsInternal(input, initialVal, opts)[0];
+
+function useAsyncIterWithControlsInternal(
   input:
     | undefined
     | null
@@ -119,31 +181,66 @@ const useAsyncIter: {
         [reactAsyncIterSpecialInfoSymbol]?: ReactAsyncIterSpecialInfo<unknown, unknown>;
         value?: AsyncIterableSubject<unknown>['value'];
       },
-  initialVal: MaybeFunction<unknown>
-): IterationResult<any, any> => {
-  const rerender = useSimpleRerender();
+  initialVal: MaybeFunction<unknown>,
+  opts?: UseAsyncIterOpts
+): [IterationResult<any, any>, AsyncIterControls] {
+  const [restartCount, restart] = useReducer((count: number) => count + 1, 0);
+  const ssrState = useContext(AsyncIterSsrContext);
+  const isMountedRef = useRef(false);
+  const devtoolsOwnerRef = useRefWithInitialValue(() =>
+    devtoolsRegistry.isEnabled() ? inferComponentOwnerName() : undefined
+  );
 
-  const stateRef = useRefWithInitialValue<IterationResult<any, any>>(() => ({
+  const stateStore = useStateStore<IterationResult<any, any>>(() => ({
     value: callOrReturn(initialVal),
     pendingFirst: true,
     done: false,
     error: undefined,
   }));
+  const scheduleRerender = useScheduledRerender(stateStore.notify, opts?.scheduling);
 
-  const latestInputRef = useLatest(input);
+  const controlsRef = useRefWithInitialValue(() => ({
+    endCurrIteration: undefined as undefined | EndIterationFn,
+    controls: {
+      restart,
+      stop: () => {
+        if (!controlsRef.current.endCurrIteration || stateStore.current.done) {
+          return;
+        }
+        controlsRef.current.endCurrIteration();
+        controlsRef.current.endCurrIteration = undefined;
+        stateStore.current = {
+          ...stateStore.current,
+          pendingFirst: false,
+          done: true,
+          error: undefined,
+          ...(stateStore.current.startedAt !== undefined && { endedAt: Date.now() }),
+        };
+        stateStore.notify();
+      },
+    } as AsyncIterControls,
+  }));
+
+  const latestInputRef = useLatest(asyncIterFromObservableInterop(input) as typeof input);
 
   if (!isAsyncIter(latestInputRef.current)) {
-    useMemo(() => {}, [undefined]);
-    useEffect(() => {}, [undefined]);
+    useMemo(() => {}, [undefined, undefined]);
+    useEffect(() => {}, [undefined, undefined]);
 
-    stateRef.current = {
+    stateStore.current = {
       value: latestInputRef.current,
       pendingFirst: false,
       done: false,
       error: undefined,
     };
 
-    return stateRef.current;
+    const state = useSyncExternalStoreCompat(
+      stateStore.subscribe,
+      stateStore.getSnapshot,
+      stateStore.getSnapshot
+    );
+
+    return [state, controlsRef.current.controls];
   }
 
   const iterSourceRefToUse =
@@ -155,28 +252,93 @@ const useAsyncIter: {
     let pendingFirst;
     let value;
 
-    if (latestInputRefCurrent.value) {
+    const ssrEntry =
+      opts?.ssrKey === undefined || isMountedRef.current ? undefined : ssrState?.get(opts.ssrKey);
+
+    if (ssrEntry) {
+      const possibleGivenFormatFn =
+        latestInputRefCurrent[reactAsyncIterSpecialInfoSymbol]?.formatFn;
+      pendingFirst = false;
+      value = possibleGivenFormatFn ? possibleGivenFormatFn(ssrEntry.value, 0) : ssrEntry.value;
+    } else if (latestInputRefCurrent.value) {
       pendingFirst = false;
       value = latestInputRefCurrent.value.current;
     } else {
-      const prevSourceLastestVal = stateRef.current.value;
+      const prevSourceLastestVal = stateStore.current.value;
       pendingFirst = true;
       value = prevSourceLastestVal;
     }
 
-    stateRef.current = {
+    if (!ssrEntry && opts?.ssrKey !== undefined && !isMountedRef.current) {
+      ssrState?.register(opts.ssrKey, iterSourceRefToUse);
+    }
+
+    stateStore.current = {
       value,
       pendingFirst,
       done: false,
       error: undefined,
-    };
-  }, [iterSourceRefToUse]);
+      ...(opts?.retry && { retryCount: 0, isRetrying: false }),
+      ...(opts?.mode === 'manual' && { advance: advanceBeforeFirstYield }),
+      ...(opts?.metadata && initialIterationMetadata(!pendingFirst)),
+    } as IterationResult<any, any>;
+  }, [iterSourceRefToUse, restartCount]);
+
+  if (opts?.suspense && stateStore.current.pendingFirst) {
+    const firstYield = readFirstYieldOrSuspend(iterSourceRefToUse);
+    const possibleGivenFormatFn = latestInputRefCurrent[reactAsyncIterSpecialInfoSymbol]?.formatFn;
+
+    stateStore.current = {
+      ...stateStore.current,
+      ...(firstYield.done
+        ? {
+            pendingFirst: false,
+            done: true,
+            error: firstYield.error,
+          }
+        : {
+            value: possibleGivenFormatFn
+              ? possibleGivenFormatFn(firstYield.value, 0)
+              : firstYield.value,
+            pendingFirst: false,
+            done: false,
+            error: undefined,
+          }),
+      ...(opts.metadata && {
+        iterationIndex: firstYield.done ? -1 : 0,
+        lastYieldAt: firstYield.done ? undefined : Date.now(),
+        endedAt: firstYield.done ? Date.now() : undefined,
+      }),
+    } as IterationResult<any, any>;
+  }
 
   useEffect(() => {
+    isMountedRef.current = true;
+
+    const suspendedIteration = opts?.suspense
+      ? takeSuspendedIteration(iterSourceRefToUse)
+      : undefined;
+
+    if (suspendedIteration?.outcome?.done) {
+      return;
+    }
+
     const formattedIter = (() => {
-      let iterationIdx = latestInputRefCurrent.value ? 1 : 0; // If source has a current value, it should have been the "first iteration" already, so in that case the right up next one here is *the second* already (index of 1)
+      let iterationIdx = latestInputRefCurrent.value || suspendedIteration ? 1 : 0; // If source has a current value or was already pulled a first value while suspending, it should have been the "first iteration" already, so in that case the right up next one here is *the second* already (index of 1)
+
+      let suspendedIterator = suspendedIteration?.iterator;
+
+      const sourceToIterate = !suspendedIterator
+        ? iterSourceRefToUse
+        : {
+            [Symbol.asyncIterator]: () => {
+              const iterator = suspendedIterator ?? iterSourceRefToUse[Symbol.asyncIterator]();
+              suspendedIterator = undefined; // Any possible further iterators (e.g. due to retries) are obtained from the source itself
+              return iterator;
+            },
+          };
 
-      return asyncIterSyncMap(iterSourceRefToUse, value => {
+      return asyncIterSyncMap(sourceToIterate, value => {
         const possibleGivenFormatFn =
           latestInputRef.current?.[reactAsyncIterSpecialInfoSymbol]?.formatFn;
 
@@ -188,13 +350,199 @@ const useAsyncIter: {
       });
     })();
 
-    return iterateAsyncIterWithCallbacks(formattedIter, stateRef.current.value, next => {
-      stateRef.current = { ...next, pendingFirst: false };
-      rerender();
-    });
-  }, [iterSourceRefToUse]);
+    const endIteration = iterateAsyncIterWithCallbacks(
+      formattedIter,
+      stateStore.current.value,
+      next => {
+        const prevState = stateStore.current;
+        stateStore.current = {
+          ...next,
+          pendingFirst: next.isRetrying ? prevState.pendingFirst : false,
+        } as IterationResult<any, any>;
+        scheduleRerender(isUrgentIterationChange(prevState, stateStore.current));
+      },
+      {
+        retry: opts?.retry,
+        manual: opts?.mode === 'manual',
+        isEqual: opts?.isEqual,
+        metadata: !opts?.metadata
+          ? undefined
+          : {
+              iterationIndex: stateStore.current.iterationIndex!,
+              startedAt: stateStore.current.startedAt!,
+              lastYieldAt: stateStore.current.lastYieldAt,
+              endedAt: stateStore.current.endedAt,
+            },
+        devtools: { source: iterSourceRefToUse, owner: devtoolsOwnerRef.current },
+      }
+    );
+
+    controlsRef.current.endCurrIteration = endIteration;
+
+    return () => {
+      controlsRef.current.endCurrIteration = undefined;
+      endIteration();
+    };
+  }, [iterSourceRefToUse, restartCount]);
+
+  const state = useSyncExternalStoreCompat(
+    stateStore.subscribe,
+    stateStore.getSnapshot,
+    stateStore.getSnapshot
+  );
+
+  throwIfIterationErrored([state], opts?.throwOnError);
+
+  return [state, controlsRef.current.controls];
+}
+
+function advanceBeforeFirstYield(_input?: unknown): void {} // The first value of every iteration is pulled regardless of any advancing
+
+/**
+ * A set of functions for imperatively controlling an ongoing iteration, returned from the
+ * {@link useAsyncIterWithControls `useAsyncIterWithControls`} hook. Both maintain stable references
+ * across re-renders.
+ */
+type AsyncIterControls = {
+  /**
+   * Closes the currently active iterator (if any) and starts a fresh iteration over the same async
+   * iterable, as if it was given anew - the result goes back into a `pendingFirst` state (unless the
+   * iterable has a current value) while carrying over the last value until the first new one arrives.
+   *
+   * Has no effect when the hooked value is a plain (non async iterable) value.
+   */
+  restart(): void;
+
+  /**
+   * Closes the currently active iterator (if any), ending the iteration as if it had completed - the
+   * result keeps its last value and gets `done: true`. The iteration can be started again later with
+   * {@link AsyncIterControls.restart `restart`}.
+   */
+  stop(): void;
+};
+
+/**
+ * Options for the {@link useAsyncIter `useAsyncIter`} hook.
+ */
+type UseAsyncIterOpts = {
+  /**
+   * When `true`, the hook will _suspend_ the host component (by throwing a promise, to be caught by
+   * the nearest [`<React.Suspense>`](https://react.dev/reference/react/Suspense) boundary) for as long
+   * as the iterated async iterable is pending its first value, instead of returning a result with
+   * `pendingFirst: true`. Defaults to `false`.
+   *
+   * Since a suspended component is not mounted yet, the first value is pulled during render from an
+   * iterator that is cached against the source iterable, which the hook then resumes iterating once
+   * the component mounts - no value is lost or pulled twice in the process.
+   *
+   * Has no effect on plain values or on async iterables with a current value (a `.value.current`
+   * property), as these never have a pending first value.
+   *
+   * @see {@link useAsyncIterSuspense `useAsyncIterSuspense`}
+   */
+  suspense?: boolean;
+
+  /**
+   * When `true`, the hook will rethrow an error the iterated async iterable ends with during render,
+   * letting the nearest [error boundary](https://react.dev/reference/react/Component#catching-rendering-errors-with-an-error-boundary)
+   * catch it instead of returning a result with its `error` property set. Can also be given a
+   * function, which gets called with the error and returns whether it should be rethrown. Defaults
+   * to `false`.
+   *
+   * Once the error boundary resets and re-mounts the host component, the hook starts a fresh
+   * iteration over the same async iterable (by obtaining a new iterator from it).
+   *
+   * Note that an iterable erroring with an `undefined` error (e.g. `throw undefined`) can't be told
+   * apart from one that completed, as in both cases the result has `done: true` and an `undefined`
+   * `error` - so such an error is never rethrown.
+   */
+  throwOnError?: ThrowOnErrorOpt;
+
+  /**
+   * An _optional_ policy for retrying the iteration when the async iterable ends with an error, by
+   * obtaining a fresh iterator from the same async iterable after a delay that grows exponentially
+   * between consecutive attempts (see {@link RetryPolicy `RetryPolicy`}).
+   *
+   * While a retry is pending, the returned result will have `done: false` and its `isRetrying`
+   * property set to `true`. Only once the policy gives up, the result will end with `done: true` along
+   * with the last error, as usual.
+   *
+   * When given, the returned result objects also include the `retryCount` and `isRetrying` properties
+   * (see {@link IterationResult `IterationResult`}). The policy is read at the time an iteration starts.
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * A key identifying the hooked async iterable for server-side rendering and hydration, in
+   * conjunction with an SSR state provided via {@link AsyncIterSsrProvider `<AsyncIterSsrProvider>`}
+   * (see {@link createAsyncIterSsrState `createAsyncIterSsrState`}).
+   *
+   * When the provided SSR state has a value resolved for this key, the hook renders with it
+   * (formatted, if the async iterable is formatted) and `pendingFirst` as `false` until mounted -
+   * which happens on the server as well as on the client's hydration render, so the markup matches.
+   * Otherwise, the hook registers its async iterable under this key in the SSR state, to be resolved
+   * by a following {@link AsyncIterSsrState.prefetch `.prefetch()`} call.
+   *
+   * Once mounted, the hook iterates the async iterable as usual. Has no effect on plain values, or
+   * when no SSR state is provided.
+   */
+  ssrKey?: string;
+
+  /**
+   * Determines how re-renders in reaction to values yielded in rapid succession are scheduled (see
+   * {@link RenderScheduling `RenderScheduling`}). Defaults to `'sync'`, re-rendering on every yield.
+   *
+   * With `'animationFrame'` or `{ throttleMs }`, yields get coalesced so that the host component
+   * re-renders at most once per animation frame or time interval respectively, with only the latest
+   * value yielded since the previous re-render - useful for high-frequency sources (e.g. pointer
+   * positions or market ticks) where rendering every intermediate value is wasteful. Completions,
+   * errors, retries and the first value yielded are always rendered right away.
+   */
+  scheduling?: RenderScheduling;
+
+  /**
+   * Determines the pace at which the async iterable gets consumed. Defaults to `'auto'`, pulling
+   * every next value as soon as the previous one arrives.
+   *
+   * With `'manual'`, only the first value of the iteration is pulled automatically, while every
+   * value after it is pulled only upon calling the `advance` function that the returned result then
+   * includes (see {@link IterationResult.advance `IterationResult.advance`}) - useful for step-through
+   * UIs such as wizards, slide decks or _"reveal next"_ flows. An optional input given to `advance`
+   * is passed on into the iterator's `.next(input)` call, so that async generators driving such
+   * flows can receive values from the UI as the results of their `yield` expressions. Every advanced
+   * value is rendered, even if identical to the previous one.
+   *
+   * The mode is read at the time an iteration starts.
+   */
+  mode?: 'auto' | 'manual';
 
-  return stateRef.current;
+  /**
+   * Determines whether a value yielded by the async iterable is equal to the one yielded before it,
+   * in which case it's skipped rather than re-rendered. Defaults to
+   * [`Object.is`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/is).
+   *
+   * Can be given a custom function or one of the library's built-in {@link shallowEqual `shallowEqual`}
+   * and {@link deepEqual `deepEqual`} helpers - useful for sources that yield fresh but equal objects
+   * (such as ones parsed out of JSON messages), which would otherwise re-render on every yield.
+   * Alternatively, can be given `false` to disable skipping entirely so every yielded value gets
+   * rendered, for event-like sources where repeated equal values are meaningful.
+   *
+   * The first value yielded by every iteration is never skipped. The option is read at the time an
+   * iteration starts.
+   */
+  isEqual?: IsEqualOpt;
+
+  /**
+   * When `true`, the returned result objects also include metadata about the iteration - the
+   * `iterationIndex`, `startedAt`, `lastYieldAt` and `endedAt` properties (see
+   * {@link IterationResult `IterationResult`}) - useful for displaying things like _"last updated 3
+   * seconds ago"_ or counting updates. Defaults to `false`.
+   *
+   * All timestamps are given as milliseconds since the epoch (as returned by `Date.now()`), and all
+   * metadata starts over along with every new iteration (such as when given a different async
+   * iterable). The option is read at the time an iteration starts.
+   */
+  metadata?: boolean;
 };
 
 /**
@@ -204,10 +552,18 @@ const useAsyncIter: {
  * Returned from the {@link useAsyncIter `useAsyncIter`} hook and also injected into
  * {@link Iterate `<Iterate>`} component's render function.
  *
+ * @template TVal The type of the hooked async iterable or plain value.
+ * @template TInitVal The type of the initial value, defaults to `undefined`.
+ * @template TOpts The type of the {@link UseAsyncIterOpts options} given to the hook - results of a `metadata: true` hook have the metadata properties always present, as do results of a `mode: 'manual'` hook with the `advance` property.
+ *
  * @see {@link useAsyncIter `useAsyncIter`}
  * @see {@link Iterate `<Iterate>`}
  */
-type IterationResult<TVal, TInitVal = undefined> = {
+type IterationResult<
+  TVal,
+  TInitVal = undefined,
+  TOpts extends UseAsyncIterOpts = UseAsyncIterOpts,
+> = {
   /**
    * The most recent value received from the async iterable iteration, starting as {@link TInitVal}.
    * If the source was a plain value instead, it will simply be it, ignoring any {@link TInitVal}.
@@ -222,7 +578,11 @@ type IterationResult<TVal, TInitVal = undefined> = {
     ? J
     : TVal extends AsyncIterable<infer J>
       ? J | TInitVal
-      : TVal;
+      : TVal extends ObservableLike<infer J>
+        ? TVal extends { getValue(): unknown }
+          ? J
+          : J | TInitVal
+        : TVal;
 
   /**
    * Indicates whether the iterated async iterable is still pending its own first value to be
@@ -261,15 +621,80 @@ type IterationResult<TVal, TInitVal = undefined> = {
    * Is always `undefined` for any plain value given instead of an async iterable.
    */
   error: unknown;
+
+  /**
+   * The number of consecutive retries attempted so far for the current iteration after it had
+   * encountered errors, which resets back to `0` once a retried iteration yields a value.
+   *
+   * Present only when a retry policy is given (see {@link RetryPolicy `RetryPolicy`}).
+   */
+  retryCount?: number;
+
+  /**
+   * Indicates whether the iteration had encountered an error and is currently pending a retry,
+   * until the retried iteration yields its first value, completes or errors out again (in which case
+   * it might be retried again further). Useful for displaying _"reconnecting"_ states.
+   *
+   * Present only when a retry policy is given (see {@link RetryPolicy `RetryPolicy`}).
+   */
+  isRetrying?: boolean;
+
+  /**
+   * Pulls the next value from the iterated async iterable, optionally passing the given input into
+   * the iterator's `.next(input)` call (e.g. as the result of the current `yield` expression of an
+   * async generator). Calls made while the first value or a previously advanced one is still pending,
+   * or after the iteration had ended, are ignored.
+   *
+   * Present only when the `'manual'` mode is given (see {@link UseAsyncIterOpts.mode `UseAsyncIterOpts.mode`}).
+   */
+  advance?: (input?: unknown) => void;
+
+  /**
+   * The zero-based index of the current `value` among the values the current iteration has gone
+   * through, being `-1` while pending the first one. For async iterables with a current value (a
+   * `.value.current` property), that initial current value is at index `0`.
+   *
+   * Present only when the `metadata` option is given (see {@link UseAsyncIterOpts.metadata `UseAsyncIterOpts.metadata`}).
+   */
+  iterationIndex?: number;
+
+  /**
+   * The time at which the current iteration started, in milliseconds since the epoch.
+   *
+   * Present only when the `metadata` option is given (see {@link UseAsyncIterOpts.metadata `UseAsyncIterOpts.metadata`}).
+   */
+  startedAt?: number;
+
+  /**
+   * The time at which the current `value` was yielded, in milliseconds since the epoch, or
+   * `undefined` while pending the first value. For async iterables with a current value (a
+   * `.value.current` property), that initial current value is considered yielded at `startedAt`.
+   *
+   * Present only when the `metadata` option is given (see {@link UseAsyncIterOpts.metadata `UseAsyncIterOpts.metadata`}).
+   */
+  lastYieldAt?: number;
+
+  /**
+   * The time at which the current iteration ended (either completed or errored out), in
+   * milliseconds since the epoch, or `undefined` while still ongoing.
+   *
+   * Present only when the `metadata` option is given (see {@link UseAsyncIterOpts.metadata `UseAsyncIterOpts.metadata`}).
+   */
+  endedAt?: number;
 } & (
   | (TVal extends AsyncIterableSubject<unknown>
       ? never
-      : TVal extends AsyncIterable<unknown>
-        ? {
-            pendingFirst: true;
-            done: false;
-            error: undefined;
-          }
+      : TVal extends AsyncIterable<unknown> | ObservableLike<unknown>
+        ? TVal extends { getValue(): unknown }
+          ? never
+          : {
+              pendingFirst: true;
+              done: false;
+              error: undefined;
+              iterationIndex?: -1;
+              lastYieldAt?: undefined;
+              endedAt?: undefined;
+            }
         : never)
   | ({
       pendingFirst: false;
@@ -277,10 +702,21 @@ type IterationResult<TVal, TInitVal = undefined> = {
       | {
           done: false;
           error: undefined;
+          endedAt?: undefined;
         }
       | {
           done: true;
           error: unknown;
+          endedAt?: number;
         }
     ))
-);
+) &
+  (TOpts extends { metadata: true }
+    ? {
+        iterationIndex: number;
+        startedAt: number;
+        lastYieldAt: number | undefined;
+        endedAt: number | undefined;
+      }
+    : unknown) &
+  (TOpts extends { mode: 'manual' } ? { advance: (input?: unknown) => void } : unknown);
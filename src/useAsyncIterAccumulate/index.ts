@@ -0,0 +1,211 @@
+import { useMemo } from 'react';
+import { useLatest } from '../common/hooks/useLatest.js';
+import { useRefWithInitialValue } from '../common/hooks/useRefWithInitialValue.js';
+import { isAsyncIter } from '../common/isAsyncIter.js';
+import { callOrReturn } from '../common/callOrReturn.js';
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+import { memoizeLast } from '../common/memoizeLast.js';
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+import {
+  parseReactAsyncIterable,
+  reactAsyncIterSpecialInfoSymbol,
+  type ReactAsyncIterSpecialInfo,
+} from '../common/ReactAsyncIterable.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { type iterateFormatted } from '../iterateFormatted/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type IterateList } from '../IterateList/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { useAsyncIter, type IterationResult } from '../useAsyncIter/index.js';
+
+export { useAsyncIterAccumulate, type UseAsyncIterAccumulateOpts };
+
+/**
+ * Hooks up an async iterable to your component while _accumulating_ its yielded values into a list,
+ * as opposed to only holding on to the latest one like {@link useAsyncIter `useAsyncIter`} does -
+ * handy for sources such as chat messages, notifications or log lines that should all be shown as
+ * they arrive.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIterAccumulate } from 'react-async-iterators';
+ *
+ * function ChatMessages(props) {
+ *   const { value: messages } = useAsyncIterAccumulate(props.messagesIter, { maxLength: 100 });
+ *   return (
+ *     <ul>
+ *       {messages.map(msg => (
+ *         <li key={msg.id}>{msg.text}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * ---
+ *
+ * Every value yielded by the given async iterable is folded into the list of items accumulated so
+ * far via `opts.reducer`, which by default simply appends it to the end of the list. A custom
+ * reducer can be given to e.g. prepend values, replace existing items or to accumulate items of a
+ * different type - it must return a new array rather than mutate the given one. When
+ * `opts.maxLength` is given, only the last `maxLength` items are kept after every value
+ * (_windowing_), dropping the oldest ones.
+ *
+ * The result starts with the items from `opts.initialItems` (an empty array by default) while
+ * pending the first value. If the given async iterable has a current value (a `.value.current`
+ * property, per the {@link AsyncIterableSubject `AsyncIterableSubject`} interface), it is
+ * accumulated synchronously on mount as the first item. Async iterables formatted via
+ * {@link iterateFormatted `iterateFormatted`} are accumulated with their formatting applied.
+ *
+ * Changing the given options between renders does __not__ restart the accumulation - the latest
+ * ones given are always used for upcoming values. Changing the given async iterable itself starts
+ * a fresh accumulation from `opts.initialItems` once the new iterable yields its first value (until
+ * then, the previous items are carried over, similarly to {@link useAsyncIter `useAsyncIter`}).
+ *
+ * If given a plain (non async iterable) value, it is accumulated as a single value onto
+ * `opts.initialItems`.
+ *
+ * ---
+ *
+ * @template TSource The type of the given async iterable (or plain value).
+ * @template TItem The type of the accumulated items, defaults to the type of values from `TSource`.
+ *
+ * @param source Any async iterable or plain value.
+ * @param opts An _optional_ object with options (see {@link UseAsyncIterAccumulateOpts `UseAsyncIterAccumulateOpts`}).
+ *
+ * @returns An object with the list of items accumulated so far and the current iteration state (see {@link IterationResult `IterationResult`}).
+ *
+ * @see {@link IterateList `<IterateList>`}
+ * @see {@link useAsyncIter `useAsyncIter`}
+ */
+function useAsyncIterAccumulate<TSource, TItem = DeasyncIterized<TSource>>(
+  source: TSource,
+  opts?: UseAsyncIterAccumulateOpts<DeasyncIterized<TSource>, TItem>
+): IterationResult<
+  TSource extends AsyncIterableSubject<unknown>
+    ? AsyncIterableSubject<TItem[]>
+    : TSource extends AsyncIterable<unknown>
+      ? AsyncIterable<TItem[]>
+      : TItem[],
+  TItem[]
+>;
+
+function useAsyncIterAccumulate(
+  source:
+    | undefined
+    | null
+    | {
+        [Symbol.asyncIterator]?: () => AsyncIterator<unknown, unknown, unknown>;
+        [reactAsyncIterSpecialInfoSymbol]?: ReactAsyncIterSpecialInfo<unknown, unknown>;
+        value?: AsyncIterableSubject<unknown>['value'];
+      },
+  opts?: UseAsyncIterAccumulateOpts<unknown, unknown>
+): IterationResult<any, any> {
+  const latestSourceRef = useLatest(source);
+  const optsRef = useLatest(opts);
+
+  const initialItemsRef = useRefWithInitialValue(() => callOrReturn(opts?.initialItems) ?? []);
+
+  const accumulate = (items: unknown[], value: unknown, i: number): unknown[] => {
+    const { reducer = appendItem, maxLength } = optsRef.current ?? {};
+    const nextItems = reducer(items, value, i);
+    return maxLength === undefined || nextItems.length <= maxLength
+      ? nextItems
+      : nextItems.slice(nextItems.length - maxLength);
+  };
+
+  const baseIter = !isAsyncIter(source)
+    ? undefined
+    : (source[reactAsyncIterSpecialInfoSymbol]?.origSource ?? source);
+
+  const accumulatedIter = useMemo(() => {
+    if (!baseIter) {
+      return undefined;
+    }
+
+    const accumulateMemoized = memoizeLast(
+      (current: unknown, formatFn: (value: unknown, i: number) => unknown): unknown[] =>
+        accumulate(initialItemsRef.current, formatFn(current, 0), 0)
+    );
+
+    const accumulateCurrent = (): unknown[] => {
+      const { formatFn } = parseReactAsyncIterable(
+        latestSourceRef.current as AsyncIterable<unknown>
+      );
+      return accumulateMemoized(latestSourceRef.current!.value!.current, formatFn);
+    };
+
+    return {
+      [Symbol.asyncIterator]: () => {
+        const iterator = baseIter[Symbol.asyncIterator]();
+        const hasCurrentValue = !!latestSourceRef.current?.value;
+        let items = hasCurrentValue ? accumulateCurrent() : initialItemsRef.current;
+        let iterationIdx = hasCurrentValue ? 1 : 0; // If source has a current value, it should have been the "first iteration" already, so in that case the right up next one here is *the second* already (index of 1)
+
+        return {
+          next: async (): Promise<IteratorResult<unknown[]>> => {
+            const next = await iterator.next();
+            if (next.done) {
+              return next;
+            }
+            const { formatFn } = parseReactAsyncIterable(
+              latestSourceRef.current as AsyncIterable<unknown>
+            );
+            const i = iterationIdx++;
+            items = accumulate(items, formatFn(next.value, i), i);
+            return { done: false, value: items };
+          },
+          return: async () => {
+            await iterator.return?.();
+            return { done: true, value: undefined };
+          },
+        };
+      },
+
+      value: !source!.value
+        ? undefined
+        : {
+            get current() {
+              return accumulateCurrent();
+            },
+          },
+    };
+  }, [baseIter]);
+
+  const plainValueItems = useMemo(
+    () => (accumulatedIter ? undefined : accumulate(initialItemsRef.current, source, 0)),
+    [accumulatedIter, source]
+  );
+
+  return useAsyncIter(accumulatedIter ?? plainValueItems, initialItemsRef.current);
+}
+
+function appendItem(items: unknown[], value: unknown): unknown[] {
+  return [...items, value];
+}
+
+/**
+ * Options for the {@link useAsyncIterAccumulate `useAsyncIterAccumulate`} hook.
+ *
+ * @template TVal The type of values from the accumulated async iterable.
+ * @template TItem The type of the accumulated items.
+ */
+type UseAsyncIterAccumulateOpts<TVal, TItem> = {
+  /**
+   * A function that folds every value yielded into the list of items accumulated so far, getting the
+   * current items, the new value and its index in the iteration and returning the next items - it
+   * must return a new array rather than mutate the given one. Defaults to appending the new value
+   * to the end of the list.
+   */
+  reducer?: (items: TItem[], value: TVal, i: number) => TItem[];
+
+  /**
+   * An _optional_ maximum number of items to keep - whenever exceeded, the oldest items (from the
+   * start of the list) are dropped.
+   */
+  maxLength?: number;
+
+  /**
+   * An _optional_ list of items to start accumulating from, or a function that returns one (which
+   * the hook will call once during mounting). Defaults to an empty array.
+   */
+  initialItems?: MaybeFunction<TItem[]>;
+};
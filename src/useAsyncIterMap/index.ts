@@ -0,0 +1,227 @@
+import { useEffect } from 'react';
+import { useStateStore } from '../common/hooks/useStateStore.js';
+import { useSyncExternalStoreCompat } from '../common/hooks/useSyncExternalStoreCompat.js';
+import { useScheduledRerender } from '../common/hooks/useScheduledRerender.js';
+import { useRefWithInitialValue } from '../common/hooks/useRefWithInitialValue.js';
+import { isAsyncIter } from '../common/isAsyncIter.js';
+import { callWithArgsOrReturn } from '../common/callWithArgsOrReturn.js';
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+import { parseReactAsyncIterable } from '../common/ReactAsyncIterable.js';
+import { iterateEntry, type IterationEntry } from '../common/iterateEntry.js';
+import { type RetryPolicy } from '../common/RetryPolicy.js';
+import { isUrgentIterationChange, type RenderScheduling } from '../common/RenderScheduling.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
+import { devtoolsRegistry } from '../common/devtoolsRegistry.js';
+import { inferComponentOwnerName } from '../common/inferComponentOwnerName.js';
+import {
+  throwIfIterationErrored,
+  type ThrowOnErrorOpt,
+} from '../common/throwIfIterationErrored.js';
+import { type IterationResult } from '../useAsyncIter/index.js';
+import { type useAsyncIterMulti } from '../useAsyncIterMulti/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export { useAsyncIterMap, type IterationResultMap };
+
+/**
+ * `useAsyncIterMap` hooks up a keyed collection of async iterables to your component and its
+ * lifecycle - given as either a plain object (a _record_) or a `Map` - returning their iteration
+ * results under the same keys.
+ *
+ * It's similar to {@link useAsyncIterMulti `useAsyncIterMulti`}, only every async iterable (or plain
+ * value) is identified by its key rather than by its position in an array, which suits collections
+ * where every item has its own async iterable, such as list rows each subscribed to their own live
+ * feed.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIterMap } from 'react-async-iterators';
+ *
+ * function PriceTable(props) {
+ *   const priceFeeds = useMemo(
+ *     () => new Map(props.symbols.map(symbol => [symbol, getPriceFeed(symbol)])),
+ *     [props.symbols]
+ *   );
+ *
+ *   const prices = useAsyncIterMap(priceFeeds);
+ *
+ *   return (
+ *     <ul>
+ *       {[...prices].map(([symbol, price]) => (
+ *         <li key={symbol}>
+ *           {symbol}: {price.pendingFirst ? 'Loading...' : price.value}
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * ---
+ *
+ * Iterations are maintained per key across re-renders - keys that are added start their own
+ * iteration, keys that are removed have their iteration closed, and every other key carries on with
+ * its iteration and state untouched, regardless of how the collection is reordered. When the async
+ * iterable under an existing key is replaced with a different one, only that key's iteration is
+ * restarted with the new one, carrying over its last value until the new one yields its first
+ * value (similar to {@link useAsyncIterMulti `useAsyncIterMulti`} and the like). On component
+ * unmount, all active iterations are closed.
+ *
+ * The results are returned in the same form as `inputs` - a `Map` of results for a `Map` (in the
+ * same order), or an object of results for an object - and a new one is returned on every render.
+ * Plain (non async iterable) values are delivered as-is within their results' `value` property.
+ *
+ * ---
+ *
+ * @template TInputs The type of the input collection of async iterables or plain values.
+ * @template TDefaultInitValue The type of the default initial value, defaults to `undefined`.
+ *
+ * @param inputs A plain object or a `Map` of async iterables or plain values (mixable).
+ * @param {object} opts An _optional_ object with options.
+ * @param opts.defaultInitialValue An _optional_ starting value for every new async iterable in `inputs`, defaults to `undefined`. You can pass an actual value, or a function that gets the key and returns a value (which the hook will call for every new key added).
+ * @param opts.retry An _optional_ policy for retrying the iteration of any of the async iterables from `inputs` that ends with an error, by obtaining a fresh iterator from it after a delay (see {@link RetryPolicy `RetryPolicy`}). When given, the individual results also include the `retryCount` and `isRetrying` properties.
+ * @param opts.throwOnError An _optional_ flag (or a function that gets an error and returns a flag) for whether to rethrow an error that any of the async iterables from `inputs` ends with during render, letting the nearest error boundary catch it, defaults to `false`.
+ * @param opts.scheduling An _optional_ setting for coalescing re-renders caused by values yielded in rapid succession from any of the async iterables from `inputs`, defaults to `'sync'` (see {@link RenderScheduling `RenderScheduling`}).
+ * @param opts.isEqual An _optional_ function that determines whether a value yielded by any of the async iterables from `inputs` is equal to the one it yielded before it, in which case it's skipped rather than re-rendered, or `false` to render every yielded value regardless. Defaults to `Object.is`.
+ *
+ * @returns A `Map` or an object (according to the form of `inputs`) of results that provide up-to-date information about each input's current value, completion status, whether it's still waiting for its first value and so on, under its corresponding key (see {@link IterationResultMap `IterationResultMap`}).
+ *
+ * @see {@link IterationResultMap `IterationResultMap`}
+ * @see {@link useAsyncIterMulti `useAsyncIterMulti`}
+ */
+function useAsyncIterMap<
+  const TInputs extends ReadonlyMap<unknown, unknown> | Readonly<Record<PropertyKey, unknown>>,
+  const TDefaultInitValue = undefined,
+>(
+  inputs: TInputs,
+  opts?: {
+    defaultInitialValue?: MaybeFunction<TDefaultInitValue, [key: KeyOf<TInputs>]>;
+    retry?: RetryPolicy;
+    throwOnError?: ThrowOnErrorOpt;
+    scheduling?: RenderScheduling;
+    isEqual?: IsEqualOpt;
+  }
+): IterationResultMap<TInputs, TDefaultInitValue> {
+  const resultEntriesStore = useStateStore(() => [] as [unknown, IterationResult<unknown>][]);
+  const scheduleRerender = useScheduledRerender(resultEntriesStore.notify, opts?.scheduling);
+
+  const ref = useRefWithInitialValue(() => ({
+    devtoolsOwner: devtoolsRegistry.isEnabled() ? inferComponentOwnerName() : undefined,
+    activeIters: new Map<unknown, IterationEntry>(),
+  }));
+
+  const { activeIters } = ref.current;
+
+  useEffect(() => {
+    return () => {
+      for (const it of activeIters.values()) {
+        it.destroy();
+      }
+    };
+  }, []);
+
+  const inputEntries: [unknown, unknown][] =
+    inputs instanceof Map ? [...inputs] : Object.entries(inputs);
+
+  const inputKeys = new Set<unknown>();
+
+  const resultEntries = inputEntries.map(([key, input]): [unknown, IterationResult<unknown>] => {
+    inputKeys.add(key);
+
+    const existingIterState = activeIters.get(key);
+
+    if (!isAsyncIter(input)) {
+      if (existingIterState) {
+        activeIters.delete(key);
+        existingIterState.destroy();
+      }
+      return [
+        key,
+        {
+          value: input,
+          pendingFirst: false,
+          done: false,
+          error: undefined,
+        },
+      ];
+    }
+
+    const { baseIter, formatFn } = parseReactAsyncIterable(input);
+
+    if (existingIterState?.baseIter === baseIter) {
+      existingIterState.formatFn = formatFn;
+      return [key, existingIterState.currState];
+    }
+
+    existingIterState?.destroy();
+
+    const iterState = iterateEntry(
+      input,
+      () =>
+        existingIterState
+          ? existingIterState.currState.value
+          : callWithArgsOrReturn(opts?.defaultInitialValue, key as KeyOf<TInputs>),
+      ({ prevState, nextState }) => {
+        resultEntriesStore.current = resultEntriesStore.current.map(entry =>
+          entry[0] === key ? [key, nextState] : entry
+        );
+        scheduleRerender(isUrgentIterationChange(prevState, nextState));
+      },
+      {
+        retry: opts?.retry,
+        isEqual: opts?.isEqual,
+        devtoolsOwner: ref.current.devtoolsOwner,
+      }
+    );
+
+    activeIters.set(key, iterState);
+
+    return [key, iterState.currState];
+  });
+
+  if (activeIters.size > inputKeys.size) {
+    for (const [key, iterState] of activeIters) {
+      if (!inputKeys.has(key)) {
+        activeIters.delete(key);
+        iterState.destroy();
+      }
+    }
+  }
+
+  resultEntriesStore.current = resultEntries;
+
+  const currResultEntries = useSyncExternalStoreCompat(
+    resultEntriesStore.subscribe,
+    resultEntriesStore.getSnapshot,
+    resultEntriesStore.getSnapshot
+  );
+
+  throwIfIterationErrored(
+    currResultEntries.map(([, result]) => result),
+    opts?.throwOnError
+  );
+
+  return (
+    inputs instanceof Map ? new Map(currResultEntries) : Object.fromEntries(currResultEntries)
+  ) as IterationResultMap<TInputs, TDefaultInitValue>;
+}
+
+/**
+ * The results of a keyed collection of async iterables (or plain values) from the
+ * {@link useAsyncIterMap `useAsyncIterMap`} hook, in the same form as its input collection - a `Map`
+ * of iteration results for a `Map`, or an object of iteration results for an object.
+ *
+ * @template TInputs The type of the input collection of async iterables or plain values.
+ * @template TDefaultInitValue The type of the default initial value, defaults to `undefined`.
+ *
+ * @see {@link useAsyncIterMap `useAsyncIterMap`}
+ * @see {@link IterationResult `IterationResult`}
+ */
+type IterationResultMap<
+  TInputs extends ReadonlyMap<unknown, unknown> | Readonly<Record<PropertyKey, unknown>>,
+  TDefaultInitValue = undefined,
+> =
+  TInputs extends ReadonlyMap<infer K, infer V>
+    ? Map<K, IterationResult<V, TDefaultInitValue>>
+    : { [K in keyof TInputs]: IterationResult<TInputs[K], TDefaultInitValue> };
+
+type KeyOf<TInputs> = TInputs extends ReadonlyMap<infer K, unknown> ? K : keyof TInputs & string;
@@ -1,5 +1,18 @@
-import { useSimpleRerender } from '../common/hooks/useSimpleRerender.js';
-import { type IterationResult } from '../useAsyncIter/index.js';
+import { useStateStore } from '../common/hooks/useStateStore.js';
+import { useSyncExternalStoreCompat } from '../common/hooks/useSyncExternalStoreCompat.js';
+import { useScheduledRerender } from '../common/hooks/useScheduledRerender.js';
+import { type RetryPolicy } from '../common/RetryPolicy.js';
+import { isUrgentIterationChange, type RenderScheduling } from '../common/RenderScheduling.js';
+import { type IsEqualOpt } from '../common/IsEqualOpt.js';
+import {
+  throwIfIterationErrored,
+  type ThrowOnErrorOpt,
+} from '../common/throwIfIterationErrored.js';
+import {
+  type IterationResult,
+  type useAsyncIter, // eslint-disable-line @typescript-eslint/no-unused-vars
+} from '../useAsyncIter/index.js';
+import { type shallowEqual, type deepEqual } from '../equality/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
 import {
   useAsyncItersImperatively,
   type IterationResultSet,
@@ -68,6 +81,10 @@ export { useAsyncIterMulti, type IterationResult, type IterationResultSet };
  * actively iterated objects and/or plain values from the current `inputs` (including each's most recent
  * value, who's completed, etc. - see {@link IterationResultSet `IterationResultSet`}).
  *
+ * Just like with {@link useAsyncIter `useAsyncIter`}, the iteration states are tracked as an external
+ * store via [`useSyncExternalStore`](https://react.dev/reference/react/useSyncExternalStore), so
+ * results are tear-free under concurrent rendering.
+ *
  * ---
  *
  * @template TValues The array/tuple type of the input set of async iterable or plain values.
@@ -78,6 +95,11 @@ export { useAsyncIterMulti, type IterationResult, type IterationResultSet };
  * @param {object} opts An _optional_ object with options.
  * @param opts.initialValues An _optional_ array of initial values or functions that return initial values, each item of which is a starting value for the async iterable from `inputs` on the same array position. For every async iterable that has no corresponding item here, the provided `opts.defaultInitialValue` will be used as fallback.
  * @param opts.defaultInitialValue An _optional_ default starting value for every new async iterable in `inputs` if there is no corresponding one for it in `opts.initialValues`, defaults to `undefined`. You can pass an actual value, or a function that returns a value (which the hook will call for every new iterable added).
+ * @param opts.retry An _optional_ policy for retrying the iteration of any of the async iterables from `inputs` that ends with an error, by obtaining a fresh iterator from it after a delay (see {@link RetryPolicy `RetryPolicy`}). When given, the individual results also include the `retryCount` and `isRetrying` properties.
+ * @param opts.throwOnError An _optional_ flag (or a function that gets an error and returns a flag) for whether to rethrow an error that any of the async iterables from `inputs` ends with during render, letting the nearest error boundary catch it, defaults to `false`. Once the error boundary resets and re-mounts the host component, fresh iterations are started over the same async iterables.
+ * @param opts.scheduling An _optional_ setting for coalescing re-renders caused by values yielded in rapid succession from any of the async iterables from `inputs` - per animation frame (`'animationFrame'`) or per time interval (`{ throttleMs }`), rendering only the latest values each time. Completions, errors and first values are always rendered right away. Defaults to `'sync'` (see {@link RenderScheduling `RenderScheduling`}).
+ * @param opts.isEqual An _optional_ function that determines whether a value yielded by any of the async iterables from `inputs` is equal to the one it yielded before it, in which case it's skipped rather than re-rendered (e.g. {@link shallowEqual `shallowEqual`} or {@link deepEqual `deepEqual`}), or `false` to render every yielded value regardless. Defaults to `Object.is`.
+ * @param opts.metadata An _optional_ flag for whether the individual results should also include metadata about their iterations - the `iterationIndex`, `startedAt`, `lastYieldAt` and `endedAt` properties (see {@link IterationResult `IterationResult`}), defaults to `false`.
  *
  * @returns An array of objects that provide up-to-date information about each input's current value, completion status, whether it's still waiting for its first value and so on, correspondingly with the order in which they appear on `inputs` (see {@link IterationResultSet `IterationResultSet`}).
  *
@@ -202,14 +224,40 @@ function useAsyncIterMulti<
   opts?: {
     initialValues?: TInitValues;
     defaultInitialValue?: TDefaultInitValue;
+    retry?: RetryPolicy;
+    throwOnError?: ThrowOnErrorOpt;
+    scheduling?: RenderScheduling;
+    isEqual?: IsEqualOpt;
+    metadata?: boolean;
   }
 ): IterationResultSet<TValues, TInitValues, TDefaultInitValue> {
-  const update = useSimpleRerender();
+  const resultsStore = useStateStore(
+    () => [] as unknown as IterationResultSet<TValues, TInitValues, TDefaultInitValue>
+  );
+  const scheduleUpdate = useScheduledRerender(resultsStore.notify, opts?.scheduling);
+
+  resultsStore.current = useAsyncItersImperatively(
+    inputs,
+    (currResults, { prevState, nextState }) => {
+      resultsStore.current = currResults as typeof resultsStore.current;
+      scheduleUpdate(isUrgentIterationChange(prevState, nextState));
+    },
+    {
+      initialValues: (opts?.initialValues ?? []) as TInitValues,
+      defaultInitialValue: opts?.defaultInitialValue as TDefaultInitValue,
+      retry: opts?.retry,
+      isEqual: opts?.isEqual,
+      metadata: opts?.metadata,
+    }
+  );
+
+  const currValues = useSyncExternalStoreCompat(
+    resultsStore.subscribe,
+    resultsStore.getSnapshot,
+    resultsStore.getSnapshot
+  );
 
-  const currValues = useAsyncItersImperatively(inputs, () => update(), {
-    initialValues: (opts?.initialValues ?? []) as TInitValues,
-    defaultInitialValue: opts?.defaultInitialValue as TDefaultInitValue,
-  });
+  throwIfIterationErrored(currValues, opts?.throwOnError);
 
   return currValues;
 }
@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import { useLatest } from '../common/hooks/useLatest.js';
+import { useRefWithInitialValue } from '../common/hooks/useRefWithInitialValue.js';
+import { parseReactAsyncIterable } from '../common/ReactAsyncIterable.js';
+import { scan } from '../iterOperators/index.js';
+import { useAsyncIter, type IterationResult } from '../useAsyncIter/index.js';
+
+export { useAsyncIterPaged, type AsyncIterPagedResult };
+
+/**
+ * Hooks up a _paginated_ async iterable - one that yields a page (an array) of items at a time, such
+ * as an async generator fetching a feed page by page - for infinite scroll or _"load more"_ UIs,
+ * accumulating all the items loaded so far and pulling every next page only on demand.
+ *
+ * @example
+ * ```tsx
+ * import { useMemo } from 'react';
+ * import { useAsyncIterPaged } from 'react-async-iterators';
+ *
+ * function Feed() {
+ *   const pagesIter = useMemo(() => fetchFeedPages(), []);
+ *   const { items, loadMore, hasMore, isLoading } = useAsyncIterPaged(pagesIter);
+ *   return (
+ *     <>
+ *       {items.map(post => (
+ *         <Post key={post.id} post={post} />
+ *       ))}
+ *       {hasMore && (
+ *         <button disabled={isLoading} onClick={loadMore}>
+ *           {isLoading ? 'Loading...' : 'Load more'}
+ *         </button>
+ *       )}
+ *     </>
+ *   );
+ * }
+ *
+ * async function* fetchFeedPages() {
+ *   for (let cursor = ''; ; ) {
+ *     const res = await fetch(`/api/feed?cursor=${cursor}`).then(res => res.json());
+ *     yield res.posts;
+ *     if (!res.nextCursor) return;
+ *     cursor = res.nextCursor;
+ *   }
+ * }
+ * ```
+ *
+ * ---
+ *
+ * The first page is pulled as soon as the hook mounts (or is given a different async iterable),
+ * while every page after it is pulled only upon calling `loadMore()` - which calls the iterator's
+ * `.next()` exactly once and appends the items of the resulting page to `items`. Calls to
+ * `loadMore()` made while a page is still loading, or after the async iterable had ended, are
+ * ignored.
+ *
+ * The returned `pendingFirst`, `done` and `error` properties follow the same semantics as in
+ * {@link IterationResult `IterationResult`}, with `hasMore` simply being the inverse of `done`.
+ *
+ * The iteration is held with the same lifecycle as with {@link useAsyncIter `useAsyncIter`} - when
+ * given a different async iterable the previous one is closed (by calling its `.return()`) and items
+ * accumulation starts over, and the same happens when the component unmounts.
+ *
+ * ---
+ *
+ * @template TItem The type of the items in every page.
+ *
+ * @param source An async iterable yielding pages (arrays) of items.
+ *
+ * @returns An object with the accumulated items and the state of pagination (see {@link AsyncIterPagedResult `AsyncIterPagedResult`}).
+ *
+ * @see {@link AsyncIterPagedResult `AsyncIterPagedResult`}
+ */
+function useAsyncIterPaged<TItem>(
+  source: AsyncIterable<readonly TItem[]>
+): AsyncIterPagedResult<TItem> {
+  const latestSourceRef = useLatest(source);
+  const { baseIter } = parseReactAsyncIterable(source);
+
+  const itemsIter = useMemo(
+    () => ({
+      [Symbol.asyncIterator]: () =>
+        scan(
+          (items: TItem[], page: readonly TItem[]) => [...items, ...page],
+          () => []
+        )(latestSourceRef.current)[Symbol.asyncIterator](),
+    }),
+    [baseIter]
+  );
+
+  const next = useAsyncIter(itemsIter, () => [] as TItem[], { mode: 'manual' });
+
+  const [loadingMoreFrom, setLoadingMoreFrom] = useState<IterationResult<unknown, unknown>>();
+
+  const latestRef = useLatest({ next, loadingMoreFrom });
+
+  const loadMore = useRefWithInitialValue(() => () => {
+    const { next, loadingMoreFrom } = latestRef.current;
+    if (next.pendingFirst || next.done || loadingMoreFrom === next) {
+      return;
+    }
+    setLoadingMoreFrom(next);
+    next.advance();
+  }).current;
+
+  return {
+    items: next.value,
+    loadMore,
+    hasMore: !next.done,
+    isLoading: next.pendingFirst || (loadingMoreFrom === next && !next.done),
+    pendingFirst: next.pendingFirst,
+    done: next.done,
+    error: next.error,
+  };
+}
+
+/**
+ * The object returned from the {@link useAsyncIterPaged `useAsyncIterPaged`} hook.
+ *
+ * @template TItem The type of the items in every page.
+ */
+type AsyncIterPagedResult<TItem> = {
+  /**
+   * All the items from every page loaded so far, in order. Starts as an empty array.
+   */
+  items: TItem[];
+
+  /**
+   * Pulls the next page from the async iterable and appends its items to `items` once it arrives.
+   * Has no effect while a page is still loading or once the async iterable had ended. Maintains a
+   * stable reference across re-renders.
+   */
+  loadMore: () => void;
+
+  /**
+   * Indicates whether the async iterable may have further pages to load, being `false` once it had
+   * completed or errored out.
+   */
+  hasMore: boolean;
+
+  /**
+   * Indicates whether a page is currently being loaded - either the first page, or one requested via
+   * `loadMore()`.
+   */
+  isLoading: boolean;
+
+  /**
+   * Indicates whether the async iterable is still pending its first page.
+   *
+   * @see {@link IterationResult.pendingFirst `IterationResult.pendingFirst`}
+   */
+  pendingFirst: boolean;
+
+  /**
+   * Indicates whether the async iterable has ended, having either completed or thrown an error.
+   *
+   * @see {@link IterationResult.done `IterationResult.done`}
+   */
+  done: boolean;
+
+  /**
+   * The error the async iterable had thrown, if any.
+   *
+   * @see {@link IterationResult.error `IterationResult.error`}
+   */
+  error: unknown;
+};
@@ -0,0 +1,220 @@
+import { useRefWithInitialValue } from '../common/hooks/useRefWithInitialValue.js';
+import { useEffectStrictModeSafe } from '../common/hooks/useEffectStrictModeSafe.js';
+import { useLatest } from '../common/hooks/useLatest.js';
+import { callOrReturn } from '../common/callOrReturn.js';
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+import {
+  AsyncIterableChannel,
+  type AsyncIterableChannelSubject,
+} from '../common/AsyncIterableChannel.js';
+import { type AsyncIterStateOpts } from '../createAsyncIterState/index.js';
+import { type Iterate } from '../Iterate/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type useAsyncIterState } from '../useAsyncIterState/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+export {
+  useAsyncIterReducer,
+  type AsyncIterReducerResult,
+  type AsyncIterReducerOpts,
+  type AsyncIterReducerMiddleware,
+  type AsyncIterReducerMiddlewareApi,
+};
+
+/**
+ * Basically like {@link https://react.dev/reference/react/useReducer `React.useReducer`}, only that
+ * the state is provided back __wrapped in an async iterable__ - the reducer-based counterpart of
+ * {@link useAsyncIterState `useAsyncIterState`}.
+ *
+ * Dispatching an action runs the reducer with the current state and the action, and makes the
+ * returned async iterable yield the resulting state. Just like with `useAsyncIterState`, this does
+ * __not__ re-render the host component - only the places in the UI tree that are bound to the
+ * iterable (e.g. via {@link Iterate `<Iterate>`}) re-render, which makes it well suited for the state
+ * of complex forms and editors whose parts update independently.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIterReducer, It } from 'react-async-iterators';
+ *
+ * type TodoAction =
+ *   | { type: 'added'; text: string }
+ *   | { type: 'toggled'; id: number };
+ *
+ * function todosReducer(todos: Todo[], action: TodoAction): Todo[] {
+ *   switch (action.type) {
+ *     case 'added':
+ *       return [...todos, { id: todos.length, text: action.text, done: false }];
+ *     case 'toggled':
+ *       return todos.map(t => (t.id === action.id ? { ...t, done: !t.done } : t));
+ *   }
+ * }
+ *
+ * function TodoApp() {
+ *   const [todosIter, dispatch] = useAsyncIterReducer(todosReducer, []);
+ *
+ *   return (
+ *     <>
+ *       <AddTodoForm onAdd={text => dispatch({ type: 'added', text })} />
+ *       <It value={todosIter}>
+ *         {({ value: todos }) => (
+ *           <TodoList todos={todos} onToggle={id => dispatch({ type: 'toggled', id })} />
+ *         )}
+ *       </It>
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * ---
+ *
+ * The returned async iterable and `dispatch` function both keep stable references across re-renders,
+ * and the iterable is closed when the component unmounts. The most recently rendered `reducer` is
+ * always the one applied.
+ *
+ * Middleware can be given via `opts.middleware`, following the familiar Redux middleware signature -
+ * each one is called once with an API object (for reading the state, dispatching actions, and
+ * replacing the state outright), returning a function that wraps the `next` dispatch function in
+ * the chain. The middleware chain is composed once, on mount.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIterReducer, type AsyncIterReducerMiddleware } from 'react-async-iterators';
+ *
+ * const logger: AsyncIterReducerMiddleware<EditorState, EditorAction> = api => next => action => {
+ *   console.log('Dispatching', action, 'upon', api.getState());
+ *   next(action);
+ *   console.log('Resulted in', api.getState());
+ * };
+ *
+ * function undoable(): AsyncIterReducerMiddleware<EditorState, EditorAction | { type: 'undo' }> {
+ *   const history: EditorState[] = [];
+ *   return api => next => action => {
+ *     if (action.type === 'undo') {
+ *       if (history.length) {
+ *         api.replaceState(history.pop()!);
+ *       }
+ *     } else {
+ *       history.push(api.getState());
+ *       next(action);
+ *     }
+ *   };
+ * }
+ *
+ * function Editor() {
+ *   const [editorStateIter, dispatch] = useAsyncIterReducer(editorReducer, initialEditorState, {
+ *     middleware: [logger, undoable()],
+ *   });
+ *   // ...
+ * }
+ * ```
+ *
+ * ---
+ *
+ * @template TState The type of the state.
+ * @template TAction The type of actions accepted by the reducer, typically a union of action objects.
+ *
+ * @param reducer A function that calculates the next state from the current state and a dispatched action.
+ * @param initialState The starting state, which is set as the iterable's `.value.current` property. You can pass an actual value, or a function that returns a value (which the hook will call once during mounting).
+ * @param opts An _optional_ object with options (see {@link AsyncIterReducerOpts `AsyncIterReducerOpts`}).
+ *
+ * @returns a stateful async iterable and a function for dispatching actions. Both maintain stable references across re-renders.
+ *
+ * @see {@link useAsyncIterState `useAsyncIterState`}
+ */
+function useAsyncIterReducer<TState, TAction>(
+  reducer: (state: TState, action: TAction) => TState,
+  initialState: MaybeFunction<TState>,
+  opts?: AsyncIterReducerOpts<TState, TAction>
+): AsyncIterReducerResult<TState, TAction> {
+  const latestReducerRef = useLatest(reducer);
+
+  const ref = useRefWithInitialValue<{
+    result: AsyncIterReducerResult<TState, TAction>;
+    close: () => void;
+  }>(() => {
+    const channel = new AsyncIterableChannel<TState>(callOrReturn(initialState), opts?.delivery);
+
+    const api: AsyncIterReducerMiddlewareApi<TState, TAction> = {
+      getState: () => channel.out.value.current,
+      dispatch: action => dispatch(action),
+      replaceState: state => channel.put(() => state), // Wrapping in a function since the state may itself be a function, which `put` would otherwise treat as an updater
+    };
+
+    const dispatch = (opts?.middleware ?? []).reduceRight<(action: TAction) => void>(
+      (next, middleware) => middleware(api)(next),
+      action => channel.put(state => latestReducerRef.current(state, action))
+    );
+
+    return {
+      result: [channel.out, action => dispatch(action)],
+      close: () => channel.close(),
+    };
+  });
+
+  const { result, close } = ref.current;
+
+  useEffectStrictModeSafe(() => {
+    return () => close();
+  });
+
+  return result;
+}
+
+/**
+ * Options for {@link useAsyncIterReducer `useAsyncIterReducer`}.
+ */
+type AsyncIterReducerOpts<TState, TAction> = AsyncIterStateOpts & {
+  /**
+   * Middleware to pass every dispatched action through before it reaches the reducer, in order -
+   * the first one given is the first to receive each action (see
+   * {@link AsyncIterReducerMiddleware `AsyncIterReducerMiddleware`}). Applied once, on mount.
+   */
+  middleware?: AsyncIterReducerMiddleware<TState, TAction>[];
+};
+
+/**
+ * A middleware for {@link useAsyncIterReducer `useAsyncIterReducer`}, following the Redux
+ * middleware signature - given the {@link AsyncIterReducerMiddlewareApi middleware API} and the
+ * `next` dispatch function in the chain, it returns a dispatch function that may inspect, transform,
+ * delay or swallow each action, and calls `next` to pass it on towards the reducer.
+ */
+type AsyncIterReducerMiddleware<TState, TAction> = (
+  api: AsyncIterReducerMiddlewareApi<TState, TAction>
+) => (next: (action: TAction) => void) => (action: TAction) => void;
+
+/**
+ * The API object given to every {@link AsyncIterReducerMiddleware `AsyncIterReducerMiddleware`}.
+ */
+type AsyncIterReducerMiddlewareApi<TState, TAction> = {
+  /** Returns the current state. */
+  getState(): TState;
+  /** Dispatches an action from the start of the middleware chain. */
+  dispatch(action: TAction): void;
+  /** Sets the state to the given one directly, bypassing the reducer (e.g. for restoring a previous state on undo). */
+  replaceState(state: TState): void;
+};
+
+/**
+ * A pair of stateful async iterable and a function for dispatching actions, which updates the state
+ * through the reducer and makes the paired async iterable yield the new state.
+ * Returned from the {@link useAsyncIterReducer `useAsyncIterReducer`} hook.
+ *
+ * @see {@link useAsyncIterReducer `useAsyncIterReducer`}
+ */
+type AsyncIterReducerResult<TState, TAction> = [
+  /**
+   * A stateful async iterable which yields every updated state following a dispatched action.
+   *
+   * Includes a `.value.current` property which shows the current up to date state at all times.
+   *
+   * This is a shared async iterable - all iterators obtained from it share the same source values,
+   * meaning multiple iterators can be consumed (iterated) simultaneously, each one picking up the
+   * same values as others the moment they were generated through state updates.
+   */
+  values: AsyncIterableChannelSubject<TState>,
+
+  /**
+   * A function which dispatches an action through any middleware and then the reducer, causing the
+   * paired async iterable to yield the updated state and immediately setting its `.value.current`
+   * property to it.
+   */
+  dispatch: (action: TAction) => void,
+];
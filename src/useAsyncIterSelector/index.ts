@@ -0,0 +1,154 @@
+import { useMemo } from 'react';
+import { useLatest } from '../common/hooks/useLatest.js';
+import { isAsyncIter } from '../common/isAsyncIter.js';
+import { type DeasyncIterized } from '../common/DeasyncIterized.js';
+import { memoizeLast } from '../common/memoizeLast.js';
+import {
+  parseReactAsyncIterable,
+  reactAsyncIterSpecialInfoSymbol,
+  type ReactAsyncIterSpecialInfo,
+} from '../common/ReactAsyncIterable.js';
+import { type AsyncIterableSubject } from '../AsyncIterableSubject/index.js';
+import { type iterateFormatted } from '../iterateFormatted/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { useAsyncIter, type IterationResult } from '../useAsyncIter/index.js';
+
+export { useAsyncIterSelector };
+
+/**
+ * Hooks into a _slice_ of an async iterable's values (typically of some shared, app-wide state),
+ * re-rendering the host component only when that selected slice changes, rather than on every
+ * single value the async iterable yields.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIterSelector } from 'react-async-iterators';
+ * import { appStateIter } from './appState.js';
+ *
+ * function UserAvatar() {
+ *   // Re-renders only when `user.avatarUrl` changes, while `appStateIter` may yield way more often
+ *   const { value: avatarUrl } = useAsyncIterSelector(appStateIter, state => state.user.avatarUrl);
+ *   return <img src={avatarUrl} />;
+ * }
+ * ```
+ *
+ * ---
+ *
+ * Every value yielded by the given async iterable is passed through `selector`, and the result is
+ * compared against the previously selected one using `equalityFn` - only if they're __not__ equal,
+ * the hook updates and re-renders with the newly selected value. Selectors that derive new objects
+ * or arrays on every call can be paired with an appropriate `equalityFn` to avoid redundant
+ * re-renders.
+ *
+ * If the given async iterable has a current value (a `.value.current` property, per the
+ * {@link AsyncIterableSubject `AsyncIterableSubject`} interface), it is read and selected
+ * synchronously on mount, so the result begins with the selected value rather than in a
+ * `pendingFirst` state. Async iterables formatted via {@link iterateFormatted `iterateFormatted`} are
+ * given to `selector` with their formatting applied.
+ *
+ * Only a single iteration is held for the given async iterable, regardless of re-renders. Changing
+ * the `selector` or `equalityFn` between renders does __not__ restart the iteration - the latest ones
+ * given are always used. Changing the given async iterable itself behaves the same as it does with
+ * {@link useAsyncIter `useAsyncIter`}.
+ *
+ * If given a plain (non async iterable) value, the hook simply returns it passed through `selector`.
+ *
+ * ---
+ *
+ * @template TSource The type of the given async iterable (or plain value).
+ * @template TSelected The type of the selected slice.
+ *
+ * @param source Any async iterable or plain value.
+ * @param selector A function that selects a slice out of each value.
+ * @param equalityFn An _optional_ function that determines whether two selected slices are equal, defaults to [`Object.is`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/is).
+ *
+ * @returns An object with the selected slice of the most recent value and the current iteration state (see {@link IterationResult `IterationResult`}).
+ *
+ * @see {@link useAsyncIter `useAsyncIter`}
+ */
+function useAsyncIterSelector<TSource, TSelected>(
+  source: TSource,
+  selector: (value: DeasyncIterized<TSource>) => TSelected,
+  equalityFn?: (prevSelected: TSelected, nextSelected: TSelected) => boolean
+): IterationResult<
+  TSource extends AsyncIterableSubject<unknown>
+    ? AsyncIterableSubject<TSelected>
+    : TSource extends AsyncIterable<unknown>
+      ? AsyncIterable<TSelected>
+      : TSelected
+>;
+
+function useAsyncIterSelector(
+  source:
+    | undefined
+    | null
+    | {
+        [Symbol.asyncIterator]?: () => AsyncIterator<unknown, unknown, unknown>;
+        [reactAsyncIterSpecialInfoSymbol]?: ReactAsyncIterSpecialInfo<unknown, unknown>;
+        value?: AsyncIterableSubject<unknown>['value'];
+      },
+  selector: (value: unknown) => unknown,
+  equalityFn: (prevSelected: unknown, nextSelected: unknown) => boolean = Object.is
+): IterationResult<unknown> {
+  const latestSourceRef = useLatest(source);
+  const selectorRef = useLatest(selector);
+  const equalityFnRef = useLatest(equalityFn);
+
+  const baseIter = !isAsyncIter(source)
+    ? undefined
+    : (source[reactAsyncIterSpecialInfoSymbol]?.origSource ?? source);
+
+  const selectedIter = useMemo(() => {
+    if (!baseIter) {
+      return undefined;
+    }
+
+    const selectMemoized = memoizeLast((current: unknown, selector: typeof selectorRef.current) =>
+      selector(current)
+    );
+
+    const selectCurrent = (): unknown =>
+      selectMemoized(latestSourceRef.current!.value!.current, selectorRef.current);
+
+    return {
+      [Symbol.asyncIterator]: () => {
+        const iterator = baseIter[Symbol.asyncIterator]();
+        const hasCurrentValue = !!latestSourceRef.current?.value;
+        let prevSelected = hasCurrentValue ? { value: selectCurrent() } : undefined;
+        let iterationIdx = hasCurrentValue ? 1 : 0; // If source has a current value, it should have been the "first iteration" already, so in that case the right up next one here is *the second* already (index of 1)
+
+        return {
+          next: async (): Promise<IteratorResult<unknown>> => {
+            while (true) {
+              const next = await iterator.next();
+              if (next.done) {
+                return next;
+              }
+              const { formatFn } = parseReactAsyncIterable(
+                latestSourceRef.current as AsyncIterable<unknown>
+              );
+              const selected = selectorRef.current(formatFn(next.value, iterationIdx++));
+              if (!prevSelected || !equalityFnRef.current(prevSelected.value, selected)) {
+                prevSelected = { value: selected };
+                return { done: false, value: selected };
+              }
+            }
+          },
+          return: async () => {
+            await iterator.return?.();
+            return { done: true, value: undefined };
+          },
+        };
+      },
+
+      value: !source!.value
+        ? undefined
+        : {
+            get current() {
+              return selectCurrent();
+            },
+          },
+    };
+  }, [baseIter]);
+
+  return useAsyncIter(selectedIter ?? selectorRef.current(source));
+}
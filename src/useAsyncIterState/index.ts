@@ -1,12 +1,13 @@
-import { callOrReturn } from '../common/callOrReturn.js';
 import { useRefWithInitialValue } from '../common/hooks/useRefWithInitialValue.js';
 import { useEffectStrictModeSafe } from '../common/hooks/useEffectStrictModeSafe.js';
 import { type MaybeFunction } from '../common/MaybeFunction.js';
 import { type Iterate } from '../Iterate/index.js'; // eslint-disable-line @typescript-eslint/no-unused-vars
+import { type AsyncIterableChannelSubject } from '../common/AsyncIterableChannel.js';
 import {
-  AsyncIterableChannel,
-  type AsyncIterableChannelSubject,
-} from '../common/AsyncIterableChannel.js';
+  createAsyncIterState,
+  type AsyncIterStateOpts,
+  type AsyncIterStateDelivery, // eslint-disable-line @typescript-eslint/no-unused-vars
+} from '../createAsyncIterState/index.js';
 
 export { useAsyncIterState, type AsyncIterStateResult, type AsyncIterableChannelSubject };
 
@@ -90,12 +91,17 @@ export { useAsyncIterState, type AsyncIterStateResult, type AsyncIterableChannel
  *
  * The returned async iterable is automatically closed on host component unmount.
  *
+ * By default, iterators pick up only the latest state value at the time they pull, coalescing rapid
+ * successive updates. This can be changed via the `delivery` option (see
+ * {@link AsyncIterStateDelivery `AsyncIterStateDelivery`}), which is read once during mounting.
+ *
  * ---
  *
  * @template TVal the type of state to be set and yielded by returned iterable.
  * @template TInitVal The type of the starting value for the state iterable's `.value.current` property.
  *
  * @param initialValue Any optional starting value for the state iterable's `.value.current` property, defaults to `undefined`. You can pass an actual value, or a function that returns a value (which the hook will call once during mounting).
+ * @param opts An _optional_ object with options (see {@link AsyncIterStateOpts `AsyncIterStateOpts`}).
  *
  * @returns a stateful async iterable and a function for yielding an update. Both maintain stable references across re-renders.
  *
@@ -104,32 +110,37 @@ export { useAsyncIterState, type AsyncIterStateResult, type AsyncIterableChannel
 function useAsyncIterState<TVal>(): AsyncIterStateResult<TVal, undefined>;
 
 function useAsyncIterState<TVal>(
-  initialValue: MaybeFunction<TVal>
+  initialValue: MaybeFunction<TVal>,
+  opts?: AsyncIterStateOpts
 ): AsyncIterStateResult<TVal, TVal>;
 
 function useAsyncIterState<TVal, TInitVal = undefined>(
-  initialValue: MaybeFunction<TInitVal>
+  initialValue: MaybeFunction<TInitVal>,
+  opts?: AsyncIterStateOpts
 ): AsyncIterStateResult<TVal, TInitVal>;
 
 function useAsyncIterState<TVal, TInitVal>(
-  initialValue?: MaybeFunction<TInitVal>
+  initialValue?: MaybeFunction<TInitVal>,
+  opts?: AsyncIterStateOpts
 ): AsyncIterStateResult<TVal, TInitVal> {
   const ref = useRefWithInitialValue<{
-    channel: AsyncIterableChannel<TVal, TInitVal>;
     result: AsyncIterStateResult<TVal, TInitVal>;
+    close: () => void;
   }>(() => {
-    const initialValueCalced = callOrReturn(initialValue)!;
-    const channel = new AsyncIterableChannel<TVal, TInitVal>(initialValueCalced);
+    const [values, setValue, close] = createAsyncIterState<TVal, TInitVal>(
+      initialValue as MaybeFunction<TInitVal>,
+      opts
+    );
     return {
-      channel,
-      result: [channel.out, newVal => channel.put(newVal)],
+      result: [values, setValue],
+      close,
     };
   });
 
-  const { channel, result } = ref.current;
+  const { result, close } = ref.current;
 
   useEffectStrictModeSafe(() => {
-    return () => channel.close();
+    return () => close();
   });
 
   return result;
@@ -0,0 +1,65 @@
+import { useAsyncIter, type IterationResult } from '../useAsyncIter/index.js';
+
+export { useAsyncIterSuspense };
+
+/**
+ * A [Suspense](https://react.dev/reference/react/Suspense)-enabled variant of
+ * {@link useAsyncIter `useAsyncIter`}, which suspends the host component for as long as the given
+ * async iterable is pending its first value.
+ *
+ * @example
+ * ```tsx
+ * import { Suspense } from 'react';
+ * import { useAsyncIterSuspense } from 'react-async-iterators';
+ *
+ * function App() {
+ *   return (
+ *     <Suspense fallback={<div>Loading todos...</div>}>
+ *       <SelfUpdatingTodoList todosAsyncIter={todosAsyncIter} />
+ *     </Suspense>
+ *   );
+ * }
+ *
+ * function SelfUpdatingTodoList(props) {
+ *   const { value: todos } = useAsyncIterSuspense(props.todosAsyncIter);
+ *   return (
+ *     <ul>
+ *       {todos.map(todo => (
+ *         <li key={todo.id}>{todo.text}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * ---
+ *
+ * Equivalent to calling `useAsyncIter(input, undefined, { suspense: true })`. The nearest
+ * `<React.Suspense>` boundary will show its fallback until `input` yields its first value (or
+ * completes or errors out without yielding any), from which point the hook behaves just like
+ * {@link useAsyncIter `useAsyncIter`} does - the returned result object is guaranteed to never be
+ * in a `pendingFirst` state.
+ *
+ * Whenever `input` is changed to a new async iterable, the host component will suspend again until
+ * the new iterable yields its first value.
+ *
+ * Plain values, as well as async iterables with a current value (a `.value.current` property), never
+ * cause a suspension since they're available immediately.
+ *
+ * ---
+ *
+ * @template TVal The type of values yielded by the passed iterable or type of plain value if otherwise passed.
+ *
+ * @param input Any async iterable or plain value.
+ *
+ * @returns An object with properties reflecting the current state of the iterated async iterable or plain value provided via `input` (see {@link IterationResult `IterationResult`}).
+ *
+ * @see {@link useAsyncIter `useAsyncIter`}
+ * @see {@link IterationResult `IterationResult`}
+ */
+function useAsyncIterSuspense<TVal>(input: TVal): IterationResult<TVal> & {
+  pendingFirst: false;
+} {
+  const next = useAsyncIter(input, undefined, { suspense: true });
+  return next as typeof next & { pendingFirst: false };
+}
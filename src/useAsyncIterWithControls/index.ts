@@ -0,0 +1,69 @@
+import { type MaybeFunction } from '../common/MaybeFunction.js';
+import {
+  useAsyncIterWithControlsInternal,
+  type useAsyncIter, // eslint-disable-line @typescript-eslint/no-unused-vars
+  type IterationResult,
+  type UseAsyncIterOpts,
+  type AsyncIterControls,
+} from '../useAsyncIter/index.js';
+
+export { useAsyncIterWithControls, type AsyncIterControls };
+
+/**
+ * Like {@link useAsyncIter `useAsyncIter`}, only that it also returns a set of controls for
+ * imperatively restarting or stopping the iteration of the hooked async iterable.
+ *
+ * @example
+ * ```tsx
+ * import { useAsyncIterWithControls } from 'react-async-iterators';
+ *
+ * function LiveFeed(props) {
+ *   const [next, { restart, stop }] = useAsyncIterWithControls(props.feedIter);
+ *   return (
+ *     <div>
+ *       <button onClick={restart}>Refresh</button>
+ *       <button onClick={stop}>Stop</button>
+ *       {next.pendingFirst ? 'Loading...' : <FeedItems items={next.value} />}
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * ---
+ *
+ * With {@link useAsyncIter `useAsyncIter`}, the only way to re-run an iteration is to pass a
+ * different async iterable object. This hook lets you re-run it for the __same__ async iterable
+ * object instead - calling `restart()` closes the currently active iterator (by calling its
+ * `.return()`) and obtains a fresh one from the async iterable, applying the same `pendingFirst`
+ * semantics as when given a new async iterable. Calling `stop()` closes the currently active iterator
+ * and marks the result as `done`.
+ *
+ * Everything else (parameters, options and the shape of the result) behaves exactly the same as in
+ * {@link useAsyncIter `useAsyncIter`}.
+ *
+ * ---
+ *
+ * @template TVal The type of values yielded by the passed iterable or type of plain value if otherwise passed.
+ * @template TInitVal The type of the initial value, defaults to `undefined`.
+ *
+ * @param input Any async iterable or plain value.
+ * @param initialVal Any optional starting value for the hook to return prior to the ___first yield___ of the ___first given___ async iterable, defaults to `undefined`. You can pass an actual value, or a function that returns a value (which the hook will call once during mounting).
+ * @param opts An _optional_ object with options (see {@link UseAsyncIterOpts `UseAsyncIterOpts`}).
+ *
+ * @returns A tuple of the current iteration state (see {@link IterationResult `IterationResult`}) and a set of iteration controls (see {@link AsyncIterControls `AsyncIterControls`}).
+ *
+ * @see {@link useAsyncIter `useAsyncIter`}
+ * @see {@link AsyncIterControls `AsyncIterControls`}
+ */
+const useAsyncIterWithControls: {
+  <TVal, TOpts extends UseAsyncIterOpts = UseAsyncIterOpts>(
+    input: TVal,
+    initialVal?: undefined,
+    opts?: TOpts
+  ): [IterationResult<TVal, undefined, TOpts>, AsyncIterControls];
+  <TVal, TInitVal, TOpts extends UseAsyncIterOpts = UseAsyncIterOpts>(
+    input: TVal,
+    initialVal: MaybeFunction<TInitVal>,
+    opts?: TOpts
+  ): [IterationResult<TVal, TInitVal, TOpts>, AsyncIterControls];
+} = useAsyncIterWithControlsInternal;